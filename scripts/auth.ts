@@ -5,43 +5,158 @@
  * Automates the OAuth 2.0 authorization code flow:
  * 1. Starts a local callback server
  * 2. Opens browser with LinkedIn authorization URL
- * 3. Captures the authorization code
- * 4. Exchanges code for access token
- * 5. Updates .envrc with the new token
+ * 3. Captures the authorization code (verifying the state parameter)
+ * 4. Exchanges code for access token (with PKCE when --pkce is given)
+ * 5. Saves the tokens to .envrc, or to a profile in LINKEDIN_PROFILES_FILE
  *
- * Usage: npm run auth
+ * Usage: npm run auth -- [--app ads|community] [--scopes <preset|list>] [--profile <name>] [--pkce]
  */
 
 import * as http from 'node:http';
 import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
+import { randomBytes } from 'node:crypto';
+import { promisify, parseArgs } from 'node:util';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { parseDocument } from 'yaml';
+import {
+  SCOPE_PRESETS,
+  TokenStore,
+  buildAuthorizationUrl,
+  createPkcePair,
+  exchangeCodeForToken,
+  resolveScopes,
+  toStoredToken,
+  type TokenResponse,
+} from '../src/oauth.js';
 
 const execAsync = promisify(exec);
 
-// Configuration
-const PORT = 8080;
-const REDIRECT_URI = `http://localhost:${PORT}/callback`;
-const SCOPES = ['r_ads', 'rw_ads', 'r_ads_reporting'];
-
 // Get directory of this script
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const PROJECT_ROOT = path.resolve(__dirname, '..');
 const ENVRC_PATH = path.join(PROJECT_ROOT, '.envrc');
 
-interface TokenResponse {
-  access_token: string;
-  expires_in: number;
-  refresh_token?: string;
-  refresh_token_expires_in?: number;
-  scope: string;
+/**
+ * Per-app settings: where its client credentials come from and where its tokens go
+ */
+const APPS = {
+  ads: {
+    label: 'Ads app (Advertising API, Share on LinkedIn)',
+    defaultScopes: 'ads',
+    clientIdVar: 'LINKEDIN_CLIENT_ID',
+    clientSecretVar: 'LINKEDIN_CLIENT_SECRET',
+    clientIdField: 'clientId',
+    clientSecretField: 'clientSecret',
+    accessTokenVar: 'LINKEDIN_ACCESS_TOKEN',
+    expiresAtVar: 'LINKEDIN_ACCESS_TOKEN_EXPIRES_AT',
+    refreshTokenVar: 'LINKEDIN_REFRESH_TOKEN',
+    accessTokenField: 'accessToken',
+    refreshTokenField: 'refreshToken',
+    expiresAtField: 'accessTokenExpiresAt',
+  },
+  community: {
+    label: 'Analytics app (Community Management API)',
+    defaultScopes: 'community',
+    clientIdVar: 'LINKEDIN_COMMUNITY_CLIENT_ID',
+    clientSecretVar: 'LINKEDIN_COMMUNITY_CLIENT_SECRET',
+    clientIdField: 'communityClientId',
+    clientSecretField: 'communityClientSecret',
+    accessTokenVar: 'LINKEDIN_COMMUNITY_TOKEN',
+    expiresAtVar: 'LINKEDIN_COMMUNITY_TOKEN_EXPIRES_AT',
+    refreshTokenVar: 'LINKEDIN_COMMUNITY_REFRESH_TOKEN',
+    accessTokenField: 'communityToken',
+    refreshTokenField: 'communityRefreshToken',
+    expiresAtField: 'communityTokenExpiresAt',
+  },
+} as const;
+
+type AppName = keyof typeof APPS;
+
+interface Options {
+  app: AppName;
+  scopes: string[];
+  profile?: string;
+  profilesFile?: string;
+  pkce: boolean;
+  port: number;
+}
+
+const USAGE = `Usage: npm run auth -- [options]
+
+Options:
+  --app <ads|community>    LinkedIn app to authorize (default: ads)
+  --scopes <preset|list>   Scope preset (${Object.keys(SCOPE_PRESETS).join(', ')}) or comma-separated scopes
+                           (default: the app's preset)
+  --profile <name>         Save the tokens to this profile in the profiles file instead of .envrc
+  --profiles-file <path>   Profiles file to update (default: LINKEDIN_PROFILES_FILE)
+  --pkce                   Use PKCE (S256) for the code exchange
+  --port <number>          Local callback port (default: 8080)
+  --help                   Show this help
+`;
+
+function parseOptions(): Options {
+  const { values } = parseArgs({
+    options: {
+      app: { type: 'string', default: 'ads' },
+      scopes: { type: 'string' },
+      profile: { type: 'string' },
+      'profiles-file': { type: 'string' },
+      pkce: { type: 'boolean', default: false },
+      port: { type: 'string', default: '8080' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help === true) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const app = values.app ?? 'ads';
+  if (!Object.hasOwn(APPS, app)) {
+    fail(`Unknown app ${app}. Use --app ads or --app community.`);
+  }
+
+  const scopes = resolveScopes(values.scopes ?? APPS[app as AppName].defaultScopes);
+  if (scopes.length === 0) {
+    fail('--scopes must name a preset or at least one scope');
+  }
+
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    fail(`Invalid --port ${values.port ?? ''}`);
+  }
+
+  const profilesFile = values['profiles-file'] ?? nonEmpty(process.env.LINKEDIN_PROFILES_FILE);
+  if (values.profile !== undefined && profilesFile === undefined) {
+    fail('--profile needs --profiles-file or LINKEDIN_PROFILES_FILE');
+  }
+
+  return {
+    app: app as AppName,
+    scopes,
+    profile: values.profile,
+    profilesFile,
+    pkce: values.pkce === true,
+    port,
+  };
+}
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`);
+  console.error(`\n${USAGE}`);
+  process.exit(1);
+}
+
+function nonEmpty(value: string | undefined): string | undefined {
+  return value !== undefined && value.trim() !== '' ? value : undefined;
 }
 
 function getEnvVar(name: string): string {
-  const value = process.env[name];
-  if (value === undefined || value.trim() === '') {
+  const value = nonEmpty(process.env[name]);
+  if (value === undefined) {
     console.error(`❌ Missing environment variable: ${name}`);
     console.error(`   Make sure your .envrc is set up and run 'direnv allow'`);
     process.exit(1);
@@ -49,70 +164,124 @@ function getEnvVar(name: string): string {
   return value;
 }
 
-function buildAuthUrl(clientId: string): string {
-  const params = new URLSearchParams({
-    response_type: 'code',
-    client_id: clientId,
-    redirect_uri: REDIRECT_URI,
-    scope: SCOPES.join(' '),
-    state: crypto.randomUUID(),
-  });
-  return `https://www.linkedin.com/oauth/v2/authorization?${params.toString()}`;
-}
+/**
+ * Read a profiles file as a plain object (JSON, or YAML for .yaml/.yml)
+ */
+function readProfiles(file: string): Record<string, unknown> {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
 
-async function exchangeCodeForToken(
-  code: string,
-  clientId: string,
-  clientSecret: string
-): Promise<TokenResponse> {
-  const response = await fetch('https://www.linkedin.com/oauth/v2/accessToken', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      grant_type: 'authorization_code',
-      code,
-      client_id: clientId,
-      client_secret: clientSecret,
-      redirect_uri: REDIRECT_URI,
-    }),
-  });
+  const text = fs.readFileSync(file, 'utf-8');
+  const data: unknown = isYaml(file) ? parseDocument(text).toJS() : JSON.parse(text);
+  return typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : {};
+}
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Token exchange failed: ${response.status} ${error}`);
+/**
+ * Set fields of one profile, keeping the rest of the file (and YAML comments) intact
+ */
+function updateProfile(file: string, profile: string, fields: Record<string, string>): void {
+  if (isYaml(file)) {
+    const doc = parseDocument(fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : '');
+    for (const [key, value] of Object.entries(fields)) {
+      doc.setIn(['profiles', profile, key], value);
+    }
+    fs.writeFileSync(file, doc.toString(), { mode: 0o600 });
+    return;
   }
 
-  return (await response.json()) as TokenResponse;
+  const data = readProfiles(file);
+  const profiles = (data.profiles ?? {}) as Record<string, Record<string, unknown>>;
+  profiles[profile] = { ...profiles[profile], ...fields };
+  fs.writeFileSync(file, `${JSON.stringify({ ...data, profiles }, null, 2)}\n`, { mode: 0o600 });
+}
+
+function isYaml(file: string): boolean {
+  return ['.yaml', '.yml'].includes(path.extname(file).toLowerCase());
 }
 
-function updateEnvrc(accessToken: string, expiresIn: number): void {
+function formatExpiry(expiresIn: number): string {
   const expiryDate = new Date(Date.now() + expiresIn * 1000);
+  return `${expiryDate.toISOString().split('T')[0]} (${Math.round(expiresIn / 86400)} days)`;
+}
 
+/**
+ * Replace the given variables in .envrc, each preceded by a comment with its expiry
+ */
+function updateEnvrc(variables: Array<{ name: string; value: string; expiresIn?: number }>): void {
   let content = '';
   if (fs.existsSync(ENVRC_PATH)) {
     content = fs.readFileSync(ENVRC_PATH, 'utf-8');
   }
 
-  // Remove existing LINKEDIN_ACCESS_TOKEN lines (including commented ones about the token)
+  // Remove existing lines for these variables (including commented ones and their expiry notes)
+  const names = variables.map((variable) => variable.name);
   const lines = content.split('\n').filter((line) => {
     const trimmed = line.trim();
-    return (
-      !trimmed.startsWith('export LINKEDIN_ACCESS_TOKEN=') &&
-      !trimmed.startsWith('# export LINKEDIN_ACCESS_TOKEN=') &&
-      !trimmed.includes('Token expires:')
+    return !names.some(
+      (name) =>
+        trimmed.startsWith(`export ${name}=`) ||
+        trimmed.startsWith(`# export ${name}=`) ||
+        trimmed.startsWith(`# ${name} expires:`) ||
+        // Expiry note written by earlier versions of this script
+        (name === 'LINKEDIN_ACCESS_TOKEN' && trimmed.includes('Token expires:'))
     );
   });
 
-  // Add new token
+  // Add new tokens
   lines.push('');
-  lines.push(`# Token expires: ${expiryDate.toISOString().split('T')[0]} (${Math.round(expiresIn / 86400)} days)`);
-  lines.push(`export LINKEDIN_ACCESS_TOKEN="${accessToken}"`);
+  for (const { name, value, expiresIn } of variables) {
+    if (expiresIn !== undefined) {
+      lines.push(`# ${name} expires: ${formatExpiry(expiresIn)}`);
+    }
+    lines.push(`export ${name}="${value}"`);
+  }
 
   fs.writeFileSync(ENVRC_PATH, lines.join('\n').trim() + '\n');
 }
 
+/**
+ * Write the tokens where the server reads them from
+ */
+function saveTokens(options: Options, tokenResponse: TokenResponse): void {
+  const app = APPS[options.app];
+  const refreshToken = tokenResponse.refresh_token;
+  // The server warns about the expiry of tokens it cannot renew
+  const expiresAt = toStoredToken(tokenResponse).expiresAt as string;
+  let tokenStoreFile: string | undefined;
+
+  if (options.profile !== undefined && options.profilesFile !== undefined) {
+    console.log(`\n📝 Updating profile ${options.profile} in ${options.profilesFile}...`);
+    updateProfile(options.profilesFile, options.profile, {
+      [app.accessTokenField]: tokenResponse.access_token,
+      [app.expiresAtField]: expiresAt,
+      ...(refreshToken !== undefined ? { [app.refreshTokenField]: refreshToken } : {}),
+    });
+    console.log(`✅ Tokens saved to profile ${options.profile}`);
+
+    const profiles = readProfiles(options.profilesFile).profiles as Record<string, Record<string, unknown>>;
+    const storeFile = profiles[options.profile]?.tokenStoreFile;
+    tokenStoreFile = typeof storeFile === 'string' ? storeFile : undefined;
+  } else {
+    console.log('\n📝 Updating .envrc...');
+    updateEnvrc([
+      { name: app.accessTokenVar, value: tokenResponse.access_token, expiresIn: tokenResponse.expires_in },
+      { name: app.expiresAtVar, value: expiresAt },
+      ...(refreshToken !== undefined
+        ? [{ name: app.refreshTokenVar, value: refreshToken, expiresIn: tokenResponse.refresh_token_expires_in }]
+        : []),
+    ]);
+    console.log(`✅ ${app.accessTokenVar}${refreshToken !== undefined ? ` and ${app.refreshTokenVar}` : ''} saved to .envrc`);
+    tokenStoreFile = nonEmpty(process.env.LINKEDIN_TOKEN_STORE_FILE);
+  }
+
+  // The token store takes precedence over the configured token, so it must hold the new one
+  if (options.app === 'ads' && tokenStoreFile !== undefined) {
+    new TokenStore(tokenStoreFile).save(toStoredToken(tokenResponse));
+    console.log(`✅ Token store ${tokenStoreFile} updated with the new tokens and their expiry`);
+  }
+}
+
 async function openBrowser(url: string): Promise<void> {
   const platform = process.platform;
   let command: string;
@@ -128,19 +297,54 @@ async function openBrowser(url: string): Promise<void> {
   await execAsync(command);
 }
 
+function resultPage(title: string, message: string): string {
+  return `
+          <html>
+            <body style="font-family: system-ui; padding: 40px; text-align: center;">
+              <h1>${title}</h1>
+              <p>${message}</p>
+              <p>You can close this window.</p>
+            </body>
+          </html>
+        `;
+}
+
 async function main(): Promise<void> {
   console.log('🔐 LinkedIn OAuth Helper\n');
 
-  // Load credentials from environment
-  const clientId = getEnvVar('LINKEDIN_CLIENT_ID');
-  const clientSecret = getEnvVar('LINKEDIN_CLIENT_SECRET');
-
+  const options = parseOptions();
+  const app = APPS[options.app];
+  const redirectUri = `http://localhost:${options.port}/callback`;
+
+  // Load the app's credentials from the profile, falling back to the environment
+  const profileSettings =
+    options.profile !== undefined && options.profilesFile !== undefined
+      ? ((readProfiles(options.profilesFile).profiles as Record<string, Record<string, unknown>> | undefined)?.[
+          options.profile
+        ] ?? {})
+      : {};
+  const profileClientId = profileSettings[app.clientIdField];
+  const profileClientSecret = profileSettings[app.clientSecretField];
+  const clientId = typeof profileClientId === 'string' ? profileClientId : getEnvVar(app.clientIdVar);
+  const clientSecret = typeof profileClientSecret === 'string' ? profileClientSecret : getEnvVar(app.clientSecretVar);
+
+  const state = randomBytes(16).toString('hex');
+  const pkce = options.pkce ? createPkcePair() : undefined;
+
+  console.log(`🏢 App: ${app.label}`);
   console.log(`📋 Client ID: ${clientId}`);
-  console.log(`🔗 Redirect URI: ${REDIRECT_URI}`);
-  console.log(`📝 Scopes: ${SCOPES.join(', ')}\n`);
+  console.log(`🔗 Redirect URI: ${redirectUri}`);
+  console.log(`📝 Scopes: ${options.scopes.join(', ')}`);
+  if (options.profile !== undefined) {
+    console.log(`👤 Profile: ${options.profile}`);
+  }
+  if (pkce !== undefined) {
+    console.log('🔒 PKCE: S256');
+  }
+  console.log('');
 
   console.log('⚠️  Make sure you have added this redirect URI to your LinkedIn app:');
-  console.log(`   ${REDIRECT_URI}\n`);
+  console.log(`   ${redirectUri}\n`);
 
   // Create promise to capture the authorization code
   let resolveCode: (code: string) => void;
@@ -152,53 +356,37 @@ async function main(): Promise<void> {
 
   // Start local server
   const server = http.createServer((req, res) => {
-    const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+    const url = new URL(req.url ?? '/', `http://localhost:${options.port}`);
 
     if (url.pathname === '/callback') {
       const code = url.searchParams.get('code');
       const error = url.searchParams.get('error');
       const errorDescription = url.searchParams.get('error_description');
 
+      if (url.searchParams.get('state') !== state) {
+        // Ignore the request without aborting: it did not come from our authorization URL
+        res.writeHead(400, { 'Content-Type': 'text/html' });
+        res.end(resultPage('❌ State Mismatch', 'This callback does not match the authorization request in progress.'));
+        console.warn('⚠️  Ignored a callback with a missing or mismatched state parameter');
+        return;
+      }
+
       if (error !== null) {
         res.writeHead(400, { 'Content-Type': 'text/html' });
-        res.end(`
-          <html>
-            <body style="font-family: system-ui; padding: 40px; text-align: center;">
-              <h1>❌ Authorization Failed</h1>
-              <p>${error}: ${errorDescription ?? 'Unknown error'}</p>
-              <p>You can close this window.</p>
-            </body>
-          </html>
-        `);
+        res.end(resultPage('❌ Authorization Failed', `${error}: ${errorDescription ?? 'Unknown error'}`));
         rejectCode(new Error(`${error}: ${errorDescription ?? 'Unknown error'}`));
         return;
       }
 
       if (code === null) {
         res.writeHead(400, { 'Content-Type': 'text/html' });
-        res.end(`
-          <html>
-            <body style="font-family: system-ui; padding: 40px; text-align: center;">
-              <h1>❌ No Authorization Code</h1>
-              <p>The response did not include an authorization code.</p>
-              <p>You can close this window.</p>
-            </body>
-          </html>
-        `);
+        res.end(resultPage('❌ No Authorization Code', 'The response did not include an authorization code.'));
         rejectCode(new Error('No authorization code received'));
         return;
       }
 
       res.writeHead(200, { 'Content-Type': 'text/html' });
-      res.end(`
-        <html>
-          <body style="font-family: system-ui; padding: 40px; text-align: center;">
-            <h1>✅ Authorization Successful!</h1>
-            <p>Exchanging code for access token...</p>
-            <p>You can close this window.</p>
-          </body>
-        </html>
-      `);
+      res.end(resultPage('✅ Authorization Successful!', 'Exchanging code for access token...'));
       resolveCode(code);
     } else {
       res.writeHead(404);
@@ -206,12 +394,18 @@ async function main(): Promise<void> {
     }
   });
 
-  server.listen(PORT, () => {
-    console.log(`🌐 Callback server listening on port ${PORT}`);
+  server.listen(options.port, () => {
+    console.log(`🌐 Callback server listening on port ${options.port}`);
   });
 
   // Build and open auth URL
-  const authUrl = buildAuthUrl(clientId);
+  const authUrl = buildAuthorizationUrl({
+    clientId,
+    redirectUri,
+    scopes: options.scopes,
+    state,
+    codeChallenge: pkce?.codeChallenge,
+  });
   console.log('\n🚀 Opening browser for authorization...\n');
 
   try {
@@ -230,20 +424,27 @@ async function main(): Promise<void> {
 
     // Exchange code for token
     console.log('🔄 Exchanging code for access token...');
-    const tokenResponse = await exchangeCodeForToken(code, clientId, clientSecret);
+    const tokenResponse = await exchangeCodeForToken(
+      code,
+      redirectUri,
+      { clientId, clientSecret },
+      pkce?.codeVerifier
+    );
 
     console.log('✅ Access token received!');
-    console.log(`   Expires in: ${Math.round(tokenResponse.expires_in / 86400)} days`);
+    console.log(`   Expires: ${formatExpiry(tokenResponse.expires_in)}`);
+    if (tokenResponse.refresh_token !== undefined && tokenResponse.refresh_token_expires_in !== undefined) {
+      console.log(`   Refresh token expires: ${formatExpiry(tokenResponse.refresh_token_expires_in)}`);
+    }
     console.log(`   Scopes: ${tokenResponse.scope}`);
 
-    // Update .envrc
-    console.log('\n📝 Updating .envrc...');
-    updateEnvrc(tokenResponse.access_token, tokenResponse.expires_in);
-    console.log('✅ Token saved to .envrc');
+    saveTokens(options, tokenResponse);
 
     // Remind user to reload direnv
-    console.log('\n🔄 Run this command to load the new token:');
-    console.log('   direnv allow\n');
+    if (options.profile === undefined) {
+      console.log('\n🔄 Run this command to load the new token:');
+      console.log('   direnv allow\n');
+    }
 
     console.log('🎉 Done! You can now use the LinkedIn Campaign Manager MCP server.\n');
   } catch (error) {
@@ -1,20 +1,298 @@
-import { RestliClient } from 'linkedin-api-client';
+import type { Span } from '@opentelemetry/api';
+import { RestliClient, utils as restliUtils } from 'linkedin-api-client';
 import type { Config } from './config.js';
-import { transformError, RateLimitError } from './errors.js';
+import { transformError, AuthenticationError, LinkedInApiError, RateLimitError, ValidationError } from './errors.js';
+import { AccessTokenManager, type TokenIntrospection, type TokenStatus } from './oauth.js';
+import type { RateLimitPolicy, RetryPolicy } from './types.js';
+import { recordCassette, replayCassettes } from './utils/cassette.js';
+import { SILENT_LOGGER, type Logger } from './utils/logger.js';
+import { Telemetry, accountIdFromPath } from './utils/telemetry.js';
+import { RateLimiter, endpointKey, type QuotaUsage } from './utils/rate-limiter.js';
+import {
+  CircuitBreaker,
+  DEFAULT_RETRY_POLICY,
+  isTransientError,
+  retryDelay,
+  sleep,
+  withTimeout,
+} from './utils/retry.js';
+
+/**
+ * Policies a LinkedInClient applies to every request
+ */
+export interface LinkedInClientOptions {
+  /** Client-side rate limits (LINKEDIN_RATE_LIMITS_FILE) */
+  rateLimits?: RateLimitPolicy;
+  /** Retries, timeouts and circuit breaker (LINKEDIN_RETRY_POLICY_FILE) */
+  retryPolicy?: RetryPolicy;
+  /** Structured request log (LINKEDIN_LOG_LEVEL) */
+  logger?: Logger;
+  /** Spans and metrics of requests (LINKEDIN_OTEL_EXPORTER) */
+  telemetry?: Telemetry;
+}
+
+/**
+ * What a request log line describes
+ */
+interface RestliRequest {
+  /** Rest.li method (FINDER, GET, CREATE, ...) */
+  method: string;
+  /** Collection path, used for rate limits */
+  resourcePath: string;
+  /** Entity ID, for single-entity methods */
+  id?: string;
+  finder?: string;
+}
+
+/**
+ * Parts of a Rest.li response the request log reads
+ */
+interface RestliResponseMeta {
+  status?: number;
+  headers?: unknown;
+}
+
+/**
+ * Progress of a request across attempts, for its log line
+ */
+interface RequestTrace {
+  retries: number;
+  /** Last successful response */
+  response?: RestliResponseMeta;
+}
+
+/**
+ * LinkedIn's ID for a response, quoted by LinkedIn support
+ */
+function readRequestId(response: RestliResponseMeta | undefined): string | undefined {
+  const headers = response?.headers;
+  if (typeof headers !== 'object' || headers === null) {
+    return undefined;
+  }
+
+  const requestId: unknown = (headers as Record<string, unknown>)['x-li-uuid'];
+  return typeof requestId === 'string' ? requestId : undefined;
+}
+
+/**
+ * Rest.li paging block returned by offset-based collections
+ */
+export interface RestliPaging {
+  start: number;
+  count: number;
+  total?: number;
+}
+
+/**
+ * Rest.li collection envelope returned by finders.
+ * Cursor-based finders report the next page in `metadata.nextPageToken`,
+ * offset-based finders only report `paging`.
+ */
+export interface CollectionResponse<T> {
+  elements?: T[];
+  paging?: RestliPaging;
+  metadata?: {
+    nextPageToken?: string;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Options controlling paginated finder iteration
+ */
+export interface PaginationOptions {
+  /** Number of elements to request per page (LinkedIn's default when omitted) */
+  pageSize?: number;
+  /** Cursor from a previous page to resume from */
+  pageToken?: string;
+  /** Stop once this many elements have been yielded */
+  maxElements?: number;
+  /** Called after each page with the elements received so far and the collection total, when known */
+  onPage?: (received: number, total?: number) => void;
+}
+
+/**
+ * Result of collecting every page of a finder
+ */
+export interface CollectedPages<T> {
+  elements: T[];
+  /** Cursor to resume from when collection stopped early */
+  nextPageToken?: string;
+  /** True when maxElements was reached before the last page */
+  truncated: boolean;
+}
+
+/**
+ * Result of a Rest.li BATCH_GET, keyed by the encoded entity ID
+ */
+export interface BatchGetResult<T> {
+  /** Entities that were fetched successfully */
+  results: Record<string, T>;
+  /** Error payloads for entities that could not be fetched */
+  errors: Record<string, unknown>;
+  /** Per-entity HTTP status codes, when LinkedIn reports them */
+  statuses: Record<string, number>;
+}
+
+/**
+ * Result of a Rest.li BATCH_PARTIAL_UPDATE, keyed by the encoded entity ID
+ */
+export interface BatchUpdateResult {
+  results: Record<string, { status: number }>;
+  errors: Record<string, unknown>;
+}
+
+/** Prefix of the page tokens this server makes up for offset-based collections */
+const OFFSET_TOKEN_PREFIX = 'start:';
+
+/**
+ * Read the cursor for the next page from a collection response, if any.
+ * Offset-based collections get a token that encodes the start of the next page.
+ */
+export function getNextPageToken(response: CollectionResponse<unknown>): string | undefined {
+  const token = response.metadata?.nextPageToken;
+  if (typeof token === 'string' && token !== '') {
+    return token;
+  }
+
+  const nextStart = getNextOffset(response);
+  return nextStart !== undefined ? `${OFFSET_TOKEN_PREFIX}${nextStart}` : undefined;
+}
+
+/**
+ * Query parameters that request the page a token of getNextPageToken points to, with
+ * `pageSize` elements. Offset-based collections read the page size from `count`.
+ */
+export function pageTokenParams(pageToken: string | undefined, pageSize?: number): Record<string, unknown> {
+  if (pageToken?.startsWith(OFFSET_TOKEN_PREFIX) === true) {
+    const start = Number(pageToken.slice(OFFSET_TOKEN_PREFIX.length));
+    if (Number.isSafeInteger(start) && start >= 0) {
+      return { start, ...(pageSize !== undefined ? { count: pageSize } : {}) };
+    }
+  }
+
+  return {
+    ...(pageSize !== undefined ? { pageSize } : {}),
+    ...(pageToken !== undefined ? { pageToken } : {}),
+  };
+}
+
+/**
+ * Compute the start offset of the next page for offset-based collections.
+ * Returns undefined when the collection has no more pages.
+ */
+function getNextOffset(response: CollectionResponse<unknown>): number | undefined {
+  const paging = response.paging;
+  const received = response.elements?.length ?? 0;
+
+  if (paging === undefined || paging.total === undefined || received === 0) {
+    return undefined;
+  }
+
+  const nextStart = paging.start + received;
+  return nextStart < paging.total ? nextStart : undefined;
+}
 
 /**
  * Wrapper around the official LinkedIn API client.
- * Handles versioning, error transformation, and rate limit retry.
+ * Handles versioning, error transformation, access token refresh, client-side
+ * rate limiting, retries of rate limited and transient failures, and a circuit breaker.
  */
 export class LinkedInClient {
   private readonly restliClient: RestliClient;
-  private readonly accessToken: string;
+  private readonly tokens: AccessTokenManager;
+  private readonly limiter: RateLimiter;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly breaker: CircuitBreaker;
+  private readonly logger: Logger;
+  private readonly telemetry: Telemetry;
   private readonly apiVersion: string;
+  /** Aborts the requests of a view made by withSignal() */
+  private signal?: AbortSignal;
 
-  constructor(config: Config) {
+  constructor(config: Config, options: LinkedInClientOptions = {}) {
     this.restliClient = new RestliClient();
-    this.accessToken = config.accessToken;
+    this.tokens = new AccessTokenManager(config);
+    this.limiter = new RateLimiter(options.rateLimits);
+    this.retryPolicy = options.retryPolicy ?? DEFAULT_RETRY_POLICY;
+    this.breaker = new CircuitBreaker(this.retryPolicy.circuitBreaker);
+    this.logger = options.logger ?? SILENT_LOGGER;
+    this.telemetry = options.telemetry ?? new Telemetry();
     this.apiVersion = config.apiVersion;
+
+    const baseUrls: string[] = [restliUtils.VERSIONED_BASE_URL];
+
+    if (config.apiBaseUrl !== undefined) {
+      const baseUrl = config.apiBaseUrl.replace(/\/+$/, '');
+      this.useBaseUrl(baseUrl);
+      baseUrls.push(baseUrl);
+    }
+
+    if (config.recordDir !== undefined) {
+      recordCassette(this.restliClient.axiosInstance, config.recordDir, () => this.accessToken, baseUrls);
+    }
+
+    if (config.replayDir !== undefined) {
+      replayCassettes(this.restliClient.axiosInstance, config.replayDir, baseUrls);
+    }
+  }
+
+  /**
+   * A view of this client whose requests, rate limit waits and retry waits stop with a
+   * CancelledError once `signal` aborts. The view shares tokens, rate limits and the circuit breaker.
+   */
+  withSignal(signal: AbortSignal | undefined): LinkedInClient {
+    if (signal === undefined) {
+      return this;
+    }
+    const view = Object.create(this) as LinkedInClient;
+    view.signal = signal;
+    return view;
+  }
+
+  private get accessToken(): string {
+    return this.tokens.accessToken;
+  }
+
+  /**
+   * Expiry of the access token and whether it is refreshed automatically
+   */
+  getTokenStatus(): TokenStatus {
+    return this.tokens.status();
+  }
+
+  /**
+   * Scopes, expiry and status LinkedIn reports for the access token.
+   * Undefined when the client has no client credentials to introspect with.
+   */
+  introspectToken(): Promise<TokenIntrospection | undefined> {
+    return this.tokens.introspect();
+  }
+
+  /**
+   * Calls this client made per endpoint today, with the daily limits that apply
+   */
+  getQuotaUsage(): QuotaUsage {
+    return this.limiter.usage();
+  }
+
+  /**
+   * LinkedIn API version sent with every request
+   */
+  getApiVersion(): string {
+    return this.apiVersion;
+  }
+
+  /**
+   * Send every request to an alternate base URL instead of https://api.linkedin.com/rest
+   */
+  private useBaseUrl(baseUrl: string): void {
+    this.restliClient.axiosInstance.interceptors.request.use((request) => {
+      if (request.url?.startsWith(restliUtils.VERSIONED_BASE_URL) === true) {
+        request.url = baseUrl + request.url.slice(restliUtils.VERSIONED_BASE_URL.length);
+      }
+      return request;
+    });
   }
 
   /**
@@ -25,73 +303,194 @@ export class LinkedInClient {
     finderName: string,
     queryParams?: Record<string, unknown>
   ): Promise<T> {
-    return this.executeWithRetry(async () => {
-      const response = await this.restliClient.finder({
-        resourcePath,
-        finderName,
-        queryParams: queryParams ?? {},
-        accessToken: this.accessToken,
-        versionString: this.apiVersion,
-      });
-      return response.data as T;
-    });
+    return this.executeWithRetry(
+      { method: 'FINDER', resourcePath, finder: finderName },
+      (signal) =>
+        this.restliClient.finder({
+          resourcePath,
+          finderName,
+          queryParams: queryParams ?? {},
+          accessToken: this.accessToken,
+          versionString: this.apiVersion,
+          additionalConfig: { signal },
+        }),
+      (response) => response.data as T
+    );
+  }
+
+  /**
+   * Iterate over every page of a finder, following `metadata.nextPageToken`
+   * cursors or, for offset-based collections, the `paging` block.
+   */
+  async *paginate<T>(
+    resourcePath: string,
+    finderName: string,
+    queryParams?: Record<string, unknown>,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<CollectionResponse<T>, void, undefined> {
+    const { pageSize, maxElements } = options;
+    let pageToken = options.pageToken;
+    let yielded = 0;
+
+    while (maxElements === undefined || yielded < maxElements) {
+      // Shrink the final page so the cursor stays valid for resuming
+      const size = pageSize !== undefined && maxElements !== undefined
+        ? Math.min(pageSize, maxElements - yielded)
+        : pageSize;
+      const params: Record<string, unknown> = { ...queryParams, ...pageTokenParams(pageToken, size) };
+
+      const page = await this.finder<CollectionResponse<T>>(resourcePath, finderName, params);
+      yielded += page.elements?.length ?? 0;
+      options.onPage?.(yielded, page.paging?.total);
+      yield page;
+
+      const nextToken = getNextPageToken(page);
+      // Guard against a server echoing back the same cursor forever
+      if (nextToken === undefined || nextToken === pageToken) {
+        return;
+      }
+      pageToken = nextToken;
+    }
+  }
+
+  /**
+   * Collect every page of a finder into a single list, stopping at maxElements
+   */
+  async finderAll<T>(
+    resourcePath: string,
+    finderName: string,
+    queryParams?: Record<string, unknown>,
+    options: PaginationOptions = {}
+  ): Promise<CollectedPages<T>> {
+    const elements: T[] = [];
+    let lastPage: CollectionResponse<T> | undefined;
+
+    for await (const page of this.paginate<T>(resourcePath, finderName, queryParams, options)) {
+      elements.push(...(page.elements ?? []));
+      lastPage = page;
+    }
+
+    const maxElements = options.maxElements;
+    const nextPageToken = lastPage !== undefined ? getNextPageToken(lastPage) : undefined;
+    const hasMore = nextPageToken !== undefined;
+    const truncated =
+      maxElements !== undefined &&
+      (elements.length > maxElements || (elements.length === maxElements && hasMore));
+
+    return {
+      elements: maxElements !== undefined ? elements.slice(0, maxElements) : elements,
+      nextPageToken: truncated ? nextPageToken : undefined,
+      truncated,
+    };
   }
 
   /**
    * Get a single entity by ID
    */
   async get<T>(resourcePath: string, id: string): Promise<T> {
-    return this.executeWithRetry(async () => {
-      const response = await this.restliClient.get({
-        resourcePath: `${resourcePath}/${id}`,
-        accessToken: this.accessToken,
-        versionString: this.apiVersion,
-      });
-      return response.data as T;
-    });
+    return this.executeWithRetry(
+      { method: 'GET', resourcePath, id },
+      (signal) =>
+        this.restliClient.get({
+          resourcePath: `${resourcePath}/${id}`,
+          accessToken: this.accessToken,
+          versionString: this.apiVersion,
+          additionalConfig: { signal },
+        }),
+      (response) => response.data as T
+    );
+  }
+
+  /**
+   * Get many entities by ID in one request (Rest.li BATCH_GET).
+   * Entities that fail individually are reported in `errors` instead of failing the call.
+   */
+  async batchGet<T>(resourcePath: string, ids: string[]): Promise<BatchGetResult<T>> {
+    return this.executeWithRetry(
+      { method: 'BATCH_GET', resourcePath },
+      (signal) =>
+        this.restliClient.batchGet({
+          resourcePath,
+          ids,
+          accessToken: this.accessToken,
+          versionString: this.apiVersion,
+          additionalConfig: { signal },
+        }),
+      (response) => ({
+        results: (response.data.results ?? {}) as Record<string, T>,
+        errors: response.data.errors ?? {},
+        statuses: response.data.statuses ?? {},
+      })
+    );
   }
 
   /**
    * Get all entities (when pagination is not needed)
    */
   async getAll<T>(resourcePath: string): Promise<T> {
-    return this.executeWithRetry(async () => {
-      const response = await this.restliClient.getAll({
-        resourcePath,
-        accessToken: this.accessToken,
-        versionString: this.apiVersion,
-      });
-      return response.data as T;
-    });
+    return this.executeWithRetry(
+      { method: 'GET_ALL', resourcePath },
+      (signal) =>
+        this.restliClient.getAll({
+          resourcePath,
+          accessToken: this.accessToken,
+          versionString: this.apiVersion,
+          additionalConfig: { signal },
+        }),
+      (response) => response.data as T
+    );
   }
 
   /**
-   * Create a new entity
+   * Create a new entity.
+   * LinkedIn answers 201 with an empty body and the new ID in the X-RestLi-Id header,
+   * so the ID is merged into whatever body came back. Other failures than a 429 are not
+   * retried, because LinkedIn may already have created the entity.
    */
-  async create<T>(resourcePath: string, entity: Record<string, unknown>): Promise<T> {
-    return this.executeWithRetry(async () => {
-      const response = await this.restliClient.create({
-        resourcePath,
-        entity,
-        accessToken: this.accessToken,
-        versionString: this.apiVersion,
-      });
-      return response.data as T;
-    });
+  async create<T>(
+    resourcePath: string,
+    entity: Record<string, unknown>
+  ): Promise<T> {
+    return this.executeWithRetry(
+      { method: 'CREATE', resourcePath },
+      (signal) =>
+        this.restliClient.create({
+          resourcePath,
+          entity,
+          accessToken: this.accessToken,
+          versionString: this.apiVersion,
+          additionalConfig: { signal },
+        }),
+      (response) => {
+        const data: unknown = response.data;
+        const body = typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : {};
+        const createdId: unknown = response.createdEntityId;
+
+        if (body.id === undefined && createdId !== undefined && createdId !== null && createdId !== '') {
+          return { ...body, id: createdId } as T;
+        }
+        return body as T;
+      },
+      false
+    );
   }
 
   /**
    * Update an existing entity (full replacement)
    */
   async update(resourcePath: string, id: string, entity: Record<string, unknown>): Promise<void> {
-    return this.executeWithRetry(async () => {
-      await this.restliClient.update({
-        resourcePath: `${resourcePath}/${id}`,
-        entity,
-        accessToken: this.accessToken,
-        versionString: this.apiVersion,
-      });
-    });
+    return this.executeWithRetry(
+      { method: 'UPDATE', resourcePath, id },
+      (signal) =>
+        this.restliClient.update({
+          resourcePath: `${resourcePath}/${id}`,
+          entity,
+          accessToken: this.accessToken,
+          versionString: this.apiVersion,
+          additionalConfig: { signal },
+        }),
+      () => undefined
+    );
   }
 
   /**
@@ -102,69 +501,223 @@ export class LinkedInClient {
     id: string,
     patchSet: Record<string, unknown>
   ): Promise<void> {
-    return this.executeWithRetry(async () => {
-      await this.restliClient.partialUpdate({
-        resourcePath: `${resourcePath}/${id}`,
-        patchSetObject: patchSet,
-        accessToken: this.accessToken,
-        versionString: this.apiVersion,
-      });
-    });
+    return this.executeWithRetry(
+      { method: 'PARTIAL_UPDATE', resourcePath, id },
+      (signal) =>
+        this.restliClient.partialUpdate({
+          resourcePath: `${resourcePath}/${id}`,
+          patchSetObject: patchSet,
+          accessToken: this.accessToken,
+          versionString: this.apiVersion,
+          additionalConfig: { signal },
+        }),
+      () => undefined
+    );
+  }
+
+  /**
+   * Partially update many entities in one request (Rest.li BATCH_PARTIAL_UPDATE).
+   * `patchSets[i]` is applied to `ids[i]`.
+   */
+  async batchPartialUpdate(
+    resourcePath: string,
+    ids: string[],
+    patchSets: Record<string, unknown>[]
+  ): Promise<BatchUpdateResult> {
+    if (ids.length !== patchSets.length) {
+      throw new ValidationError(
+        `batchPartialUpdate on ${resourcePath} needs one patch set per ID (got ${ids.length} IDs and ${patchSets.length} patch sets)`,
+        'patchSets'
+      );
+    }
+
+    return this.executeWithRetry(
+      { method: 'BATCH_PARTIAL_UPDATE', resourcePath },
+      (signal) =>
+        this.restliClient.batchPartialUpdate({
+          resourcePath,
+          ids,
+          patchSetObjects: patchSets,
+          accessToken: this.accessToken,
+          versionString: this.apiVersion,
+          additionalConfig: { signal },
+        }),
+      (response) => ({
+        results: response.data?.results ?? {},
+        errors: response.data?.errors ?? {},
+      })
+    );
   }
 
   /**
    * Delete an entity
    */
   async delete(resourcePath: string, id: string): Promise<void> {
-    return this.executeWithRetry(async () => {
-      await this.restliClient.delete({
-        resourcePath: `${resourcePath}/${id}`,
-        accessToken: this.accessToken,
-        versionString: this.apiVersion,
-      });
+    return this.executeWithRetry(
+      { method: 'DELETE', resourcePath, id },
+      (signal) =>
+        this.restliClient.delete({
+          resourcePath: `${resourcePath}/${id}`,
+          accessToken: this.accessToken,
+          versionString: this.apiVersion,
+          additionalConfig: { signal },
+        }),
+      () => undefined
+    );
+  }
+
+  /**
+   * Execute with retries. When LinkedIn rejects the access token and a refresh
+   * token is configured, the token is refreshed and the operation repeated once.
+   * One line per request is logged at debug level, or at warn level when it fails.
+   * Requests that are not idempotent (creates) are only retried after a 429.
+   */
+  private async executeWithRetry<R extends RestliResponseMeta, T>(
+    request: RestliRequest,
+    call: (signal: AbortSignal) => Promise<R>,
+    select: (response: R) => T,
+    idempotent = true
+  ): Promise<T> {
+    const endpoint = endpointKey(request.resourcePath);
+    const token = this.accessToken;
+    const trace: RequestTrace = { retries: 0 };
+    const operation = async (signal: AbortSignal): Promise<T> => {
+      const response = await call(signal);
+      trace.response = response;
+      return select(response);
+    };
+    const attributes = {
+      'linkedin.method': request.method,
+      'linkedin.endpoint': endpoint,
+      'linkedin.finder': request.finder,
+      'linkedin.account_id': accountIdFromPath(request.resourcePath),
+    };
+
+    return this.telemetry.requestSpan(`LinkedIn ${request.method} ${endpoint}`, attributes, async (span) => {
+      const started = Date.now();
+
+      try {
+        let result: T;
+        try {
+          result = await this.executeWithBackoff(endpoint, operation, idempotent, trace);
+        } catch (error) {
+          if (!(error instanceof AuthenticationError) || !this.tokens.canRefresh) {
+            throw error;
+          }
+
+          await this.tokens.refresh(token);
+          trace.retries++;
+          result = await this.executeWithBackoff(endpoint, operation, idempotent, trace);
+        }
+
+        this.recordRequest(span, request, trace, Date.now() - started);
+        return result;
+      } catch (error) {
+        this.recordRequest(span, request, trace, Date.now() - started, error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Log the outcome of a request with LinkedIn's request ID (x-li-uuid) and record it on its span
+   */
+  private recordRequest(
+    span: Span,
+    request: RestliRequest,
+    trace: RequestTrace,
+    durationMs: number,
+    error?: unknown
+  ): void {
+    const failure = error instanceof LinkedInApiError ? error : undefined;
+    const errorCode = error === undefined
+      ? undefined
+      : failure?.errorCode ?? (error instanceof Error ? error.name : 'Error');
+    const fields = {
+      method: request.method,
+      path: request.id !== undefined ? `${request.resourcePath}/${request.id}` : request.resourcePath,
+      finder: request.finder,
+      status: failure?.statusCode ?? (error === undefined ? trace.response?.status : undefined),
+      durationMs,
+      retries: trace.retries,
+      requestId: failure?.requestId ?? (error === undefined ? readRequestId(trace.response) : undefined),
+    };
+
+    this.telemetry.recordRequest(span, {
+      ...fields,
+      endpoint: endpointKey(request.resourcePath),
+      errorType: errorCode,
     });
+
+    if (error === undefined) {
+      this.logger.debug('LinkedIn request', fields);
+    } else {
+      this.logger.warn('LinkedIn request failed', {
+        ...fields,
+        errorCode,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
   }
 
   /**
-   * Execute with exponential backoff retry for rate limits
+   * Execute with full-jitter exponential backoff for rate limits and transient failures.
+   * Every attempt waits for the endpoint's client-side rate limits, passes the circuit
+   * breaker and is aborted after the request timeout. Waits that would exceed
+   * maxTotalWaitMs, Retry-After included, fail the call instead. Cancelled calls are not retried.
    */
-  private async executeWithRetry<T>(
-    operation: () => Promise<T>,
-    maxRetries: number = 3
+  private async executeWithBackoff<T>(
+    endpoint: string,
+    operation: (signal: AbortSignal) => Promise<T>,
+    idempotent: boolean,
+    trace: RequestTrace
   ): Promise<T> {
-    let lastError: Error | null = null;
+    const policy = this.retryPolicy;
+    const isFailure = (error: unknown): boolean => isTransientError(transformError(error), policy);
+    let waited = 0;
 
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    for (let attempt = 0; ; attempt++) {
       try {
-        return await operation();
+        return await this.limiter.schedule(
+          endpoint,
+          () => this.breaker.run(() => withTimeout(operation, policy.requestTimeoutMs, this.signal), isFailure),
+          this.signal
+        );
       } catch (error) {
-        lastError = transformError(error);
+        const lastError = transformError(error);
 
-        // Only retry on rate limit errors
-        if (lastError instanceof RateLimitError && attempt < maxRetries) {
-          const waitTime = lastError.retryAfter !== undefined
-            ? lastError.retryAfter * 1000
-            : Math.pow(2, attempt) * 1000; // Exponential backoff
+        if (lastError instanceof RateLimitError) {
+          this.limiter.recordRateLimited(endpoint);
+        }
+
+        // A 429 was refused before processing; other transient failures may have been processed
+        const retryable =
+          lastError instanceof RateLimitError ||
+          (isTransientError(lastError, policy) && idempotent);
 
-          await this.sleep(waitTime);
-          continue;
+        if (!retryable || attempt >= policy.maxRetries) {
+          throw lastError;
         }
 
-        throw lastError;
-      }
-    }
+        const waitTime = lastError instanceof RateLimitError && lastError.retryAfter !== undefined
+          ? lastError.retryAfter * 1000
+          : retryDelay(policy, attempt);
 
-    throw lastError ?? new Error('Unknown error during retry');
-  }
+        if (waited + waitTime > policy.maxTotalWaitMs) {
+          throw lastError;
+        }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+        await sleep(waitTime, this.signal);
+        waited += waitTime;
+        trace.retries++;
+      }
+    }
   }
 }
 
 /**
  * Factory function to create a LinkedInClient instance
  */
-export function createLinkedInClient(config: Config): LinkedInClient {
-  return new LinkedInClient(config);
+export function createLinkedInClient(config: Config, options?: LinkedInClientOptions): LinkedInClient {
+  return new LinkedInClient(config, options);
 }
@@ -1,4 +1,55 @@
 import { z } from 'zod';
+import { loadConfigFile } from './utils/config-file.js';
+import { LOG_LEVELS } from './utils/logger.js';
+import { TELEMETRY_EXPORTERS } from './utils/telemetry.js';
+
+/** Name of the profile formed by LINKEDIN_ACCESS_TOKEN and the related token variables */
+export const DEFAULT_PROFILE = 'default';
+
+/**
+ * Credentials for one brand's LinkedIn apps, as listed in LINKEDIN_PROFILES_FILE
+ */
+const profileSchema = z.object({
+  /** Ads app access token */
+  accessToken: z.string().min(1),
+  /** Community Management app access token */
+  communityToken: z.string().min(1).optional(),
+  /** Ads app client ID, for refreshing accessToken */
+  clientId: z.string().min(1).optional(),
+  /** Ads app client secret, for refreshing accessToken */
+  clientSecret: z.string().min(1).optional(),
+  refreshToken: z.string().min(1).optional(),
+  tokenStoreFile: z.string().min(1).optional(),
+  /** ISO timestamp accessToken expires at, as written by `npm run auth` */
+  accessTokenExpiresAt: z.string().datetime({ offset: true }).optional(),
+  /** ISO timestamp communityToken expires at, as written by `npm run auth` */
+  communityTokenExpiresAt: z.string().datetime({ offset: true }).optional(),
+  /** Community Management app client ID, for introspecting and refreshing communityToken */
+  communityClientId: z.string().min(1).optional(),
+  /** Community Management app client secret, for introspecting and refreshing communityToken */
+  communityClientSecret: z.string().min(1).optional(),
+  communityRefreshToken: z.string().min(1).optional(),
+}).strict().refine(
+  (profile) => profile.refreshToken === undefined || (profile.clientId !== undefined && profile.clientSecret !== undefined),
+  { message: 'refreshToken requires clientId and clientSecret', path: ['refreshToken'] }
+).refine(
+  (profile) =>
+    profile.communityRefreshToken === undefined ||
+    (profile.communityClientId !== undefined && profile.communityClientSecret !== undefined),
+  { message: 'communityRefreshToken requires communityClientId and communityClientSecret', path: ['communityRefreshToken'] }
+);
+
+export type Profile = z.infer<typeof profileSchema>;
+
+/** Contents of LINKEDIN_PROFILES_FILE */
+const profilesFileSchema = z.object({
+  /** Profile used when a tool is called without one (LINKEDIN_PROFILE overrides it) */
+  defaultProfile: z.string().min(1).optional(),
+  profiles: z.record(
+    z.string().regex(/^[A-Za-z0-9_-]+$/, 'Profile names may only contain letters, digits, - and _'),
+    profileSchema
+  ),
+}).strict();
 
 /**
  * Configuration schema for the LinkedIn Campaign Manager MCP server.
@@ -6,27 +57,162 @@ import { z } from 'zod';
  */
 const configSchema = z.object({
   /** LinkedIn OAuth access token with rw_ads and w_organization_social scopes (Ads MCP Server app) */
-  accessToken: z.string().min(1, 'LINKEDIN_ACCESS_TOKEN is required'),
+  accessToken: z.string().min(1, 'LINKEDIN_ACCESS_TOKEN is required').optional(),
   /** LinkedIn OAuth access token with rw_organization_admin scope (Analytics app - Community Management API) */
   communityToken: z.string().optional(),
+  /** Client ID of the Ads app, used to refresh the access token */
+  clientId: z.string().min(1).optional(),
+  /** Client secret of the Ads app, used to refresh the access token */
+  clientSecret: z.string().min(1).optional(),
+  /** Refresh token for renewing LINKEDIN_ACCESS_TOKEN when LinkedIn rejects it */
+  refreshToken: z.string().min(1).optional(),
+  /** JSON file renewed tokens are written to; its token takes precedence over LINKEDIN_ACCESS_TOKEN */
+  tokenStoreFile: z.string().min(1).optional(),
+  /** When LINKEDIN_ACCESS_TOKEN expires (ISO timestamp), for the expiry warning */
+  accessTokenExpiresAt: z.string().datetime({ offset: true, message: 'LINKEDIN_ACCESS_TOKEN_EXPIRES_AT must be an ISO timestamp' }).optional(),
+  /** When LINKEDIN_COMMUNITY_TOKEN expires (ISO timestamp) */
+  communityTokenExpiresAt: z.string().datetime({ offset: true, message: 'LINKEDIN_COMMUNITY_TOKEN_EXPIRES_AT must be an ISO timestamp' }).optional(),
+  /** Client ID of the Community Management app, used to introspect the community token */
+  communityClientId: z.string().min(1).optional(),
+  /** Client secret of the Community Management app, used to introspect the community token */
+  communityClientSecret: z.string().min(1).optional(),
+  /** Refresh token for renewing LINKEDIN_COMMUNITY_TOKEN when LinkedIn rejects it */
+  communityRefreshToken: z.string().min(1).optional(),
+  /** JSON or YAML file with named credentials profiles, in addition to the token variables */
+  profilesFile: z.string().min(1).optional(),
+  /** Profile used when a tool is called without one */
+  defaultProfile: z.string().min(1).optional(),
+  /** Alternate OAuth token endpoint replacing https://www.linkedin.com/oauth/v2/accessToken */
+  oauthTokenUrl: z.string().url('LINKEDIN_OAUTH_TOKEN_URL must be a valid URL').optional(),
   /** LinkedIn API version in YYYYMM format (default: 202601) */
   apiVersion: z.string().regex(/^\d{6}$/, 'API version must be in YYYYMM format').default('202601'),
+  /** Alternate Rest.li base URL replacing https://api.linkedin.com/rest (e.g. a local fake server) */
+  apiBaseUrl: z.string().url('LINKEDIN_API_BASE_URL must be a valid URL').optional(),
+  /** Directory to write request/response cassettes to (record mode) */
+  recordDir: z.string().min(1).optional(),
+  /** Directory to serve recorded cassettes from instead of calling LinkedIn (replay mode) */
+  replayDir: z.string().min(1).optional(),
+  /** Disable every tool that creates, updates or deletes LinkedIn entities */
+  readOnly: z.boolean().default(false),
+  /** Tool name patterns (`*` wildcard) to enable; every tool is enabled when empty */
+  toolsAllow: z.array(z.string().min(1)).default([]),
+  /** Tool name patterns (`*` wildcard) to disable; wins over toolsAllow */
+  toolsDeny: z.array(z.string().min(1)).default([]),
+  /** Default every mutating tool to dry-run mode */
+  dryRun: z.boolean().default(false),
+  /** JSON or YAML file with budget guardrails for campaign and campaign group changes */
+  spendPolicyFile: z.string().min(1).optional(),
+  /** JSONL file every mutation is recorded to, with before/after snapshots */
+  auditLogFile: z.string().min(1).optional(),
+  /** JSON or YAML file with client-side rate limits per LinkedIn endpoint */
+  rateLimitsFile: z.string().min(1).optional(),
+  /** JSON or YAML file with the retry policy, request timeout and circuit breaker settings */
+  retryPolicyFile: z.string().min(1).optional(),
   /** Enable debug logging */
   debug: z.boolean().default(false),
-});
+  /** Lowest level of structured log entries written to stderr */
+  logLevel: z.enum(LOG_LEVELS).default('warn'),
+  /** OpenTelemetry exporter for spans and metrics; disabled when unset */
+  otelExporter: z.enum(TELEMETRY_EXPORTERS).optional(),
+  /** JSONL file the file exporter writes spans and metrics to */
+  otelFile: z.string().min(1).optional(),
+  /** MCP transport: stdio for a single local client, httpStream or sse to serve a team */
+  transport: z.enum(['stdio', 'httpStream', 'sse']).default('stdio'),
+  /** Interface the HTTP transport listens on */
+  httpHost: z.string().min(1).default('127.0.0.1'),
+  httpPort: z.number({ invalid_type_error: 'LINKEDIN_MCP_PORT must be a number' })
+    .int()
+    .min(0)
+    .max(65535)
+    .default(8080),
+  /** Path of the MCP endpoint of the HTTP transport */
+  httpEndpoint: z.string().regex(/^\/[^?#]*$/, 'LINKEDIN_MCP_ENDPOINT must be a path starting with /').default('/mcp'),
+  /** API key accepted by the HTTP transport, for any profile */
+  apiKey: z.string().min(16, 'LINKEDIN_MCP_API_KEY must be at least 16 characters long').optional(),
+  /** JSON or YAML file with the API keys accepted by the HTTP transport */
+  apiKeysFile: z.string().min(1).optional(),
+}).refine((config) => config.accessToken !== undefined || config.profilesFile !== undefined, {
+  message: 'LINKEDIN_ACCESS_TOKEN is required',
+  path: ['accessToken'],
+}).refine((config) => config.recordDir === undefined || config.replayDir === undefined, {
+  message: 'LINKEDIN_RECORD_DIR and LINKEDIN_REPLAY_DIR cannot both be set',
+  path: ['replayDir'],
+}).refine((config) => config.otelExporter !== 'file' || config.otelFile !== undefined, {
+  message: 'LINKEDIN_OTEL_EXPORTER=file requires LINKEDIN_OTEL_FILE',
+  path: ['otelFile'],
+}).refine(
+  (config) => config.transport === 'stdio' || config.apiKey !== undefined || config.apiKeysFile !== undefined,
+  {
+    message: 'The HTTP transport requires LINKEDIN_MCP_API_KEY or LINKEDIN_MCP_API_KEYS_FILE',
+    path: ['apiKey'],
+  }
+).refine(
+  (config) => config.refreshToken === undefined || (config.clientId !== undefined && config.clientSecret !== undefined),
+  {
+    message: 'LINKEDIN_REFRESH_TOKEN requires LINKEDIN_CLIENT_ID and LINKEDIN_CLIENT_SECRET',
+    path: ['refreshToken'],
+  }
+).refine(
+  (config) =>
+    config.communityRefreshToken === undefined ||
+    (config.communityClientId !== undefined && config.communityClientSecret !== undefined),
+  {
+    message: 'LINKEDIN_COMMUNITY_REFRESH_TOKEN requires LINKEDIN_COMMUNITY_CLIENT_ID and LINKEDIN_COMMUNITY_CLIENT_SECRET',
+    path: ['communityRefreshToken'],
+  }
+);
 
-export type Config = z.infer<typeof configSchema>;
+/**
+ * Server configuration. The top-level token settings are those of the default profile.
+ */
+export type Config = z.infer<typeof configSchema> & Profile & {
+  /** Credentials profiles by name, including the default one */
+  profiles: Record<string, Profile>;
+  defaultProfile: string;
+};
 
 /**
- * Load and validate configuration from environment variables.
+ * Load and validate configuration from environment variables and LINKEDIN_PROFILES_FILE.
  * @throws {Error} If required environment variables are missing or invalid
  */
 export function loadConfig(): Config {
   const rawConfig = {
     accessToken: process.env.LINKEDIN_ACCESS_TOKEN,
     communityToken: process.env.LINKEDIN_COMMUNITY_TOKEN,
+    clientId: process.env.LINKEDIN_CLIENT_ID,
+    clientSecret: process.env.LINKEDIN_CLIENT_SECRET,
+    refreshToken: process.env.LINKEDIN_REFRESH_TOKEN,
+    tokenStoreFile: process.env.LINKEDIN_TOKEN_STORE_FILE,
+    accessTokenExpiresAt: process.env.LINKEDIN_ACCESS_TOKEN_EXPIRES_AT,
+    communityTokenExpiresAt: process.env.LINKEDIN_COMMUNITY_TOKEN_EXPIRES_AT,
+    communityClientId: process.env.LINKEDIN_COMMUNITY_CLIENT_ID,
+    communityClientSecret: process.env.LINKEDIN_COMMUNITY_CLIENT_SECRET,
+    communityRefreshToken: process.env.LINKEDIN_COMMUNITY_REFRESH_TOKEN,
+    profilesFile: process.env.LINKEDIN_PROFILES_FILE,
+    defaultProfile: process.env.LINKEDIN_PROFILE,
+    oauthTokenUrl: process.env.LINKEDIN_OAUTH_TOKEN_URL,
     apiVersion: process.env.LINKEDIN_API_VERSION ?? '202601',
+    apiBaseUrl: process.env.LINKEDIN_API_BASE_URL,
+    recordDir: process.env.LINKEDIN_RECORD_DIR,
+    replayDir: process.env.LINKEDIN_REPLAY_DIR,
+    readOnly: process.env.LINKEDIN_READ_ONLY === 'true',
+    toolsAllow: parseList(process.env.LINKEDIN_TOOLS_ALLOW),
+    toolsDeny: parseList(process.env.LINKEDIN_TOOLS_DENY),
+    dryRun: process.env.LINKEDIN_DRY_RUN === 'true',
+    spendPolicyFile: process.env.LINKEDIN_SPEND_POLICY_FILE,
+    auditLogFile: process.env.LINKEDIN_AUDIT_LOG_FILE,
+    rateLimitsFile: process.env.LINKEDIN_RATE_LIMITS_FILE,
+    retryPolicyFile: process.env.LINKEDIN_RETRY_POLICY_FILE,
     debug: process.env.DEBUG === 'true',
+    logLevel: process.env.LINKEDIN_LOG_LEVEL ?? (process.env.DEBUG === 'true' ? 'debug' : undefined),
+    otelExporter: process.env.LINKEDIN_OTEL_EXPORTER,
+    otelFile: process.env.LINKEDIN_OTEL_FILE,
+    transport: process.env.LINKEDIN_MCP_TRANSPORT,
+    httpHost: process.env.LINKEDIN_MCP_HOST,
+    httpPort: process.env.LINKEDIN_MCP_PORT !== undefined ? Number(process.env.LINKEDIN_MCP_PORT) : undefined,
+    httpEndpoint: process.env.LINKEDIN_MCP_ENDPOINT,
+    apiKey: process.env.LINKEDIN_MCP_API_KEY,
+    apiKeysFile: process.env.LINKEDIN_MCP_API_KEYS_FILE,
   };
 
   const result = configSchema.safeParse(rawConfig);
@@ -36,7 +222,79 @@ export function loadConfig(): Config {
     throw new Error(`Configuration error:\n${errors.join('\n')}`);
   }
 
-  return result.data;
+  const settings = result.data;
+  const profiles: Record<string, Profile> = {};
+
+  if (settings.accessToken !== undefined) {
+    profiles[DEFAULT_PROFILE] = {
+      accessToken: settings.accessToken,
+      communityToken: settings.communityToken,
+      clientId: settings.clientId,
+      clientSecret: settings.clientSecret,
+      refreshToken: settings.refreshToken,
+      tokenStoreFile: settings.tokenStoreFile,
+      accessTokenExpiresAt: settings.accessTokenExpiresAt,
+      communityTokenExpiresAt: settings.communityTokenExpiresAt,
+      communityClientId: settings.communityClientId,
+      communityClientSecret: settings.communityClientSecret,
+      communityRefreshToken: settings.communityRefreshToken,
+    };
+  }
+
+  const file = settings.profilesFile !== undefined
+    ? loadConfigFile(settings.profilesFile, 'LINKEDIN_PROFILES_FILE', 'profiles', profilesFileSchema)
+    : undefined;
+
+  for (const [name, profile] of Object.entries(file?.profiles ?? {})) {
+    if (name in profiles) {
+      throw new Error(
+        `Configuration error:\n  - profiles: Profile ${name} is defined by both LINKEDIN_ACCESS_TOKEN and ${settings.profilesFile}`
+      );
+    }
+    profiles[name] = profile;
+  }
+
+  const names = Object.keys(profiles);
+  const defaultProfile = settings.defaultProfile ?? file?.defaultProfile ?? (names.length === 1 ? names[0] : DEFAULT_PROFILE);
+  const selected = profiles[defaultProfile] as Profile | undefined;
+
+  if (selected === undefined) {
+    throw new Error(
+      `Configuration error:\n  - defaultProfile: Profile ${defaultProfile} is not configured (available: ${names.length > 0 ? names.join(', ') : 'none'})`
+    );
+  }
+
+  return applyProfile({ ...settings, ...selected, profiles, defaultProfile }, selected);
+}
+
+/**
+ * Configuration for the clients of one profile: every token setting is replaced by the profile's own
+ */
+export function applyProfile(config: Config, profile: Profile): Config {
+  return {
+    ...config,
+    accessToken: profile.accessToken,
+    communityToken: profile.communityToken,
+    clientId: profile.clientId,
+    clientSecret: profile.clientSecret,
+    refreshToken: profile.refreshToken,
+    tokenStoreFile: profile.tokenStoreFile,
+    accessTokenExpiresAt: profile.accessTokenExpiresAt,
+    communityTokenExpiresAt: profile.communityTokenExpiresAt,
+    communityClientId: profile.communityClientId,
+    communityClientSecret: profile.communityClientSecret,
+    communityRefreshToken: profile.communityRefreshToken,
+  };
+}
+
+/**
+ * Split a comma-separated environment variable into trimmed, non-empty entries
+ */
+function parseList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
 }
 
 /**
@@ -7,6 +7,9 @@
  * Base error class for LinkedIn API errors
  */
 export class LinkedInApiError extends Error {
+  /** LinkedIn's ID for the failed request (x-li-uuid header), to quote to LinkedIn support */
+  requestId?: string;
+
   constructor(
     message: string,
     public readonly statusCode: number,
@@ -25,7 +28,7 @@ export class LinkedInApiError extends Error {
       case 401:
         return 'Authentication failed. Your access token may be expired or invalid. Please generate a new token.';
       case 403:
-        return 'Permission denied. Ensure your app has the required scopes (rw_ads, r_ads_reporting).';
+        return 'Permission denied. Ensure your app has the required scopes (rw_ads, r_ads_reporting); check_connection lists the scopes of your tokens.';
       case 404:
         return `Resource not found. ${this.message}`;
       case 429:
@@ -70,6 +73,95 @@ export class RateLimitError extends LinkedInApiError {
   }
 }
 
+/**
+ * A problem LinkedIn reported with one field of a request
+ */
+export interface FieldViolation {
+  /** Tool input field the problem belongs to; the LinkedIn path when no input field maps to it */
+  field: string;
+  /** LinkedIn field path in dot notation (e.g. runSchedule.end) */
+  path: string;
+  message: string;
+  /** LinkedIn error code (e.g. FIELD_VALUE_TOO_LOW) */
+  code?: string;
+}
+
+/**
+ * Error for requests LinkedIn rejected as invalid (400/422), with the fields at fault
+ */
+export class BadRequestError extends LinkedInApiError {
+  constructor(
+    message: string,
+    statusCode: number,
+    public readonly violations: FieldViolation[],
+    errorCode?: string,
+    details?: unknown
+  ) {
+    super(message, statusCode, errorCode ?? 'BAD_REQUEST', details);
+    this.name = 'BadRequestError';
+  }
+
+  /**
+   * List each rejected field so the request can be corrected
+   */
+  override toUserMessage(): string {
+    if (this.violations.length === 0) {
+      return `LinkedIn rejected the request: ${this.message}`;
+    }
+
+    const lines = this.violations.map(
+      (violation) => `- ${violation.field}: ${violation.message}${violation.code !== undefined ? ` (${violation.code})` : ''}`
+    );
+    return ['LinkedIn rejected these fields; correct them and try again:', ...lines].join('\n');
+  }
+}
+
+/**
+ * Error for calls refused locally because the daily limit of an endpoint
+ * (LINKEDIN_RATE_LIMITS_FILE) is used up. Unlike RateLimitError it is not retried.
+ */
+export class QuotaExceededError extends LinkedInApiError {
+  constructor(
+    message: string,
+    public readonly endpoint: string,
+    public readonly resetsAt: string
+  ) {
+    super(message, 429, 'QUOTA_EXCEEDED', { endpoint, resetsAt });
+    this.name = 'QuotaExceededError';
+  }
+
+  override toUserMessage(): string {
+    return this.message;
+  }
+}
+
+/**
+ * Error for calls refused locally while the circuit breaker is open because
+ * recent requests to LinkedIn kept failing (LINKEDIN_RETRY_POLICY_FILE)
+ */
+export class CircuitOpenError extends LinkedInApiError {
+  constructor(
+    message: string,
+    public readonly retryAt: string
+  ) {
+    super(message, 503, 'CIRCUIT_OPEN', { retryAt });
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Error for requests LinkedIn never answered: connection resets, DNS failures and timeouts
+ */
+export class NetworkError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
 /**
  * Error for validation failures (our code, not LinkedIn's)
  */
@@ -94,6 +186,45 @@ export class ConfigurationError extends Error {
   }
 }
 
+/**
+ * Error for tool calls the MCP client cancelled, or abandoned by disconnecting
+ */
+export class CancelledError extends Error {
+  constructor(message: string = 'The request was cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Error for requests that have no recorded response in replay mode
+ */
+export class ReplayMismatchError extends Error {
+  constructor(
+    message: string,
+    public readonly request: { method: string; url: string; body?: unknown }
+  ) {
+    super(message);
+    this.name = 'ReplayMismatchError';
+  }
+}
+
+/**
+ * Error codes of Node.js sockets and axios for requests that got no response
+ */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'ERR_NETWORK',
+]);
+
 /**
  * Transform an unknown error (from linkedin-api-client or axios) into our error types
  */
@@ -103,10 +234,17 @@ export function transformError(error: unknown): Error {
     return error;
   }
 
-  if (error instanceof ValidationError) {
+  if (error instanceof ValidationError || error instanceof NetworkError) {
     return error;
   }
 
+  // Socket and DNS failures carry a code but no response
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code) && !hasResponse(error)) {
+    const message = error instanceof Error ? error.message : code;
+    return new NetworkError(`Request to LinkedIn failed: ${message}`, code);
+  }
+
   // If it's already a standard Error (but not our custom types), return it
   if (error instanceof Error && !isAxiosError(error)) {
     return error;
@@ -114,40 +252,152 @@ export function transformError(error: unknown): Error {
 
   // Handle axios-style errors (have response object)
   if (isAxiosError(error)) {
-    const status = error.response?.status ?? 500;
-    const data = error.response?.data as Record<string, unknown> | undefined;
-    const message = (data?.message as string) ?? error.message ?? 'Unknown API error';
-
-    switch (status) {
-      case 401:
-        return new AuthenticationError(message, data);
-      case 403:
-        return new PermissionError(message, data);
-      case 429: {
-        const retryAfter = error.response?.headers?.['retry-after'];
-        return new RateLimitError(
-          message,
-          retryAfter !== undefined ? parseInt(retryAfter as string, 10) : undefined,
-          data
-        );
-      }
-      default:
-        return new LinkedInApiError(message, status, data?.code as string | undefined, data);
+    const transformed = fromResponse(error);
+    const requestId = error.response?.headers?.['x-li-uuid'];
+    if (typeof requestId === 'string' && requestId !== '') {
+      transformed.requestId = requestId;
     }
+    return transformed;
   }
 
   // Unknown error type - wrap in Error
   return new Error(String(error));
 }
 
+/**
+ * Error for a LinkedIn error response, by HTTP status
+ */
+function fromResponse(error: AxiosStyleError): LinkedInApiError {
+  const status = error.response?.status ?? 500;
+  const data = error.response?.data as Record<string, unknown> | undefined;
+  const message = (data?.message as string) ?? error.message ?? 'Unknown API error';
+
+  switch (status) {
+    case 401:
+      return new AuthenticationError(message, data);
+    case 403:
+      return new PermissionError(message, data);
+    case 429:
+      return new RateLimitError(message, parseRetryAfter(error.response?.headers?.['retry-after']), data);
+    case 400:
+    case 422:
+      return new BadRequestError(message, status, parseFieldViolations(data), data?.code as string | undefined, data);
+    default:
+      return new LinkedInApiError(message, status, data?.code as string | undefined, data);
+  }
+}
+
+/**
+ * Tool input fields for LinkedIn entity field paths (dot notation), matched by prefix.
+ * Paths without an entry are reported as they are.
+ */
+const INPUT_FIELDS: [path: string, field: string][] = [
+  ['account', 'accountId'],
+  ['campaignGroup', 'campaignGroupId'],
+  ['campaign', 'campaignId'],
+  ['dailyBudget', 'dailyBudget'],
+  ['totalBudget', 'totalBudget'],
+  ['runSchedule.start', 'startDate'],
+  ['runSchedule.end', 'endDate'],
+  ['variables.clickUri', 'destinationUrl'],
+  ['variables.data.com.linkedin.ads.TextAdCreativeVariables.title', 'title'],
+  ['variables.data.com.linkedin.ads.TextAdCreativeVariables.text', 'text'],
+  ['variables.data.com.linkedin.ads.SponsoredUpdateCreativeVariables.activity', 'text'],
+  ['variables.data.com.linkedin.ads.SponsoredUpdateCreativeVariables.media', 'imageUrl'],
+  ['author', 'organizationId'],
+  ['commentary', 'text'],
+  ['content.article.source', 'linkUrl'],
+];
+
+/**
+ * Tool input field a LinkedIn field path belongs to
+ */
+function toInputField(path: string): string {
+  const match = INPUT_FIELDS.find(([prefix]) => path === prefix || path.startsWith(`${prefix}.`));
+  return match !== undefined ? match[1] : path;
+}
+
+/**
+ * Read field-level violations from a LinkedIn error payload. Both the
+ * `errorDetails.inputErrors` format and `ERROR :: /path :: message` lines are understood.
+ */
+function parseFieldViolations(data: Record<string, unknown> | undefined): FieldViolation[] {
+  const violations: FieldViolation[] = [];
+  const errorDetails = data?.errorDetails as { inputErrors?: unknown } | undefined;
+  const inputErrors = Array.isArray(errorDetails?.inputErrors) ? (errorDetails.inputErrors as unknown[]) : [];
+
+  for (const entry of inputErrors) {
+    const inputError = entry as {
+      description?: string;
+      code?: string;
+      input?: { inputPath?: { fieldPath?: string } };
+    };
+    const fieldPath = inputError.input?.inputPath?.fieldPath;
+    const path = fieldPath !== undefined ? toDotPath(fieldPath) : '';
+
+    violations.push({
+      field: path !== '' ? toInputField(path) : 'request',
+      path,
+      message: inputError.description ?? inputError.code ?? 'Invalid value',
+      code: inputError.code,
+    });
+  }
+
+  const message = typeof data?.message === 'string' ? data.message : '';
+  for (const match of message.matchAll(/ERROR :: (\S+) :: ([^\n]+)/g)) {
+    const path = toDotPath(match[1]);
+    violations.push({ field: toInputField(path), path, message: match[2].trim() });
+  }
+
+  return violations;
+}
+
+/**
+ * Convert a Rest.li field path (/runSchedule/end) to dot notation (runSchedule.end)
+ */
+function toDotPath(fieldPath: string): string {
+  return fieldPath.split('/').filter((segment) => segment !== '').join('.');
+}
+
+/**
+ * Seconds to wait from a Retry-After header, given either as seconds or as an HTTP date.
+ * Undefined when the header is missing or unreadable.
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) {
+    return parseInt(text, 10);
+  }
+
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Whether an axios-style error carries a response from LinkedIn
+ */
+function hasResponse(error: unknown): boolean {
+  return isAxiosError(error) && error.response !== undefined;
+}
+
+/**
+ * Shape of the errors axios rejects with for error responses
+ */
+interface AxiosStyleError {
+  response?: { status?: number; data?: unknown; headers?: Record<string, unknown> };
+  message?: string;
+}
+
 /**
  * Type guard for axios-style errors.
  * Only matches objects with a 'response' property (not just 'message',
  * since all Error objects have message).
  */
-function isAxiosError(
-  error: unknown
-): error is { response?: { status?: number; data?: unknown; headers?: Record<string, unknown> }; message?: string } {
+function isAxiosError(error: unknown): error is AxiosStyleError {
   return (
     typeof error === 'object' &&
     error !== null &&
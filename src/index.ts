@@ -1,8 +1,11 @@
 #!/usr/bin/env node
 
-import { FastMCP } from 'fastmcp';
-import { loadConfig } from './config.js';
-import { createLinkedInClient, LinkedInClient } from './client.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { FastMCPSession, type ContentResult, type Context, type Tool } from 'fastmcp';
+import type { z } from 'zod';
+import { loadConfig, applyProfile, type Profile } from './config.js';
+import { createLinkedInClient, LinkedInClient, type LinkedInClientOptions } from './client.js';
+import { ConfigurationError, ValidationError } from './errors.js';
 import { accountTools } from './tools/accounts.js';
 import { campaignTools } from './tools/campaigns.js';
 import { campaignGroupTools } from './tools/campaign-groups.js';
@@ -11,6 +14,21 @@ import { analyticsTools } from './tools/analytics.js';
 import { targetingTools } from './tools/targeting.js';
 import { postTools } from './tools/posts.js';
 import { organizationAnalyticsTools } from './tools/organization-analytics.js';
+import { changeHistoryTools } from './tools/change-history.js';
+import { connectionTools } from './tools/connection.js';
+import { createResources, createResourceTemplates, type ResourceClients } from './resources.js';
+import { createPrompts } from './prompts.js';
+import type { ApiKey, ProgressReporter, ToolContext } from './types.js';
+import { getToolAccess } from './utils/tool-access.js';
+import { loadSpendPolicy } from './utils/spend-policy.js';
+import { AuditLog } from './utils/audit-log.js';
+import { loadRateLimitPolicy } from './utils/rate-limiter.js';
+import { loadRetryPolicy } from './utils/retry.js';
+import { Logger } from './utils/logger.js';
+import { Telemetry } from './utils/telemetry.js';
+import { ApiKeyAuthenticator, loadApiKeys, startHttpTransport, type HttpSessionAuth } from './utils/http-transport.js';
+import { toErrorEnvelope, toolErrorResult } from './utils/tool-errors.js';
+import { currentToolCall, trackToolCalls } from './utils/tool-calls.js';
 
 /**
  * LinkedIn Campaign Manager MCP Server
@@ -21,35 +39,256 @@ import { organizationAnalyticsTools } from './tools/organization-analytics.js';
  * Requires two LinkedIn apps due to API product restrictions:
  * - Ads App: access token with rw_ads, r_ads_reporting, w_organization_social scopes
  * - Analytics App: access token with rw_organization_admin scope (Community Management API)
+ *
+ * Each credentials profile (one per brand, from LINKEDIN_PROFILES_FILE) gets its own
+ * pair of clients; tools pick one with their optional `profile` argument.
+ *
+ * Serves one client over stdio, or a team over HTTP (LINKEDIN_MCP_TRANSPORT).
  */
 
+const SERVER_NAME = 'linkedin-campaign-manager';
+const SERVER_VERSION = '0.1.0';
+
 // Load configuration from environment
 const config = loadConfig();
 
-// Create LinkedIn API clients
-// Primary client for Ads + Share on LinkedIn
-const linkedInClient = createLinkedInClient(config);
+// API keys accepted by the HTTP transport
+const apiKeys: ApiKey[] = config.transport === 'stdio'
+  ? []
+  : [
+      ...(config.apiKey !== undefined ? [{ name: 'default', key: config.apiKey }] : []),
+      ...(config.apiKeysFile !== undefined ? loadApiKeys(config.apiKeysFile) : []),
+    ];
 
-// Community Management client (optional, for organization analytics)
-// Uses separate token due to LinkedIn's "one product per app" restriction
-const communityClient = config.communityToken !== undefined && config.communityToken.trim().length > 0
-  ? createLinkedInClient({ ...config, accessToken: config.communityToken })
-  : null;
+// Structured stderr log; every configured credential is redacted from it
+const logger = new Logger(
+  config.logLevel,
+  Object.values(config.profiles).flatMap((profile) => [
+    profile.accessToken,
+    profile.communityToken,
+    profile.refreshToken,
+    profile.clientSecret,
+    profile.communityClientSecret,
+    profile.communityRefreshToken,
+  ]).concat(apiKeys.map((apiKey) => apiKey.key))
+);
 
-// Initialize FastMCP server
-const server = new FastMCP({
-  name: 'linkedin-campaign-manager',
-  version: '0.1.0',
-});
+// Work to finish before the server stops on SIGINT or SIGTERM
+const shutdownTasks: (() => Promise<void>)[] = [];
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    void Promise.allSettled(shutdownTasks.map((task) => task())).finally(() => process.exit(0));
+  });
+}
 
 /**
- * Helper to create a tool handler that injects the LinkedIn client
+ * LinkedIn API clients and tool context for one credentials profile
+ */
+interface ProfileClients {
+  /** Primary client for Ads + Share on LinkedIn */
+  ads: LinkedInClient;
+  /** Community Management client (optional, for organization analytics) */
+  community: LinkedInClient | null;
+  context: ToolContext;
+}
+
+// Server-level settings shared by every tool handler
+const baseContext: ToolContext = {
+  dryRun: config.dryRun,
+  spendPolicy: config.spendPolicyFile !== undefined ? loadSpendPolicy(config.spendPolicyFile) : undefined,
+  auditLog: config.auditLogFile !== undefined
+    ? new AuditLog(config.auditLogFile, logger.child({ component: 'audit-log' }))
+    : undefined,
+  toolAccess: (tool) => getToolAccess(tool, config),
+};
+
+// OpenTelemetry spans and metrics, flushed when the server stops. The SDK and exporters are
+// optional dependencies, so they are only loaded when an exporter is configured.
+if (config.otelExporter !== undefined) {
+  const { startTelemetry } = await import('./utils/telemetry-export.js').catch((error: unknown) => {
+    throw new ConfigurationError(
+      `LINKEDIN_OTEL_EXPORTER needs the optional OpenTelemetry packages: ${error instanceof Error ? error.message : String(error)}`
+    );
+  });
+  shutdownTasks.push(startTelemetry({ exporter: config.otelExporter, file: config.otelFile }));
+}
+const telemetry = new Telemetry();
+
+// Request policies; every client budgets its own token's calls and has its own circuit breaker
+const clientOptions: LinkedInClientOptions = {
+  rateLimits: config.rateLimitsFile !== undefined ? loadRateLimitPolicy(config.rateLimitsFile) : undefined,
+  retryPolicy: config.retryPolicyFile !== undefined ? loadRetryPolicy(config.retryPolicyFile) : undefined,
+  telemetry,
+};
+
+/**
+ * Create the LinkedIn API clients for a profile.
+ * The community client uses a separate token due to LinkedIn's "one product per app" restriction.
+ */
+function createProfileClients(name: string, profile: Profile): ProfileClients {
+  const profileConfig = applyProfile(config, profile);
+  const communityToken = profile.communityToken;
+  const community = communityToken !== undefined && communityToken.trim().length > 0
+    ? createLinkedInClient(
+        {
+          ...profileConfig,
+          accessToken: communityToken,
+          accessTokenExpiresAt: profile.communityTokenExpiresAt,
+          clientId: profile.communityClientId,
+          clientSecret: profile.communityClientSecret,
+          refreshToken: profile.communityRefreshToken,
+          // The token store belongs to the Ads app; renewed community tokens are kept in memory
+          tokenStoreFile: undefined,
+        },
+        { ...clientOptions, logger: logger.child({ profile: name, app: 'community' }) }
+      )
+    : null;
+
+  return {
+    ads: createLinkedInClient(profileConfig, { ...clientOptions, logger: logger.child({ profile: name, app: 'ads' }) }),
+    community,
+    context: { ...baseContext, profile: name, communityClient: community ?? undefined },
+  };
+}
+
+const profileClients = new Map(
+  Object.entries(config.profiles).map(([name, profile]) => [name, createProfileClients(name, profile)])
+);
+
+// Surface an upcoming expiry of an access token that cannot be renewed automatically
+for (const [name, clients] of profileClients) {
+  const tokenStatus = clients.ads.getTokenStatus();
+  if (tokenStatus.refreshable || tokenStatus.expiresAt === undefined) {
+    continue;
+  }
+
+  const daysLeft = (Date.parse(tokenStatus.expiresAt) - Date.now()) / 86_400_000;
+  if (daysLeft < 7) {
+    logger.warn(
+      `LinkedIn access token of profile ${name} ${daysLeft <= 0 ? 'expired' : 'expires'} at ${tokenStatus.expiresAt}. ` +
+        'Configure a refresh token and client credentials to renew it automatically.',
+      { profile: name, expiresAt: tokenStatus.expiresAt }
+    );
+  }
+}
+
+// Tools served to every client
+const tools: Tool<HttpSessionAuth>[] = [];
+
+/**
+ * Response for organization analytics tools called without a community token
+ */
+function missingCommunityTokenResponse(profile?: string): Promise<string> {
+  return Promise.resolve(JSON.stringify(
+    {
+      error: 'LINKEDIN_COMMUNITY_TOKEN not configured',
+      message:
+        'Organization analytics require a separate LinkedIn app with Community Management API access. ' +
+        (profile !== undefined
+          ? `Add a communityToken from that app to profile ${profile}.`
+          : 'Set the LINKEDIN_COMMUNITY_TOKEN environment variable with a token from that app.'),
+    },
+    null,
+    2
+  ));
+}
+
+/**
+ * Progress reporter for a tool call. MCP progress must increase, so repeated values are dropped.
+ */
+function progressReporter(reportProgress: Context<HttpSessionAuth>['reportProgress'], log: Logger): ProgressReporter {
+  let last = -Infinity;
+  return (progress, total) => {
+    if (progress <= last) {
+      return;
+    }
+    last = progress;
+    reportProgress({ progress, total }).catch((error: unknown) => {
+      log.debug('Progress notification failed', { error: error instanceof Error ? error.message : String(error) });
+    });
+  };
+}
+
+/**
+ * The tool's input schema as registered with FastMCP: tools/list shows the schema, but
+ * arguments that fail it are passed through instead of answered with a protocol error.
+ * createHandler validates them itself, so they get the INVALID_INPUT error envelope.
+ */
+function permissive(parameters: z.ZodTypeAny): z.ZodTypeAny {
+  return parameters.catch(({ input }: { input: unknown }) => input);
+}
+
+/**
+ * Helper to create a tool handler that validates the arguments against `parameters` and
+ * resolves the `profile` argument to that profile's LinkedIn client and tool context.
+ * HTTP sessions of an API key bound to a profile always use that profile. Errors become
+ * a JSON error envelope with `isError` set. Every call is logged and traced with its
+ * duration and outcome.
  */
 function createHandler(
-  handler: (input: unknown, client: LinkedInClient) => Promise<string>,
-  client: LinkedInClient
-): (input: unknown) => Promise<string> {
-  return (input: unknown) => handler(input, client);
+  tool: string,
+  parameters: z.ZodTypeAny,
+  handler: (input: unknown, client: LinkedInClient, context?: ToolContext) => Promise<string>,
+  clientKind: 'ads' | 'community'
+): (input: unknown, context: Context<HttpSessionAuth>) => Promise<string | ContentResult> {
+  return async (input: unknown, { session, reportProgress }: Context<HttpSessionAuth>) => {
+    const raw = (input ?? {}) as Record<string, unknown>;
+    const name = typeof raw.profile === 'string' ? raw.profile : session?.profile ?? config.defaultProfile;
+    const log = logger.child({ tool, profile: name, client: session?.client });
+    const attributes = {
+      'linkedin.profile': name,
+      'linkedin.account_id': typeof raw.accountId === 'string' ? raw.accountId : undefined,
+    };
+
+    return telemetry.toolSpan(tool, attributes, async (span) => {
+      const started = Date.now();
+
+      try {
+        // Handlers parse their input again, so they get the arguments as sent
+        parameters.parse(raw);
+        const { profile: _profile, ...args } = raw;
+
+        if (session?.profile !== undefined && name !== session.profile) {
+          throw new ValidationError(
+            `This API key may only use profile ${session.profile}, not ${name}. Omit the profile argument.`,
+            'profile'
+          );
+        }
+
+        const clients = profileClients.get(name);
+
+        if (clients === undefined) {
+          throw new ValidationError(
+            `Unknown profile ${name}. Configured profiles: ${[...profileClients.keys()].join(', ')}`,
+            'profile'
+          );
+        }
+
+        // Requests stop when the client cancels the call; progress is only sent when asked for
+        const call = currentToolCall();
+        const client = clients[clientKind];
+        const result = client === null
+          ? await missingCommunityTokenResponse(name)
+          : await handler(args, client.withSignal(call?.signal), {
+              ...clients.context,
+              apiKeyName: session?.client,
+              communityClient: clients.context.communityClient?.withSignal(call?.signal),
+              reportProgress: call?.progressToken !== undefined ? progressReporter(reportProgress, log) : undefined,
+            });
+
+        const durationMs = Date.now() - started;
+        log.info('Tool call', { durationMs });
+        telemetry.recordToolCall(span, tool, durationMs);
+        return result;
+      } catch (error) {
+        const durationMs = Date.now() - started;
+        const { code, requestId } = toErrorEnvelope(error);
+        log.warn('Tool call failed', { durationMs, errorCode: code, requestId });
+        telemetry.recordToolCall(span, tool, durationMs, code);
+        return toolErrorResult(error);
+      }
+    });
+  };
 }
 
 // Register Ads + Posting tools (use primary client)
@@ -61,48 +300,145 @@ const adsTools = {
   ...analyticsTools,
   ...targetingTools,
   ...postTools,
+  ...changeHistoryTools,
+  ...connectionTools,
 };
 
+/**
+ * Response for tools disabled by LINKEDIN_READ_ONLY / LINKEDIN_TOOLS_ALLOW / LINKEDIN_TOOLS_DENY
+ */
+function disabledToolResponse(name: string, reason: string): Promise<string> {
+  return Promise.resolve(JSON.stringify(
+    {
+      error: 'Tool disabled',
+      message: `${name} is disabled because ${reason}. Ask the server operator to change its permission settings.`,
+    },
+    null,
+    2
+  ));
+}
+
+// Register stubs for tools the permission profile does not allow
+const disabledToolNames = new Set<string>();
+
+for (const [name, tool] of Object.entries({ ...adsTools, ...organizationAnalyticsTools })) {
+  const access = getToolAccess(name, config);
+  if (access.allowed) {
+    continue;
+  }
+
+  disabledToolNames.add(name);
+  tools.push({
+    name,
+    description: `${tool.description} (⛔ Disabled: ${access.reason})`,
+    parameters: tool.parameters,
+    // The stub only explains why the tool is disabled, so it is safe to call
+    annotations: {
+      ...tool.annotations,
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    execute: () => disabledToolResponse(name, access.reason),
+  });
+}
+
 for (const [name, tool] of Object.entries(adsTools)) {
-  server.addTool({
+  if (disabledToolNames.has(name)) {
+    continue;
+  }
+
+  tools.push({
     name,
     description: tool.description,
-    parameters: tool.parameters,
-    execute: createHandler(tool.handler, linkedInClient),
+    parameters: permissive(tool.parameters),
+    annotations: tool.annotations,
+    execute: createHandler(name, tool.parameters, tool.handler, 'ads'),
   });
 }
 
-// Register Organization Analytics tools (use community client if available)
-if (communityClient !== null) {
-  for (const [name, tool] of Object.entries(organizationAnalyticsTools)) {
-    server.addTool({
-      name,
-      description: tool.description,
-      parameters: tool.parameters,
-      execute: createHandler(tool.handler, communityClient),
-    });
+// Register Organization Analytics tools (use community clients if any profile has one)
+const hasCommunityClient = [...profileClients.values()].some((clients) => clients.community !== null);
+
+for (const [name, tool] of Object.entries(organizationAnalyticsTools)) {
+  if (disabledToolNames.has(name)) {
+    continue;
   }
-} else {
-  // Register placeholder tools that explain the missing token
-  for (const [name, tool] of Object.entries(organizationAnalyticsTools)) {
-    server.addTool({
-      name,
-      description: `${tool.description} (⚠️ Requires LINKEDIN_COMMUNITY_TOKEN to be set)`,
-      parameters: tool.parameters,
-      execute: () =>
-        Promise.resolve(JSON.stringify(
-          {
-            error: 'LINKEDIN_COMMUNITY_TOKEN not configured',
-            message:
-              'Organization analytics require a separate LinkedIn app with Community Management API access. ' +
-              'Set the LINKEDIN_COMMUNITY_TOKEN environment variable with a token from that app.',
-          },
-          null,
-          2
-        )),
-    });
+
+  tools.push({
+    name,
+    description: hasCommunityClient
+      ? tool.description
+      : `${tool.description} (⚠️ Requires LINKEDIN_COMMUNITY_TOKEN to be set)`,
+    parameters: permissive(tool.parameters),
+    annotations: tool.annotations,
+    // Without any community token, placeholders explain the setup required
+    execute: hasCommunityClient
+      ? createHandler(name, tool.parameters, tool.handler, 'community')
+      : (): Promise<string> => missingCommunityTokenResponse(),
+  });
+}
+
+/**
+ * Clients that resources of a profile are read with; resources take no `profile` argument,
+ * so they use the profile of the session's API key, or else the default profile
+ */
+function resourceClients(name: string): ResourceClients {
+  const clients = profileClients.get(name);
+  if (clients === undefined) {
+    throw new ConfigurationError(`Profile ${name} is not configured`);
   }
+  return { profile: name, ads: clients.ads, community: clients.community };
+}
+
+// Resources and prompts follow the permission settings of the tools they use
+const isToolAllowed = (tool: string): boolean => !disabledToolNames.has(tool);
+
+// Prompts for recurring workflows, served to every client
+const prompts = createPrompts(isToolAllowed);
+
+/**
+ * MCP session for a client, over stdio or authenticated with an API key
+ */
+function createSession(auth: HttpSessionAuth | undefined): FastMCPSession<HttpSessionAuth> {
+  const clients = resourceClients(auth?.profile ?? config.defaultProfile);
+  return new FastMCPSession<HttpSessionAuth>({
+    auth,
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+    tools,
+    prompts,
+    resources: createResources(clients, isToolAllowed),
+    resourcesTemplates: createResourceTemplates(clients, isToolAllowed),
+  });
 }
 
 // Start the server
-void server.start({ transportType: 'stdio' });
+if (config.transport === 'stdio') {
+  // Tool calls are tracked so they can be cancelled and report progress
+  createSession(undefined).connect(trackToolCalls(new StdioServerTransport())).catch((error: unknown) => {
+    logger.error('MCP server failed to connect over stdio', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    process.exit(1);
+  });
+} else {
+  for (const apiKey of apiKeys) {
+    if (apiKey.profile !== undefined && !profileClients.has(apiKey.profile)) {
+      throw new ConfigurationError(`API key ${apiKey.name} is bound to profile ${apiKey.profile}, which is not configured`);
+    }
+  }
+
+  const transport = await startHttpTransport({
+    transportType: config.transport,
+    host: config.httpHost,
+    port: config.httpPort,
+    endpoint: config.httpEndpoint,
+    authenticator: new ApiKeyAuthenticator(apiKeys),
+    createSession,
+    logger,
+  });
+  shutdownTasks.push(() => transport.close());
+  logger.info('MCP server listening', { url: transport.url, transport: config.transport });
+}
@@ -0,0 +1,385 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { createHash, randomBytes } from 'node:crypto';
+import type { Config } from './config.js';
+import { AuthenticationError, ConfigurationError } from './errors.js';
+
+/**
+ * LinkedIn OAuth 2.0 token handling shared by the server and `npm run auth`:
+ * the token endpoint calls, a JSON file store for renewed tokens, and the
+ * access token state a LinkedInClient refreshes when LinkedIn rejects it.
+ */
+
+export const LINKEDIN_AUTHORIZATION_URL = 'https://www.linkedin.com/oauth/v2/authorization';
+export const LINKEDIN_TOKEN_URL = 'https://www.linkedin.com/oauth/v2/accessToken';
+
+/** Scope sets `npm run auth` can request, by preset name */
+export const SCOPE_PRESETS: Record<string, string[]> = {
+  /** Ads app: campaign management and reporting */
+  ads: ['r_ads', 'rw_ads', 'r_ads_reporting'],
+  /** Ads app with Share on LinkedIn, for the posting tools (reading posts needs r_organization_social) */
+  'ads-posting': ['r_ads', 'rw_ads', 'r_ads_reporting', 'w_organization_social', 'r_organization_social'],
+  /** Community Management app, for organization analytics */
+  community: ['rw_organization_admin'],
+};
+
+/**
+ * Response of the LinkedIn token endpoint
+ */
+export interface TokenResponse {
+  access_token: string;
+  expires_in: number;
+  refresh_token?: string;
+  refresh_token_expires_in?: number;
+  scope: string;
+}
+
+/**
+ * Client credentials of the LinkedIn app that issued the tokens
+ */
+export interface OAuthCredentials {
+  clientId: string;
+  clientSecret: string;
+  /** Token endpoint (default: LinkedIn's) */
+  tokenUrl?: string;
+}
+
+/**
+ * Token state persisted to the token store
+ */
+export interface StoredToken {
+  accessToken: string;
+  /** ISO timestamp the access token expires at */
+  expiresAt?: string;
+  refreshToken?: string;
+  /** ISO timestamp the refresh token expires at */
+  refreshTokenExpiresAt?: string;
+  scope?: string;
+  updatedAt: string;
+}
+
+/**
+ * Expiry information about the access token a client is using
+ */
+export interface TokenStatus {
+  /** When the access token expires, if known */
+  expiresAt?: string;
+  /** When the refresh token expires, if known */
+  refreshTokenExpiresAt?: string;
+  /** Whether the access token is renewed automatically when LinkedIn rejects it */
+  refreshable: boolean;
+  /** When this server last renewed the access token */
+  refreshedAt?: string;
+  /** Scopes LinkedIn reported when the token was issued, if known */
+  scope?: string;
+}
+
+/**
+ * Response of the LinkedIn token introspection endpoint
+ */
+export interface TokenIntrospection {
+  active: boolean;
+  /** Token status, e.g. 'active', 'expired' or 'revoked' */
+  status?: string;
+  /** Comma-separated scopes granted to the token */
+  scope?: string;
+  client_id?: string;
+  auth_type?: string;
+  /** Epoch seconds */
+  authorized_at?: number;
+  /** Epoch seconds */
+  created_at?: number;
+  /** Epoch seconds */
+  expires_at?: number;
+}
+
+/**
+ * Parameters of the authorization URL the user is sent to
+ */
+export interface AuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  scopes: string[];
+  /** Random value the callback must echo back */
+  state: string;
+  /** S256 PKCE challenge, when using PKCE */
+  codeChallenge?: string;
+}
+
+/**
+ * PKCE verifier and its S256 challenge
+ */
+export interface PkcePair {
+  codeVerifier: string;
+  codeChallenge: string;
+}
+
+/**
+ * Resolve a scope preset name, or a comma-separated list of scopes
+ */
+export function resolveScopes(value: string): string[] {
+  if (Object.hasOwn(SCOPE_PRESETS, value)) {
+    return SCOPE_PRESETS[value];
+  }
+
+  return value
+    .split(',')
+    .map((scope) => scope.trim())
+    .filter((scope) => scope !== '');
+}
+
+/**
+ * Build the LinkedIn authorization URL for the 3-legged authorization code flow
+ */
+export function buildAuthorizationUrl(request: AuthorizationRequest): string {
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: request.clientId,
+    redirect_uri: request.redirectUri,
+    scope: request.scopes.join(' '),
+    state: request.state,
+  });
+
+  if (request.codeChallenge !== undefined) {
+    params.set('code_challenge', request.codeChallenge);
+    params.set('code_challenge_method', 'S256');
+  }
+
+  return `${LINKEDIN_AUTHORIZATION_URL}?${params.toString()}`;
+}
+
+/**
+ * Create a random PKCE code verifier and its S256 challenge
+ */
+export function createPkcePair(): PkcePair {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+  return { codeVerifier, codeChallenge };
+}
+
+/**
+ * Exchange an authorization code from the OAuth callback for tokens.
+ * `codeVerifier` is required when the authorization URL carried a PKCE challenge.
+ */
+export function exchangeCodeForToken(
+  code: string,
+  redirectUri: string,
+  credentials: OAuthCredentials,
+  codeVerifier?: string
+): Promise<TokenResponse> {
+  return requestToken(credentials, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    ...(codeVerifier !== undefined ? { code_verifier: codeVerifier } : {}),
+  });
+}
+
+/**
+ * Obtain a new access token with a refresh token
+ */
+export function refreshAccessToken(refreshToken: string, credentials: OAuthCredentials): Promise<TokenResponse> {
+  return requestToken(credentials, {
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+  });
+}
+
+/**
+ * Ask LinkedIn which scopes and expiry a token has. The token must belong to the app of `credentials`.
+ * The introspection endpoint sits next to the token endpoint.
+ */
+export function introspectToken(token: string, credentials: OAuthCredentials): Promise<TokenIntrospection> {
+  const url = new URL('introspectToken', credentials.tokenUrl ?? LINKEDIN_TOKEN_URL).toString();
+  return postForm<TokenIntrospection>(url, credentials, { token });
+}
+
+function requestToken(credentials: OAuthCredentials, params: Record<string, string>): Promise<TokenResponse> {
+  return postForm<TokenResponse>(credentials.tokenUrl ?? LINKEDIN_TOKEN_URL, credentials, params);
+}
+
+async function postForm<T>(url: string, credentials: OAuthCredentials, params: Record<string, string>): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      ...params,
+      client_id: credentials.clientId,
+      client_secret: credentials.clientSecret,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new AuthenticationError(`Token request failed: ${response.status} ${error}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Convert a token endpoint response into the stored form with absolute expiry times.
+ * A refresh token missing from the response is carried over from `previous`.
+ */
+export function toStoredToken(response: TokenResponse, previous?: StoredToken, now: Date = new Date()): StoredToken {
+  const expiry = (seconds: number): string => new Date(now.getTime() + seconds * 1000).toISOString();
+  const rotated = response.refresh_token !== undefined;
+
+  return {
+    accessToken: response.access_token,
+    expiresAt: expiry(response.expires_in),
+    refreshToken: rotated ? response.refresh_token : previous?.refreshToken,
+    refreshTokenExpiresAt:
+      rotated && response.refresh_token_expires_in !== undefined
+        ? expiry(response.refresh_token_expires_in)
+        : previous?.refreshTokenExpiresAt,
+    scope: response.scope,
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * JSON file holding the latest tokens, so renewed tokens survive restarts
+ */
+export class TokenStore {
+  constructor(public readonly file: string) {}
+
+  /**
+   * Read the stored token, if the file exists
+   */
+  load(): StoredToken | undefined {
+    if (!existsSync(this.file)) {
+      return undefined;
+    }
+
+    let token: Partial<StoredToken>;
+    try {
+      token = JSON.parse(readFileSync(this.file, 'utf8')) as Partial<StoredToken>;
+    } catch (error) {
+      throw new ConfigurationError(
+        `Could not read token store ${this.file}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (typeof token.accessToken !== 'string' || token.accessToken === '') {
+      throw new ConfigurationError(`Token store ${this.file} has no accessToken`);
+    }
+
+    return token as StoredToken;
+  }
+
+  /**
+   * Replace the stored token, readable by the current user only
+   */
+  save(token: StoredToken): void {
+    mkdirSync(dirname(this.file), { recursive: true });
+    writeFileSync(this.file, `${JSON.stringify(token, null, 2)}\n`, { mode: 0o600 });
+  }
+}
+
+/**
+ * The access token a LinkedInClient sends, renewed with the refresh token when
+ * client credentials are configured. A token store, when configured, takes
+ * precedence over the token from the environment.
+ */
+export class AccessTokenManager {
+  private token: StoredToken;
+  private refreshedAt?: string;
+  private pendingRefresh?: Promise<void>;
+  private readonly credentials?: OAuthCredentials;
+  private readonly store?: TokenStore;
+
+  constructor(
+    config: Pick<
+      Config,
+      'accessToken' | 'accessTokenExpiresAt' | 'refreshToken' | 'clientId' | 'clientSecret' | 'oauthTokenUrl' | 'tokenStoreFile'
+    >
+  ) {
+    this.store = config.tokenStoreFile !== undefined ? new TokenStore(config.tokenStoreFile) : undefined;
+    this.token = this.store?.load() ?? {
+      accessToken: config.accessToken,
+      expiresAt: config.accessTokenExpiresAt,
+      refreshToken: config.refreshToken,
+      updatedAt: new Date().toISOString(),
+    };
+    this.token.refreshToken ??= config.refreshToken;
+
+    if (config.clientId !== undefined && config.clientSecret !== undefined) {
+      this.credentials = { clientId: config.clientId, clientSecret: config.clientSecret, tokenUrl: config.oauthTokenUrl };
+    }
+  }
+
+  get accessToken(): string {
+    return this.token.accessToken;
+  }
+
+  get canRefresh(): boolean {
+    return this.credentials !== undefined && this.token.refreshToken !== undefined;
+  }
+
+  status(): TokenStatus {
+    return {
+      expiresAt: this.token.expiresAt,
+      refreshTokenExpiresAt: this.token.refreshTokenExpiresAt,
+      refreshable: this.canRefresh,
+      refreshedAt: this.refreshedAt,
+      scope: this.token.scope,
+    };
+  }
+
+  /**
+   * Introspect the current access token, or return undefined without client credentials
+   */
+  introspect(): Promise<TokenIntrospection | undefined> {
+    if (this.credentials === undefined) {
+      return Promise.resolve(undefined);
+    }
+
+    return introspectToken(this.token.accessToken, this.credentials);
+  }
+
+  /**
+   * Renew the access token after LinkedIn rejected `rejectedToken`.
+   * Concurrent callers share one refresh, and a token that was already replaced is not refreshed again.
+   */
+  refresh(rejectedToken: string): Promise<void> {
+    if (rejectedToken !== this.token.accessToken) {
+      return Promise.resolve();
+    }
+
+    this.pendingRefresh ??= this.renew().finally(() => {
+      this.pendingRefresh = undefined;
+    });
+
+    return this.pendingRefresh;
+  }
+
+  private async renew(): Promise<void> {
+    const refreshToken = this.token.refreshToken;
+
+    if (this.credentials === undefined || refreshToken === undefined) {
+      throw new ConfigurationError(
+        'Refreshing the access token requires LINKEDIN_REFRESH_TOKEN, LINKEDIN_CLIENT_ID and LINKEDIN_CLIENT_SECRET'
+      );
+    }
+
+    let response: TokenResponse;
+    try {
+      response = await refreshAccessToken(refreshToken, this.credentials);
+    } catch (error) {
+      const expiry = this.token.refreshTokenExpiresAt !== undefined
+        ? ` (refresh token expires ${this.token.refreshTokenExpiresAt})`
+        : '';
+      throw new AuthenticationError(
+        `LinkedIn rejected the access token and refreshing it failed${expiry}: ${error instanceof Error ? error.message : String(error)}. Run npm run auth to authorize again.`
+      );
+    }
+
+    this.token = toStoredToken(response, this.token);
+    this.refreshedAt = this.token.updatedAt;
+    this.store?.save(this.token);
+  }
+}
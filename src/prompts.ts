@@ -0,0 +1,220 @@
+import type { Prompt } from 'fastmcp';
+import { ValidationError } from './errors.js';
+import { ObjectiveType } from './types.js';
+import type { ToolAllowed } from './utils/tool-access.js';
+
+/**
+ * MCP prompt templates for recurring campaign-management workflows.
+ *
+ * Each prompt expands into step-by-step instructions that name the tools to call
+ * and the arguments to pass, so the same review or launch runs the same way every time.
+ */
+
+const DAY_MS = 86_400_000;
+
+/** Regex pattern for YYYY-MM-DD date format */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Date range of a prompt, in YYYY-MM-DD format
+ */
+interface PromptDateRange {
+  startDate: string;
+  endDate: string;
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * The date range given as prompt arguments, or the `days` days up to yesterday (UTC)
+ * @throws {ValidationError} If a date is malformed or the range is reversed
+ */
+function resolveDateRange(
+  args: { startDate?: string; endDate?: string },
+  days: number,
+  now: Date
+): PromptDateRange {
+  for (const field of ['startDate', 'endDate'] as const) {
+    const value = args[field];
+    if (value !== undefined && value !== '' && (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+      throw new ValidationError(`${field} must be in YYYY-MM-DD format`, field);
+    }
+  }
+
+  const endDate = args.endDate !== undefined && args.endDate !== ''
+    ? args.endDate
+    : formatDate(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) - DAY_MS);
+  const startDate = args.startDate !== undefined && args.startDate !== ''
+    ? args.startDate
+    : formatDate(Date.parse(endDate) - (days - 1) * DAY_MS);
+
+  if (startDate > endDate) {
+    throw new ValidationError('startDate must not be after endDate', 'startDate');
+  }
+  return { startDate, endDate };
+}
+
+/**
+ * The range of the same length right before `range`
+ */
+function previousRange(range: PromptDateRange): PromptDateRange {
+  const start = Date.parse(range.startDate);
+  const length = Date.parse(range.endDate) - start + DAY_MS;
+  return { startDate: formatDate(start - length), endDate: formatDate(start - DAY_MS) };
+}
+
+function requireArgument(value: string | undefined, name: string): string {
+  if (value === undefined || value.trim() === '') {
+    throw new ValidationError(`${name} is required`, name);
+  }
+  return value.trim();
+}
+
+/**
+ * Instruction to pass the prompt's `profile` argument on to every tool call
+ */
+function profileLine(profile: string | undefined): string {
+  return profile !== undefined && profile !== ''
+    ? `\nPass profile "${profile}" to every tool call.\n`
+    : '';
+}
+
+const accountIdArgument = { name: 'accountId', description: 'The ad account ID', required: true } as const;
+const profileArgument = { name: 'profile', description: 'Credentials profile to use' } as const;
+
+/**
+ * Prompt with the tools its instructions call
+ */
+interface WorkflowPrompt {
+  tools: string[];
+  prompt: Prompt;
+}
+
+/**
+ * Prompt templates whose tools are all enabled
+ * @param now Clock for the default date ranges
+ */
+export function createPrompts(isToolAllowed: ToolAllowed = () => true, now: () => Date = () => new Date()): Prompt[] {
+  const prompts: WorkflowPrompt[] = [
+    {
+      tools: ['get_ad_account', 'list_campaigns', 'get_analytics', 'get_campaign_performance'],
+      prompt: {
+        name: 'weekly_performance_review',
+        description: 'Review the performance of an ad account against the previous period (default: the last 7 days)',
+        arguments: [
+          accountIdArgument,
+          { name: 'startDate', description: 'First day in YYYY-MM-DD format (default: 7 days before endDate)' },
+          { name: 'endDate', description: 'Last day in YYYY-MM-DD format (default: yesterday)' },
+          profileArgument,
+        ],
+        load: (args): Promise<string> => {
+          const accountId = requireArgument(args.accountId, 'accountId');
+          const range = resolveDateRange(args, 7, now());
+          const previous = previousRange(range);
+
+          return Promise.resolve(`Review the performance of LinkedIn ad account ${accountId} from ${range.startDate} to ${range.endDate}.
+${profileLine(args.profile)}
+1. Call \`get_ad_account\` with accountId ${accountId} for the account name and currency.
+2. Call \`list_campaigns\` with accountId ${accountId} and fetchAll true to know every campaign and its status.
+3. Call \`get_analytics\` with accountId ${accountId}, startDate ${range.startDate}, endDate ${range.endDate} and pivot CAMPAIGN.
+4. Call \`get_analytics\` again with startDate ${previous.startDate} and endDate ${previous.endDate} for the previous period.
+5. For each campaign whose spend or cost per result changed by more than 20%, call \`get_campaign_performance\` for the period to find the day it changed.
+
+Report:
+- Totals for the account: spend, impressions, clicks, CTR, conversions and cost per result, each with the change against the previous period.
+- A table per campaign with the same metrics and changes, sorted by spend.
+- The three campaigns that improved most and the three that declined most, with likely causes.
+- Concrete recommendations such as budget shifts, pauses or creative refreshes.
+
+Do not change any campaign; only recommend.`);
+        },
+      },
+    },
+    {
+      tools: ['get_ad_account', 'list_campaign_groups', 'search_targeting_entities', 'estimate_audience', 'create_campaign'],
+      prompt: {
+        name: 'launch_campaign',
+        description: 'Plan and create a campaign step by step: targeting, audience size, budget and a dry run first',
+        arguments: [
+          accountIdArgument,
+          {
+            name: 'objective',
+            description: 'Campaign objective (default: LEAD_GENERATION)',
+            enum: [...ObjectiveType.options],
+          },
+          { name: 'dailyBudget', description: 'Daily budget in the account currency' },
+          { name: 'audience', description: 'Who the campaign should reach, in plain words' },
+          profileArgument,
+        ],
+        load: (args): Promise<string> => {
+          const accountId = requireArgument(args.accountId, 'accountId');
+          const objective = args.objective !== undefined && args.objective !== '' ? args.objective : 'LEAD_GENERATION';
+          if (!ObjectiveType.safeParse(objective).success) {
+            throw new ValidationError(`objective must be one of ${ObjectiveType.options.join(', ')}`, 'objective');
+          }
+          const budget = args.dailyBudget !== undefined && args.dailyBudget !== ''
+            ? `a daily budget of ${args.dailyBudget}`
+            : 'a daily budget you propose based on the audience size';
+          const audience = args.audience !== undefined && args.audience !== ''
+            ? `The campaign should reach: ${args.audience}.`
+            : 'Ask me who the campaign should reach before choosing targeting.';
+
+          return Promise.resolve(`Launch a new ${objective} campaign in LinkedIn ad account ${accountId}.
+${profileLine(args.profile)}
+1. Call \`get_ad_account\` with accountId ${accountId} to confirm the account is active and to learn its currency.
+2. Call \`list_campaign_groups\` with accountId ${accountId} and ask me which group the campaign belongs to.
+3. ${audience} Turn it into targeting URNs with \`search_targeting_entities\` (locations, industries, seniorities, job functions).
+4. Call \`estimate_audience\` with accountId ${accountId} and those URNs. If the audience is too small or too broad for ${objective}, adjust the targeting and estimate again.
+5. Propose a name, cost type, schedule and ${budget}, and wait for my approval.
+6. Call \`create_campaign\` with accountId ${accountId}, objectiveType ${objective}, status DRAFT and dryRun true, and show me the request that would be sent.
+7. After I confirm, call \`create_campaign\` again without dryRun, and tell me the new campaign ID and the creatives it still needs.`);
+        },
+      },
+    },
+    {
+      tools: ['list_creatives', 'get_analytics', 'get_creative'],
+      prompt: {
+        name: 'audit_creative_fatigue',
+        description: 'Find creatives whose performance is wearing off (default: the last 30 days)',
+        arguments: [
+          accountIdArgument,
+          { name: 'campaignId', description: 'Only audit the creatives of this campaign' },
+          { name: 'startDate', description: 'First day in YYYY-MM-DD format (default: 30 days before endDate)' },
+          { name: 'endDate', description: 'Last day in YYYY-MM-DD format (default: yesterday)' },
+          profileArgument,
+        ],
+        load: (args): Promise<string> => {
+          const accountId = requireArgument(args.accountId, 'accountId');
+          const range = resolveDateRange(args, 30, now());
+          const campaignId = args.campaignId !== undefined && args.campaignId !== '' ? args.campaignId : undefined;
+          const scope = campaignId !== undefined
+            ? `campaign ${campaignId} in LinkedIn ad account ${accountId}`
+            : `LinkedIn ad account ${accountId}`;
+          const filter = campaignId !== undefined ? ` and campaignId ${campaignId}` : '';
+          // Compare the first half of the range with the second
+          const start = Date.parse(range.startDate);
+          const middle = formatDate(start + Math.floor((Date.parse(range.endDate) - start) / DAY_MS / 2) * DAY_MS);
+          const secondHalfStart = formatDate(Date.parse(middle) + DAY_MS);
+
+          return Promise.resolve(`Audit the creatives of ${scope} for ad fatigue from ${range.startDate} to ${range.endDate}.
+${profileLine(args.profile)}
+1. Call \`list_creatives\` with accountId ${accountId}${filter} and fetchAll true.
+2. Call \`get_analytics\` with accountId ${accountId}, pivot CREATIVE, startDate ${range.startDate} and endDate ${middle}.
+3. Call \`get_analytics\` with accountId ${accountId}, pivot CREATIVE, startDate ${secondHalfStart} and endDate ${range.endDate}.
+4. Flag a creative as fatigued when its CTR fell by 25% or more between the two halves while it kept serving, or when its cost per click or per result rose by 25% or more.
+5. Call \`get_creative\` for each flagged creative to quote its copy.
+
+Report a table of creatives with impressions, CTR in each half, the change and a verdict: healthy, watch or fatigued. For fatigued creatives, suggest fresh copy or visuals.
+
+Do not pause or update any creative without asking me first.`);
+        },
+      },
+    },
+  ];
+
+  return prompts
+    .filter((entry) => entry.tools.every((tool) => isToolAllowed(tool)))
+    .map((entry) => entry.prompt);
+}
@@ -0,0 +1,130 @@
+import type { Resource, ResourceResult, ResourceTemplate } from 'fastmcp';
+import type { LinkedInClient } from './client.js';
+import { ConfigurationError } from './errors.js';
+import { listAdAccounts, getAdAccount } from './tools/accounts.js';
+import { listCampaigns, getCampaign } from './tools/campaigns.js';
+import { getCreative } from './tools/creatives.js';
+import { getOrganization } from './tools/organization-analytics.js';
+import type { ToolAllowed } from './utils/tool-access.js';
+
+/**
+ * MCP resources for LinkedIn entities, so clients can attach account context
+ * directly instead of calling list_ad_accounts and friends over and over.
+ *
+ * Resources return the same JSON as the matching tools and are read with the
+ * clients of one credentials profile. A resource is only served while its tool is enabled.
+ */
+
+const MIME_TYPE = 'application/json';
+
+/**
+ * LinkedIn API clients the resources are read with
+ */
+export interface ResourceClients {
+  /** Credentials profile the clients belong to */
+  profile: string;
+  ads: LinkedInClient;
+  community: LinkedInClient | null;
+}
+
+const allowAll: ToolAllowed = () => true;
+
+/**
+ * Fixed resources
+ */
+export function createResources(clients: ResourceClients, isToolAllowed: ToolAllowed = allowAll): Resource[] {
+  const resources: { tool: string; resource: Resource }[] = [
+    {
+      tool: 'list_ad_accounts',
+      resource: {
+        uri: 'linkedin://accounts',
+        name: 'Ad accounts',
+        description: 'Every LinkedIn ad account accessible to the authenticated user',
+        mimeType: MIME_TYPE,
+        load: async () => ({ text: await listAdAccounts({ fetchAll: true }, clients.ads) }),
+      },
+    },
+  ];
+
+  return resources.filter((entry) => isToolAllowed(entry.tool)).map((entry) => entry.resource);
+}
+
+/**
+ * Resource templates for single entities and account contents.
+ * FastMCP matches URIs against the templates in order, and `{accountId}` also matches
+ * `123/campaigns/456`, so longer templates come first.
+ */
+export function createResourceTemplates(
+  clients: ResourceClients,
+  isToolAllowed: ToolAllowed = allowAll
+): ResourceTemplate[] {
+  const accountId = { name: 'accountId', description: 'The ad account ID' };
+
+  const templates: { tool: string; template: ResourceTemplate }[] = [
+    {
+      tool: 'get_campaign',
+      template: {
+        uriTemplate: 'linkedin://accounts/{accountId}/campaigns/{campaignId}',
+        name: 'Campaign',
+        description: 'A LinkedIn campaign with its budget, schedule and targeting',
+        mimeType: MIME_TYPE,
+        arguments: [accountId, { name: 'campaignId', description: 'The campaign ID' }],
+        load: async (args) => ({ text: await getCampaign(args, clients.ads) }),
+      },
+    },
+    {
+      tool: 'get_creative',
+      template: {
+        uriTemplate: 'linkedin://accounts/{accountId}/creatives/{creativeId}',
+        name: 'Creative',
+        description: 'A LinkedIn ad creative',
+        mimeType: MIME_TYPE,
+        arguments: [accountId, { name: 'creativeId', description: 'The creative ID' }],
+        load: async (args) => ({ text: await getCreative(args, clients.ads) }),
+      },
+    },
+    {
+      tool: 'list_campaigns',
+      template: {
+        uriTemplate: 'linkedin://accounts/{accountId}/campaigns',
+        name: 'Account campaigns',
+        description: 'Every campaign of a LinkedIn ad account',
+        mimeType: MIME_TYPE,
+        arguments: [accountId],
+        load: async (args) => ({ text: await listCampaigns({ ...args, fetchAll: true }, clients.ads) }),
+      },
+    },
+    {
+      tool: 'get_ad_account',
+      template: {
+        uriTemplate: 'linkedin://accounts/{accountId}',
+        name: 'Ad account',
+        description: 'A LinkedIn ad account',
+        mimeType: MIME_TYPE,
+        arguments: [accountId],
+        load: async (args) => ({ text: await getAdAccount(args, clients.ads) }),
+      },
+    },
+    {
+      tool: 'get_organization',
+      template: {
+        uriTemplate: 'linkedin://organizations/{organizationId}',
+        name: 'Organization',
+        description: 'A LinkedIn organization (company page). Requires a community token.',
+        mimeType: MIME_TYPE,
+        arguments: [{ name: 'organizationId', description: 'The organization/company page ID' }],
+        load: async (args): Promise<ResourceResult> => {
+          if (clients.community === null) {
+            throw new ConfigurationError(
+              `Organization resources require a community token; add a communityToken to profile ${clients.profile} ` +
+                'or set LINKEDIN_COMMUNITY_TOKEN'
+            );
+          }
+          return { text: await getOrganization(args, clients.community) };
+        },
+      },
+    },
+  ];
+
+  return templates.filter((entry) => isToolAllowed(entry.tool)).map((entry) => entry.template);
+}
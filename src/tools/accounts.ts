@@ -1,29 +1,33 @@
 import type { LinkedInClient } from '../client.js';
-import { ListAdAccountsInputSchema, GetAdAccountInputSchema } from '../types.js';
+import {
+  ListAdAccountsInputSchema,
+  GetAdAccountInputSchema,
+  type ToolContext,
+  type ToolDefinition,
+} from '../types.js';
 import { formatAdAccount } from '../utils/formatters.js';
+import { fetchListPage } from '../utils/pagination.js';
 
 /**
  * List all ad accounts accessible to the authenticated user.
  */
 export async function listAdAccounts(
-  _input: unknown,
-  client: LinkedInClient
+  input: unknown,
+  client: LinkedInClient,
+  context?: ToolContext
 ): Promise<string> {
-  // Validate input (empty object expected)
-  ListAdAccountsInputSchema.parse(_input);
+  const pagination = ListAdAccountsInputSchema.parse(input);
 
-  const response = await client.finder<{ elements: Record<string, unknown>[] }>(
-    '/adAccounts',
-    'search',
-    {}
-  );
+  const page = await fetchListPage(client, '/adAccounts', 'search', {}, pagination, context?.reportProgress);
 
-  const accounts = response.elements.map(formatAdAccount);
+  const accounts = page.elements.map(formatAdAccount);
 
   return JSON.stringify(
     {
       accounts,
       count: accounts.length,
+      nextPageToken: page.nextPageToken,
+      truncated: page.truncated,
     },
     null,
     2
@@ -49,13 +53,28 @@ export async function getAdAccount(
  */
 export const accountTools = {
   list_ad_accounts: {
-    description: 'List all LinkedIn ad accounts accessible to the authenticated user',
+    description:
+      'List all LinkedIn ad accounts accessible to the authenticated user. Paginated: pass nextPageToken back as pageToken, or set fetchAll to collect every page.',
     parameters: ListAdAccountsInputSchema,
     handler: listAdAccounts,
+    annotations: {
+      title: 'List Ad Accounts',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   get_ad_account: {
     description: 'Get detailed information about a specific LinkedIn ad account',
     parameters: GetAdAccountInputSchema,
     handler: getAdAccount,
+    annotations: {
+      title: 'Get Ad Account',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
-};
+} satisfies Record<string, ToolDefinition>;
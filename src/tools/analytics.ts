@@ -2,6 +2,7 @@ import type { LinkedInClient } from '../client.js';
 import {
   GetAnalyticsInputSchema,
   GetCampaignPerformanceInputSchema,
+  type ToolDefinition,
 } from '../types.js';
 import { buildUrn, dateToEpochMs } from '../utils/formatters.js';
 
@@ -147,10 +148,24 @@ export const analyticsTools = {
       'Get LinkedIn Ads performance analytics with flexible pivoting (by campaign, creative, account, etc.)',
     parameters: GetAnalyticsInputSchema,
     handler: getAnalytics,
+    annotations: {
+      title: 'Get Analytics',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   get_campaign_performance: {
     description: 'Get performance summary for a specific LinkedIn campaign',
     parameters: GetCampaignPerformanceInputSchema,
     handler: getCampaignPerformance,
+    annotations: {
+      title: 'Get Campaign Performance',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
-};
+} satisfies Record<string, ToolDefinition>;
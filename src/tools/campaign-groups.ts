@@ -3,30 +3,47 @@ import {
   ListCampaignGroupsInputSchema,
   CreateCampaignGroupInputSchema,
   UpdateCampaignGroupInputSchema,
+  type ToolContext,
+  type ToolDefinition,
 } from '../types.js';
 import { formatCampaignGroup, buildUrn, buildMoneyAmount, dateToEpochMs } from '../utils/formatters.js';
+import { fetchListPage } from '../utils/pagination.js';
+import {
+  isDryRun,
+  formatDryRun,
+  plannedCreate,
+  plannedPartialUpdate,
+} from '../utils/dry-run.js';
+import { auditMutation } from '../utils/audit-log.js';
+import { enforceSpendPolicy, readCurrentBudget } from '../utils/spend-policy.js';
 
 /**
  * List campaign groups for an ad account.
  */
 export async function listCampaignGroups(
   input: unknown,
-  client: LinkedInClient
+  client: LinkedInClient,
+  context?: ToolContext
 ): Promise<string> {
-  const { accountId } = ListCampaignGroupsInputSchema.parse(input);
+  const { accountId, ...pagination } = ListCampaignGroupsInputSchema.parse(input);
 
-  const response = await client.finder<{ elements: Record<string, unknown>[] }>(
+  const page = await fetchListPage(
+    client,
     `/adAccounts/${accountId}/adCampaignGroups`,
     'search',
-    {}
+    {},
+    pagination,
+    context?.reportProgress
   );
 
-  const groups = response.elements.map(formatCampaignGroup);
+  const groups = page.elements.map(formatCampaignGroup);
 
   return JSON.stringify(
     {
       campaignGroups: groups,
       count: groups.length,
+      nextPageToken: page.nextPageToken,
+      truncated: page.truncated,
     },
     null,
     2
@@ -38,7 +55,8 @@ export async function listCampaignGroups(
  */
 export async function createCampaignGroup(
   input: unknown,
-  client: LinkedInClient
+  client: LinkedInClient,
+  context?: ToolContext
 ): Promise<string> {
   const params = CreateCampaignGroupInputSchema.parse(input);
 
@@ -59,9 +77,23 @@ export async function createCampaignGroup(
     };
   }
 
-  const response = await client.create<Record<string, unknown>>(
-    `/adAccounts/${params.accountId}/adCampaignGroups`,
-    entity
+  await enforceSpendPolicy(context?.spendPolicy, {
+    accountId: params.accountId,
+    budgetField: 'totalBudget',
+    budget: params.totalBudget,
+  });
+
+  const resourcePath = `/adAccounts/${params.accountId}/adCampaignGroups`;
+
+  if (isDryRun(params.dryRun, context)) {
+    return formatDryRun(plannedCreate(resourcePath, entity));
+  }
+
+  const response = await auditMutation(
+    context,
+    client,
+    { tool: 'create_campaign_group', input, resourcePath, urnType: 'sponsoredCampaignGroup', accountId: params.accountId },
+    () => client.create<Record<string, unknown>>(resourcePath, entity)
   );
 
   return JSON.stringify(
@@ -79,9 +111,10 @@ export async function createCampaignGroup(
  */
 export async function updateCampaignGroup(
   input: unknown,
-  client: LinkedInClient
+  client: LinkedInClient,
+  context?: ToolContext
 ): Promise<string> {
-  const { accountId, groupId, ...updates } = UpdateCampaignGroupInputSchema.parse(input);
+  const { accountId, groupId, dryRun, ...updates } = UpdateCampaignGroupInputSchema.parse(input);
 
   const patchSet: Record<string, unknown> = {};
 
@@ -101,16 +134,28 @@ export async function updateCampaignGroup(
     patchSet['runSchedule.end'] = dateToEpochMs(updates.endDate);
   }
 
-  await client.partialUpdate(
-    `/adAccounts/${accountId}/adCampaignGroups`,
-    groupId,
-    patchSet
+  const resourcePath = `/adAccounts/${accountId}/adCampaignGroups`;
+
+  await enforceSpendPolicy(
+    context?.spendPolicy,
+    { accountId, budgetField: 'totalBudget', budget: updates.totalBudget },
+    () => readCurrentBudget(client, resourcePath, groupId, 'totalBudget')
   );
 
-  // Fetch and return the updated group
-  const updated = await client.get<Record<string, unknown>>(
-    `/adAccounts/${accountId}/adCampaignGroups`,
-    groupId
+  if (isDryRun(dryRun, context)) {
+    return formatDryRun(plannedPartialUpdate(resourcePath, groupId, patchSet));
+  }
+
+  const updated = await auditMutation(
+    context,
+    client,
+    { tool: 'update_campaign_group', input, resourcePath, key: groupId, urnType: 'sponsoredCampaignGroup', accountId },
+    async () => {
+      await client.partialUpdate(resourcePath, groupId, patchSet);
+
+      // Fetch and return the updated group
+      return client.get<Record<string, unknown>>(resourcePath, groupId);
+    }
   );
 
   return JSON.stringify(
@@ -128,18 +173,40 @@ export async function updateCampaignGroup(
  */
 export const campaignGroupTools = {
   list_campaign_groups: {
-    description: 'List campaign groups for a LinkedIn ad account',
+    description:
+      'List campaign groups for a LinkedIn ad account. Paginated: pass nextPageToken back as pageToken, or set fetchAll to collect every page.',
     parameters: ListCampaignGroupsInputSchema,
     handler: listCampaignGroups,
+    annotations: {
+      title: 'List Campaign Groups',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   create_campaign_group: {
     description: 'Create a new LinkedIn campaign group for organizing campaigns',
     parameters: CreateCampaignGroupInputSchema,
     handler: createCampaignGroup,
+    annotations: {
+      title: 'Create Campaign Group',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
   },
   update_campaign_group: {
     description: 'Update an existing LinkedIn campaign group',
     parameters: UpdateCampaignGroupInputSchema,
     handler: updateCampaignGroup,
+    annotations: {
+      title: 'Update Campaign Group',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
-};
+} satisfies Record<string, ToolDefinition>;
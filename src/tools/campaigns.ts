@@ -2,20 +2,39 @@ import type { LinkedInClient } from '../client.js';
 import {
   ListCampaignsInputSchema,
   GetCampaignInputSchema,
+  GetCampaignsByIdsInputSchema,
   CreateCampaignInputSchema,
   UpdateCampaignInputSchema,
   DeleteCampaignInputSchema,
+  type ToolContext,
+  type ToolDefinition,
 } from '../types.js';
-import { formatCampaign, buildUrn, buildMoneyAmount, dateToEpochMs } from '../utils/formatters.js';
+import {
+  formatCampaign,
+  formatBatchError,
+  buildUrn,
+  buildMoneyAmount,
+  dateToEpochMs,
+} from '../utils/formatters.js';
+import { fetchListPage } from '../utils/pagination.js';
+import {
+  isDryRun,
+  formatDryRun,
+  plannedCreate,
+  plannedPartialUpdate,
+} from '../utils/dry-run.js';
+import { auditMutation } from '../utils/audit-log.js';
+import { enforceSpendPolicy, readCurrentBudget } from '../utils/spend-policy.js';
 
 /**
  * List campaigns for an ad account with optional filters.
  */
 export async function listCampaigns(
   input: unknown,
-  client: LinkedInClient
+  client: LinkedInClient,
+  context?: ToolContext
 ): Promise<string> {
-  const { accountId, status, campaignGroupId } = ListCampaignsInputSchema.parse(input);
+  const { accountId, status, campaignGroupId, ...pagination } = ListCampaignsInputSchema.parse(input);
 
   const queryParams: Record<string, unknown> = {};
 
@@ -27,18 +46,23 @@ export async function listCampaigns(
     queryParams['search.campaignGroup.values[0]'] = buildUrn('sponsoredCampaignGroup', campaignGroupId);
   }
 
-  const response = await client.finder<{ elements: Record<string, unknown>[] }>(
+  const page = await fetchListPage(
+    client,
     `/adAccounts/${accountId}/adCampaigns`,
     'search',
-    queryParams
+    queryParams,
+    pagination,
+    context?.reportProgress
   );
 
-  const campaigns = response.elements.map(formatCampaign);
+  const campaigns = page.elements.map(formatCampaign);
 
   return JSON.stringify(
     {
       campaigns,
       count: campaigns.length,
+      nextPageToken: page.nextPageToken,
+      truncated: page.truncated,
     },
     null,
     2
@@ -62,12 +86,50 @@ export async function getCampaign(
   return JSON.stringify(formatCampaign(response), null, 2);
 }
 
+/**
+ * Get several campaigns by ID in one request.
+ * IDs that cannot be fetched are reported individually instead of failing the whole call.
+ */
+export async function getCampaignsByIds(
+  input: unknown,
+  client: LinkedInClient
+): Promise<string> {
+  const { accountId, campaignIds } = GetCampaignsByIdsInputSchema.parse(input);
+
+  const ids = [...new Set(campaignIds)];
+
+  const batch = await client.batchGet<Record<string, unknown>>(
+    `/adAccounts/${accountId}/adCampaigns`,
+    ids
+  );
+
+  const results = ids.map((id) => {
+    const raw = batch.results[id];
+    return raw !== undefined
+      ? { id, campaign: formatCampaign(raw) }
+      : { id, error: formatBatchError(batch, id) };
+  });
+
+  const found = results.filter((result) => 'campaign' in result).length;
+
+  return JSON.stringify(
+    {
+      results,
+      found,
+      failed: results.length - found,
+    },
+    null,
+    2
+  );
+}
+
 /**
  * Create a new LinkedIn ad campaign.
  */
 export async function createCampaign(
   input: unknown,
-  client: LinkedInClient
+  client: LinkedInClient,
+  context?: ToolContext
 ): Promise<string> {
   const params = CreateCampaignInputSchema.parse(input);
 
@@ -97,9 +159,24 @@ export async function createCampaign(
     };
   }
 
-  const response = await client.create<Record<string, unknown>>(
-    `/adAccounts/${params.accountId}/adCampaigns`,
-    entity
+  await enforceSpendPolicy(context?.spendPolicy, {
+    accountId: params.accountId,
+    budgetField: 'dailyBudget',
+    budget: params.dailyBudget,
+    objectiveType: params.objectiveType,
+  });
+
+  const resourcePath = `/adAccounts/${params.accountId}/adCampaigns`;
+
+  if (isDryRun(params.dryRun, context)) {
+    return formatDryRun(plannedCreate(resourcePath, entity));
+  }
+
+  const response = await auditMutation(
+    context,
+    client,
+    { tool: 'create_campaign', input, resourcePath, urnType: 'sponsoredCampaign', accountId: params.accountId },
+    () => client.create<Record<string, unknown>>(resourcePath, entity)
   );
 
   return JSON.stringify(
@@ -117,9 +194,10 @@ export async function createCampaign(
  */
 export async function updateCampaign(
   input: unknown,
-  client: LinkedInClient
+  client: LinkedInClient,
+  context?: ToolContext
 ): Promise<string> {
-  const { accountId, campaignId, ...updates } = UpdateCampaignInputSchema.parse(input);
+  const { accountId, campaignId, dryRun, ...updates } = UpdateCampaignInputSchema.parse(input);
 
   const patchSet: Record<string, unknown> = {};
 
@@ -140,16 +218,28 @@ export async function updateCampaign(
     patchSet['runSchedule.end'] = dateToEpochMs(updates.endDate);
   }
 
-  await client.partialUpdate(
-    `/adAccounts/${accountId}/adCampaigns`,
-    campaignId,
-    patchSet
+  const resourcePath = `/adAccounts/${accountId}/adCampaigns`;
+
+  await enforceSpendPolicy(
+    context?.spendPolicy,
+    { accountId, budgetField: 'dailyBudget', budget: updates.dailyBudget },
+    () => readCurrentBudget(client, resourcePath, campaignId, 'dailyBudget')
   );
 
-  // Fetch and return the updated campaign
-  const updated = await client.get<Record<string, unknown>>(
-    `/adAccounts/${accountId}/adCampaigns`,
-    campaignId
+  if (isDryRun(dryRun, context)) {
+    return formatDryRun(plannedPartialUpdate(resourcePath, campaignId, patchSet));
+  }
+
+  const updated = await auditMutation(
+    context,
+    client,
+    { tool: 'update_campaign', input, resourcePath, key: campaignId, urnType: 'sponsoredCampaign', accountId },
+    async () => {
+      await client.partialUpdate(resourcePath, campaignId, patchSet);
+
+      // Fetch and return the updated campaign
+      return client.get<Record<string, unknown>>(resourcePath, campaignId);
+    }
   );
 
   return JSON.stringify(
@@ -167,15 +257,36 @@ export async function updateCampaign(
  */
 export async function deleteCampaign(
   input: unknown,
-  client: LinkedInClient
+  client: LinkedInClient,
+  context?: ToolContext
 ): Promise<string> {
-  const { accountId, campaignId } = DeleteCampaignInputSchema.parse(input);
+  const { accountId, campaignId, dryRun } = DeleteCampaignInputSchema.parse(input);
 
-  // Archive by setting status to ARCHIVED
-  await client.partialUpdate(
-    `/adAccounts/${accountId}/adCampaigns`,
-    campaignId,
-    { status: 'ARCHIVED' }
+  if (isDryRun(dryRun, context)) {
+    return formatDryRun(
+      plannedPartialUpdate(`/adAccounts/${accountId}/adCampaigns`, campaignId, { status: 'ARCHIVED' })
+    );
+  }
+
+  const resourcePath = `/adAccounts/${accountId}/adCampaigns`;
+
+  await auditMutation(
+    context,
+    client,
+    {
+      tool: 'delete_campaign',
+      input,
+      resourcePath,
+      key: campaignId,
+      urnType: 'sponsoredCampaign',
+      accountId,
+      readAfter: true,
+    },
+    async () => {
+      // Archive by setting status to ARCHIVED
+      await client.partialUpdate(resourcePath, campaignId, { status: 'ARCHIVED' });
+      return null;
+    }
   );
 
   return JSON.stringify(
@@ -193,28 +304,77 @@ export async function deleteCampaign(
  */
 export const campaignTools = {
   list_campaigns: {
-    description: 'List campaigns for a LinkedIn ad account with optional filters',
+    description:
+      'List campaigns for a LinkedIn ad account with optional filters. Paginated: pass nextPageToken back as pageToken, or set fetchAll to collect every page.',
     parameters: ListCampaignsInputSchema,
     handler: listCampaigns,
+    annotations: {
+      title: 'List Campaigns',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   get_campaign: {
     description: 'Get detailed information about a specific LinkedIn campaign',
     parameters: GetCampaignInputSchema,
     handler: getCampaign,
+    annotations: {
+      title: 'Get Campaign',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  get_campaigns_by_ids: {
+    description:
+      'Get several LinkedIn campaigns by ID in one call. Returns a result per ID; IDs that fail (e.g. not found) carry an error instead of failing the whole call.',
+    parameters: GetCampaignsByIdsInputSchema,
+    handler: getCampaignsByIds,
+    annotations: {
+      title: 'Get Campaigns by ID',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   create_campaign: {
     description: 'Create a new LinkedIn ad campaign',
     parameters: CreateCampaignInputSchema,
     handler: createCampaign,
+    annotations: {
+      title: 'Create Campaign',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
   },
   update_campaign: {
     description: 'Update an existing LinkedIn campaign (status, budget, name, etc.)',
     parameters: UpdateCampaignInputSchema,
     handler: updateCampaign,
+    annotations: {
+      title: 'Update Campaign',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   delete_campaign: {
     description: 'Archive a LinkedIn campaign (campaigns cannot be hard deleted)',
     parameters: DeleteCampaignInputSchema,
     handler: deleteCampaign,
+    annotations: {
+      title: 'Archive Campaign',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
-};
+} satisfies Record<string, ToolDefinition>;
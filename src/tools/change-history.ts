@@ -0,0 +1,252 @@
+import type { LinkedInClient } from '../client.js';
+import { ConfigurationError, ValidationError } from '../errors.js';
+import {
+  GetChangeHistoryInputSchema,
+  UndoChangeInputSchema,
+  type ToolContext,
+  type ToolDefinition,
+} from '../types.js';
+import { AuditLog, auditMutation, type AuditRecord } from '../utils/audit-log.js';
+import { formatCampaign, formatCampaignGroup, formatCreative } from '../utils/formatters.js';
+import { isDryRun, formatDryRun, plannedPartialUpdate } from '../utils/dry-run.js';
+import { enforceSpendPolicy } from '../utils/spend-policy.js';
+
+/** Fields undo_change restores, as partialUpdate paths */
+const UNDOABLE_FIELDS = ['name', 'status', 'dailyBudget', 'runSchedule.end', 'totalBudget', 'variables.clickUri'];
+
+/** Entities undo_change can restore: collection under /adAccounts/{id} and formatter, by URN type */
+const UNDOABLE_RESOURCES: Record<string, { collection: string; format: (raw: Record<string, unknown>) => unknown }> = {
+  sponsoredCampaign: { collection: 'adCampaigns', format: formatCampaign },
+  sponsoredCampaignGroup: { collection: 'adCampaignGroups', format: formatCampaignGroup },
+  sponsoredCreative: { collection: 'creatives', format: formatCreative },
+};
+
+/**
+ * Query the local audit log of mutations made through this server.
+ */
+export async function getChangeHistory(
+  input: unknown,
+  _client: LinkedInClient,
+  context?: ToolContext
+): Promise<string> {
+  const { limit, since, until, ...filters } = GetChangeHistoryInputSchema.parse(input);
+
+  const auditLog = requireAuditLog(context);
+
+  const matches = await auditLog.query({
+    ...filters,
+    since: since !== undefined ? new Date(since) : undefined,
+    until: until !== undefined ? new Date(until) : undefined,
+  });
+
+  const changes = matches.slice(0, limit);
+
+  return JSON.stringify(
+    {
+      changes,
+      count: changes.length,
+      totalMatches: matches.length,
+      truncated: matches.length > limit,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Restore the fields a recorded change modified on a campaign, campaign group or creative.
+ * Refuses when any of those fields no longer hold the value the change left behind.
+ */
+export async function undoChange(
+  input: unknown,
+  client: LinkedInClient,
+  context?: ToolContext
+): Promise<string> {
+  const { changeId, dryRun } = UndoChangeInputSchema.parse(input);
+
+  const change = await requireAuditLog(context).find(changeId);
+
+  if (change === undefined) {
+    throw new ValidationError(`No audit record with ID ${changeId}`, 'changeId');
+  }
+
+  if (change.profile !== undefined && context?.profile !== undefined && change.profile !== context.profile) {
+    throw new ValidationError(
+      `Change ${changeId} was made with profile ${change.profile}; undo it with profile ${change.profile} instead of ${context.profile}`,
+      'profile'
+    );
+  }
+
+  const { accountId, urnType, id, before, after } = undoableChange(change);
+  const { collection, format } = UNDOABLE_RESOURCES[urnType];
+  const resourcePath = `/adAccounts/${accountId}/${collection}`;
+
+  const changedFields = UNDOABLE_FIELDS.filter(
+    (field) => !sameValue(getField(before, field), getField(after, field))
+  );
+
+  if (changedFields.length === 0) {
+    throw new ValidationError(
+      `Change ${changeId} did not modify any field undo_change can restore (${UNDOABLE_FIELDS.join(', ')})`,
+      'changeId'
+    );
+  }
+
+  const unset = changedFields.filter((field) => getField(before, field) === undefined);
+
+  if (unset.length > 0) {
+    throw new ValidationError(
+      `Cannot undo change ${changeId}: ${unset.join(', ')} had no value before it, and undo can only set values`,
+      'changeId'
+    );
+  }
+
+  const current = await client.get<Record<string, unknown>>(resourcePath, id);
+  const conflicts = changedFields.filter((field) => !sameValue(getField(current, field), getField(after, field)));
+
+  if (conflicts.length > 0) {
+    throw new ValidationError(
+      `Refusing to undo change ${changeId}: ${change.resourceUrn} has been modified since (${conflicts.join(', ')})`,
+      'changeId',
+      {
+        conflicts: conflicts.map((field) => ({
+          field,
+          afterChange: getField(after, field),
+          current: getField(current, field),
+        })),
+      }
+    );
+  }
+
+  const patchSet = Object.fromEntries(changedFields.map((field) => [field, getField(before, field)]));
+
+  for (const budgetField of ['dailyBudget', 'totalBudget'] as const) {
+    if (budgetField in patchSet) {
+      await enforceSpendPolicy(
+        context?.spendPolicy,
+        { accountId, budgetField, budget: moneyAmount(patchSet[budgetField]) },
+        () => Promise.resolve(moneyAmount(current[budgetField]))
+      );
+    }
+  }
+
+  if (isDryRun(dryRun, context)) {
+    return formatDryRun(plannedPartialUpdate(resourcePath, id, patchSet));
+  }
+
+  const restored = await auditMutation(
+    context,
+    client,
+    { tool: 'undo_change', input, resourcePath, key: id, urnType, accountId },
+    async () => {
+      await client.partialUpdate(resourcePath, id, patchSet);
+      return client.get<Record<string, unknown>>(resourcePath, id);
+    }
+  );
+
+  return JSON.stringify(
+    {
+      message: `Change ${changeId} undone`,
+      changeId,
+      resourceUrn: change.resourceUrn,
+      restored: patchSet,
+      entity: format(restored),
+    },
+    null,
+    2
+  );
+}
+
+function requireAuditLog(context: ToolContext | undefined): AuditLog {
+  if (context?.auditLog === undefined) {
+    throw new ConfigurationError(
+      'Change history is unavailable because audit logging is disabled. Set LINKEDIN_AUDIT_LOG_FILE to record mutations.'
+    );
+  }
+
+  return context.auditLog;
+}
+
+/**
+ * Check that a record describes a successful edit of an entity undo_change supports
+ */
+function undoableChange(change: AuditRecord): {
+  accountId: string;
+  urnType: string;
+  id: string;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+} {
+  const match = /^urn:li:(\w+):(.+)$/.exec(change.resourceUrn ?? '');
+  const urnType = match?.[1];
+
+  if (match === null || urnType === undefined || !(urnType in UNDOABLE_RESOURCES) || change.accountId === null) {
+    throw new ValidationError(
+      `Change ${change.id} (${change.tool}) is not a campaign, campaign group or creative edit and cannot be undone`,
+      'changeId'
+    );
+  }
+
+  if (change.outcome !== 'success' || !isRecord(change.before) || !isRecord(change.after)) {
+    throw new ValidationError(
+      `Change ${change.id} (${change.tool}) cannot be undone: only successful edits with recorded before and after states can`,
+      'changeId'
+    );
+  }
+
+  return { accountId: change.accountId, urnType, id: match[2], before: change.before, after: change.after };
+}
+
+/**
+ * Read a dotted partialUpdate path such as runSchedule.end
+ */
+function getField(entity: Record<string, unknown>, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((value, key) => (isRecord(value) ? value[key] : undefined), entity);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function moneyAmount(value: unknown): number | undefined {
+  const amount = isRecord(value) ? parseFloat(String(value.amount)) : NaN;
+  return Number.isFinite(amount) ? amount : undefined;
+}
+
+/**
+ * Tool definitions for registration with FastMCP
+ */
+export const changeHistoryTools = {
+  get_change_history: {
+    description:
+      'List changes made through this server (creates, updates, deletes) from the local audit log, newest first, with the entity before and after each change. Filter by account, campaign, entity URN, tool or time window.',
+    parameters: GetChangeHistoryInputSchema,
+    handler: getChangeHistory,
+    annotations: {
+      title: 'Get Change History',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  undo_change: {
+    description:
+      'Undo a change recorded in the audit log (by its ID from get_change_history) by restoring the previous name, status, dailyBudget, runSchedule.end, totalBudget or variables.clickUri of a campaign, campaign group or creative. Refuses if the entity was modified since.',
+    parameters: UndoChangeInputSchema,
+    handler: undoChange,
+    annotations: {
+      title: 'Undo Change',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+} satisfies Record<string, ToolDefinition>;
@@ -0,0 +1,355 @@
+import type { CollectionResponse, LinkedInClient } from '../client.js';
+import { AuthenticationError, LinkedInApiError } from '../errors.js';
+import type { TokenIntrospection } from '../oauth.js';
+import {
+  CheckConnectionInputSchema,
+  GetApiQuotaUsageInputSchema,
+  type ToolContext,
+  type ToolDefinition,
+} from '../types.js';
+import type { ToolAccess } from '../utils/tool-access.js';
+
+/**
+ * Token a tool calls LinkedIn with, and the scopes that allow the call (any one of them).
+ * Tools with no scopes only use local state.
+ */
+export interface ToolScopes {
+  token: 'ads' | 'community';
+  anyOf: string[];
+}
+
+const LOCAL: ToolScopes = { token: 'ads', anyOf: [] };
+const ADS_READ: ToolScopes = { token: 'ads', anyOf: ['r_ads', 'rw_ads'] };
+const ADS_WRITE: ToolScopes = { token: 'ads', anyOf: ['rw_ads'] };
+const ADS_REPORTING: ToolScopes = { token: 'ads', anyOf: ['r_ads_reporting'] };
+const POSTS_READ: ToolScopes = { token: 'ads', anyOf: ['r_organization_social'] };
+const POSTS_WRITE: ToolScopes = { token: 'ads', anyOf: ['w_organization_social'] };
+const ORGANIZATION_ADMIN: ToolScopes = { token: 'community', anyOf: ['rw_organization_admin', 'r_organization_admin'] };
+
+/** Scopes each registered tool needs */
+export const TOOL_SCOPES: Record<string, ToolScopes> = {
+  list_ad_accounts: ADS_READ,
+  get_ad_account: ADS_READ,
+  list_campaigns: ADS_READ,
+  get_campaign: ADS_READ,
+  get_campaigns_by_ids: ADS_READ,
+  create_campaign: ADS_WRITE,
+  update_campaign: ADS_WRITE,
+  delete_campaign: ADS_WRITE,
+  list_campaign_groups: ADS_READ,
+  create_campaign_group: ADS_WRITE,
+  update_campaign_group: ADS_WRITE,
+  list_creatives: ADS_READ,
+  get_creative: ADS_READ,
+  get_creatives_by_ids: ADS_READ,
+  create_creative: ADS_WRITE,
+  update_creative: ADS_WRITE,
+  delete_creative: ADS_WRITE,
+  get_analytics: ADS_REPORTING,
+  get_campaign_performance: ADS_REPORTING,
+  list_targeting_facets: ADS_READ,
+  search_targeting_entities: ADS_READ,
+  estimate_audience: ADS_READ,
+  create_post: POSTS_WRITE,
+  list_posts: POSTS_READ,
+  get_post: POSTS_READ,
+  update_post: POSTS_WRITE,
+  delete_post: POSTS_WRITE,
+  get_change_history: LOCAL,
+  undo_change: ADS_WRITE,
+  check_connection: LOCAL,
+  get_api_quota_usage: LOCAL,
+  get_share_statistics: ORGANIZATION_ADMIN,
+  get_follower_statistics: ORGANIZATION_ADMIN,
+  get_organization: ORGANIZATION_ADMIN,
+};
+
+/**
+ * How a token is checked: a cheap versioned finder that returns the authenticated member's roles
+ */
+interface TokenProbe {
+  resourcePath: string;
+  finderName: string;
+  /** Field of each element holding the member URN */
+  memberField: string;
+  /** Field of each element holding the entity the role applies to */
+  entityField: string;
+  /** Settings holding the app's client credentials, for the introspection hint */
+  credentials: string;
+}
+
+const PROBES: Record<ToolScopes['token'], TokenProbe> = {
+  ads: {
+    resourcePath: '/adAccountUsers',
+    finderName: 'authenticatedUser',
+    memberField: 'user',
+    entityField: 'account',
+    credentials: 'LINKEDIN_CLIENT_ID and LINKEDIN_CLIENT_SECRET (clientId and clientSecret in a profile)',
+  },
+  community: {
+    resourcePath: '/organizationAcls',
+    finderName: 'roleAssignee',
+    memberField: 'roleAssignee',
+    entityField: 'organization',
+    credentials:
+      'LINKEDIN_COMMUNITY_CLIENT_ID and LINKEDIN_COMMUNITY_CLIENT_SECRET (communityClientId and communityClientSecret in a profile)',
+  },
+};
+
+/**
+ * What check_connection found out about one token
+ */
+interface TokenReport {
+  configured: boolean;
+  /** False when LinkedIn reports the token inactive or rejects it, null when unknown */
+  valid?: boolean | null;
+  /** Token status from introspection, e.g. 'active', 'expired' or 'revoked' */
+  status?: string;
+  /** Granted scopes, null when they could not be determined */
+  scopes?: string[] | null;
+  scopesSource?: 'introspection' | 'token store';
+  expiresAt?: string;
+  refreshable?: boolean;
+  /** URN of the member the token acts for */
+  member?: string | null;
+  /** Roles of that member on ad accounts or organizations */
+  roles?: { entity: unknown; role: unknown }[];
+  introspection?: string;
+  error?: string;
+}
+
+/**
+ * Outcome of checking one token, including what its request said about the API version
+ */
+interface TokenCheck {
+  report: TokenReport;
+  /** True when the probe succeeded, false when LinkedIn rejected the version, null otherwise */
+  versionAccepted: boolean | null;
+  versionError?: string;
+}
+
+/**
+ * Check the Ads and Community Management tokens of a profile: scopes, expiry and member
+ * identity, whether LinkedIn accepts the configured API version, and which tools the scopes
+ * and the server's permission settings allow. Failures are reported in the result instead of being thrown.
+ */
+export async function checkConnection(
+  input: unknown,
+  client: LinkedInClient,
+  context?: ToolContext
+): Promise<string> {
+  CheckConnectionInputSchema.parse(input);
+
+  const communityClient = context?.communityClient;
+  const [ads, community] = await Promise.all([
+    checkToken(client, PROBES.ads),
+    communityClient !== undefined ? checkToken(communityClient, PROBES.community) : undefined,
+  ]);
+
+  const checks = community !== undefined ? [ads, community] : [ads];
+  const rejected = checks.find((check) => check.versionAccepted === false);
+  const accepted = rejected !== undefined
+    ? false
+    : checks.some((check) => check.versionAccepted === true) ? true : null;
+
+  const tokens = {
+    ads: ads.report,
+    community: community?.report ?? { configured: false },
+  };
+
+  return JSON.stringify(
+    {
+      profile: context?.profile,
+      apiVersion: {
+        version: client.getApiVersion(),
+        accepted,
+        error: rejected?.versionError,
+      },
+      tokens,
+      tools: toolAvailability(tokens, context?.toolAccess),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Report the calls the profile's clients made per endpoint today against their client-side limits.
+ * The counts are kept in memory, so they only cover this server process.
+ */
+export function getApiQuotaUsage(
+  input: unknown,
+  client: LinkedInClient,
+  context?: ToolContext
+): Promise<string> {
+  GetApiQuotaUsageInputSchema.parse(input);
+
+  const { date, resetsAt, endpoints } = client.getQuotaUsage();
+
+  return Promise.resolve(JSON.stringify(
+    {
+      profile: context?.profile,
+      date,
+      resetsAt,
+      ads: endpoints,
+      community: context?.communityClient?.getQuotaUsage().endpoints ?? null,
+    },
+    null,
+    2
+  ));
+}
+
+/**
+ * Call the probe finder with a token, then introspect it. The probe runs first so that
+ * a token renewed on the way is the one introspected.
+ */
+async function checkToken(client: LinkedInClient, probe: TokenProbe): Promise<TokenCheck> {
+  const report: TokenReport = { configured: true, valid: null, scopes: null };
+  let check: TokenCheck = { report, versionAccepted: null };
+
+  try {
+    const response = await client.finder<CollectionResponse<Record<string, unknown>>>(
+      probe.resourcePath,
+      probe.finderName
+    );
+    const elements = response.elements ?? [];
+    const member = elements[0]?.[probe.memberField];
+
+    report.valid = true;
+    report.member = typeof member === 'string' ? member : null;
+    report.roles = elements.map((element) => ({ entity: element[probe.entityField], role: element.role }));
+    check = { report, versionAccepted: true };
+  } catch (error) {
+    report.error = errorMessage(error);
+
+    if (error instanceof AuthenticationError) {
+      report.valid = false;
+    }
+
+    if (isVersionError(error)) {
+      check = { report, versionAccepted: false, versionError: errorMessage(error) };
+    }
+  }
+
+  const tokenStatus = client.getTokenStatus();
+  report.expiresAt = tokenStatus.expiresAt;
+  report.refreshable = tokenStatus.refreshable;
+
+  let introspection: TokenIntrospection | undefined;
+  try {
+    introspection = await client.introspectToken();
+    if (introspection === undefined) {
+      report.introspection = `skipped: set ${probe.credentials} to introspect the token`;
+    }
+  } catch (error) {
+    report.introspection = `failed: ${errorMessage(error)}`;
+  }
+
+  if (introspection !== undefined) {
+    report.valid = introspection.active;
+    report.status = introspection.status;
+    if (introspection.expires_at !== undefined) {
+      report.expiresAt = new Date(introspection.expires_at * 1000).toISOString();
+    }
+  }
+
+  if (introspection?.scope !== undefined) {
+    report.scopes = parseScopes(introspection.scope);
+    report.scopesSource = 'introspection';
+  } else if (tokenStatus.scope !== undefined) {
+    report.scopes = parseScopes(tokenStatus.scope);
+    report.scopesSource = 'token store';
+  }
+
+  return check;
+}
+
+/**
+ * Sort every registered tool into usable, unusable and unverified by the permission
+ * settings and the scopes of its token
+ */
+function toolAvailability(
+  tokens: Record<ToolScopes['token'], TokenReport>,
+  toolAccess: (tool: string) => ToolAccess = () => ({ allowed: true })
+): {
+  usable: string[];
+  unusable: { tool: string; reason: string }[];
+  unverified: string[];
+} {
+  const usable: string[] = [];
+  const unusable: { tool: string; reason: string }[] = [];
+  const unverified: string[] = [];
+
+  for (const [tool, { token, anyOf }] of Object.entries(TOOL_SCOPES)) {
+    const report = tokens[token];
+    const access = toolAccess(tool);
+
+    if (!access.allowed) {
+      unusable.push({ tool, reason: `the tool is disabled because ${access.reason}` });
+    } else if (anyOf.length === 0) {
+      usable.push(tool);
+    } else if (!report.configured) {
+      unusable.push({ tool, reason: `no ${token} token is configured` });
+    } else if (report.valid === false) {
+      unusable.push({ tool, reason: `the ${token} token is invalid, expired or revoked` });
+    } else if (report.scopes === null || report.scopes === undefined) {
+      unverified.push(tool);
+    } else if (anyOf.some((scope) => report.scopes?.includes(scope) === true)) {
+      usable.push(tool);
+    } else {
+      unusable.push({ tool, reason: `the ${token} token lacks the ${anyOf.join(' or ')} scope` });
+    }
+  }
+
+  return { usable, unusable, unverified };
+}
+
+/**
+ * Whether LinkedIn refused a request because of its LinkedIn-Version header
+ */
+function isVersionError(error: unknown): boolean {
+  return error instanceof LinkedInApiError && (error.statusCode === 426 || /VERSION/.test(error.errorCode ?? ''));
+}
+
+/**
+ * Split a scope string; LinkedIn separates scopes with commas or spaces
+ */
+function parseScopes(scope: string): string[] {
+  return scope.split(/[\s,]+/).filter((entry) => entry !== '');
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Tool definitions for registration with FastMCP
+ */
+export const connectionTools = {
+  check_connection: {
+    description:
+      'Check the credentials of a profile: scopes, expiry and member of the Ads and Community Management tokens, whether LinkedIn accepts the configured API version, and which tools the granted scopes and the permission settings of the server allow. Use it when calls fail with 401 or 403.',
+    parameters: CheckConnectionInputSchema,
+    handler: checkConnection,
+    annotations: {
+      title: 'Check Connection',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  get_api_quota_usage: {
+    description:
+      'Report the LinkedIn API calls made today (UTC) per endpoint with the Ads and Community Management tokens of a profile: calls, 429 responses, daily limits from LINKEDIN_RATE_LIMITS_FILE and remaining calls, plus requests in flight and queued. The counts cover only this server process: they start over when it restarts and do not include calls other apps make with the same token.',
+    parameters: GetApiQuotaUsageInputSchema,
+    handler: getApiQuotaUsage,
+    annotations: {
+      title: 'Get API Quota Usage',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+} satisfies Record<string, ToolDefinition>;
@@ -2,20 +2,34 @@ import type { LinkedInClient } from '../client.js';
 import {
   ListCreativesInputSchema,
   GetCreativeInputSchema,
+  GetCreativesByIdsInputSchema,
   CreateCreativeInputSchema,
   UpdateCreativeInputSchema,
   DeleteCreativeInputSchema,
+  type ToolContext,
+  type ToolDefinition,
 } from '../types.js';
-import { formatCreative, buildUrn } from '../utils/formatters.js';
+import { formatCreative, formatBatchError, buildUrn } from '../utils/formatters.js';
+import { fetchListPage } from '../utils/pagination.js';
+import {
+  isDryRun,
+  formatDryRun,
+  plannedCreate,
+  plannedPartialUpdate,
+  plannedDelete,
+} from '../utils/dry-run.js';
+import { auditMutation } from '../utils/audit-log.js';
+import { confirmations, formatConfirmationRequired } from '../utils/confirmation.js';
 
 /**
  * List creatives for an ad account, optionally filtered by campaign.
  */
 export async function listCreatives(
   input: unknown,
-  client: LinkedInClient
+  client: LinkedInClient,
+  context?: ToolContext
 ): Promise<string> {
-  const { accountId, campaignId } = ListCreativesInputSchema.parse(input);
+  const { accountId, campaignId, ...pagination } = ListCreativesInputSchema.parse(input);
 
   const queryParams: Record<string, unknown> = {};
 
@@ -23,18 +37,23 @@ export async function listCreatives(
     queryParams['search.campaign.values[0]'] = buildUrn('sponsoredCampaign', campaignId);
   }
 
-  const response = await client.finder<{ elements: Record<string, unknown>[] }>(
+  const page = await fetchListPage(
+    client,
     `/adAccounts/${accountId}/creatives`,
     'search',
-    queryParams
+    queryParams,
+    pagination,
+    context?.reportProgress
   );
 
-  const creatives = response.elements.map(formatCreative);
+  const creatives = page.elements.map(formatCreative);
 
   return JSON.stringify(
     {
       creatives,
       count: creatives.length,
+      nextPageToken: page.nextPageToken,
+      truncated: page.truncated,
     },
     null,
     2
@@ -58,12 +77,50 @@ export async function getCreative(
   return JSON.stringify(formatCreative(response), null, 2);
 }
 
+/**
+ * Get several creatives by ID in one request.
+ * IDs that cannot be fetched are reported individually instead of failing the whole call.
+ */
+export async function getCreativesByIds(
+  input: unknown,
+  client: LinkedInClient
+): Promise<string> {
+  const { accountId, creativeIds } = GetCreativesByIdsInputSchema.parse(input);
+
+  const ids = [...new Set(creativeIds)];
+
+  const batch = await client.batchGet<Record<string, unknown>>(
+    `/adAccounts/${accountId}/creatives`,
+    ids
+  );
+
+  const results = ids.map((id) => {
+    const raw = batch.results[id];
+    return raw !== undefined
+      ? { id, creative: formatCreative(raw) }
+      : { id, error: formatBatchError(batch, id) };
+  });
+
+  const found = results.filter((result) => 'creative' in result).length;
+
+  return JSON.stringify(
+    {
+      results,
+      found,
+      failed: results.length - found,
+    },
+    null,
+    2
+  );
+}
+
 /**
  * Create a new ad creative.
  */
 export async function createCreative(
   input: unknown,
-  client: LinkedInClient
+  client: LinkedInClient,
+  context?: ToolContext
 ): Promise<string> {
   const params = CreateCreativeInputSchema.parse(input);
 
@@ -101,9 +158,24 @@ export async function createCreative(
     };
   }
 
-  const response = await client.create<Record<string, unknown>>(
-    `/adAccounts/${params.accountId}/creatives`,
-    entity
+  const resourcePath = `/adAccounts/${params.accountId}/creatives`;
+
+  if (isDryRun(params.dryRun, context)) {
+    return formatDryRun(plannedCreate(resourcePath, entity));
+  }
+
+  const response = await auditMutation(
+    context,
+    client,
+    {
+      tool: 'create_creative',
+      input,
+      resourcePath,
+      urnType: 'sponsoredCreative',
+      accountId: params.accountId,
+      campaignId: params.campaignId,
+    },
+    () => client.create<Record<string, unknown>>(resourcePath, entity)
   );
 
   return JSON.stringify(
@@ -121,9 +193,10 @@ export async function createCreative(
  */
 export async function updateCreative(
   input: unknown,
-  client: LinkedInClient
+  client: LinkedInClient,
+  context?: ToolContext
 ): Promise<string> {
-  const { accountId, creativeId, ...updates } = UpdateCreativeInputSchema.parse(input);
+  const { accountId, creativeId, dryRun, ...updates } = UpdateCreativeInputSchema.parse(input);
 
   const patchSet: Record<string, unknown> = {};
 
@@ -137,16 +210,22 @@ export async function updateCreative(
     patchSet['variables.clickUri'] = updates.destinationUrl;
   }
 
-  await client.partialUpdate(
-    `/adAccounts/${accountId}/creatives`,
-    creativeId,
-    patchSet
-  );
+  const resourcePath = `/adAccounts/${accountId}/creatives`;
 
-  // Fetch and return the updated creative
-  const updated = await client.get<Record<string, unknown>>(
-    `/adAccounts/${accountId}/creatives`,
-    creativeId
+  if (isDryRun(dryRun, context)) {
+    return formatDryRun(plannedPartialUpdate(resourcePath, creativeId, patchSet));
+  }
+
+  const updated = await auditMutation(
+    context,
+    client,
+    { tool: 'update_creative', input, resourcePath, key: creativeId, urnType: 'sponsoredCreative', accountId },
+    async () => {
+      await client.partialUpdate(resourcePath, creativeId, patchSet);
+
+      // Fetch and return the updated creative
+      return client.get<Record<string, unknown>>(resourcePath, creativeId);
+    }
   );
 
   return JSON.stringify(
@@ -161,14 +240,45 @@ export async function updateCreative(
 
 /**
  * Delete a creative.
+ * Without a confirmationToken this only previews the creative and issues a token.
  */
 export async function deleteCreative(
   input: unknown,
-  client: LinkedInClient
+  client: LinkedInClient,
+  context?: ToolContext
 ): Promise<string> {
-  const { accountId, creativeId } = DeleteCreativeInputSchema.parse(input);
+  const { accountId, creativeId, dryRun, confirmationToken } = DeleteCreativeInputSchema.parse(input);
+
+  const resourcePath = `/adAccounts/${accountId}/creatives`;
 
-  await client.delete(`/adAccounts/${accountId}/creatives`, creativeId);
+  if (isDryRun(dryRun, context)) {
+    return formatDryRun(plannedDelete(resourcePath, creativeId));
+  }
+
+  const target = `${resourcePath}/${creativeId}`;
+
+  if (confirmationToken === undefined) {
+    const creative = await client.get<Record<string, unknown>>(resourcePath, creativeId);
+    return formatConfirmationRequired(
+      'delete_creative',
+      target,
+      'This permanently deletes the creative below',
+      formatCreative(creative),
+      context
+    );
+  }
+
+  await confirmations.redeem(confirmationToken, 'delete_creative', target, context ?? {}, () =>
+    auditMutation(
+      context,
+      client,
+      { tool: 'delete_creative', input, resourcePath, key: creativeId, urnType: 'sponsoredCreative', accountId },
+      async () => {
+        await client.delete(resourcePath, creativeId);
+        return null;
+      }
+    )
+  );
 
   return JSON.stringify(
     {
@@ -185,28 +295,78 @@ export async function deleteCreative(
  */
 export const creativeTools = {
   list_creatives: {
-    description: 'List ad creatives for a LinkedIn ad account, optionally filtered by campaign',
+    description:
+      'List ad creatives for a LinkedIn ad account, optionally filtered by campaign. Paginated: pass nextPageToken back as pageToken, or set fetchAll to collect every page.',
     parameters: ListCreativesInputSchema,
     handler: listCreatives,
+    annotations: {
+      title: 'List Creatives',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   get_creative: {
     description: 'Get detailed information about a specific LinkedIn ad creative',
     parameters: GetCreativeInputSchema,
     handler: getCreative,
+    annotations: {
+      title: 'Get Creative',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  get_creatives_by_ids: {
+    description:
+      'Get several LinkedIn ad creatives by ID in one call. Returns a result per ID; IDs that fail (e.g. not found) carry an error instead of failing the whole call.',
+    parameters: GetCreativesByIdsInputSchema,
+    handler: getCreativesByIds,
+    annotations: {
+      title: 'Get Creatives by ID',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   create_creative: {
     description: 'Create a new LinkedIn ad creative (text ad, sponsored content, etc.)',
     parameters: CreateCreativeInputSchema,
     handler: createCreative,
+    annotations: {
+      title: 'Create Creative',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
   },
   update_creative: {
     description: 'Update an existing LinkedIn ad creative (limited to status and destination URL)',
     parameters: UpdateCreativeInputSchema,
     handler: updateCreative,
+    annotations: {
+      title: 'Update Creative',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   delete_creative: {
-    description: 'Delete a LinkedIn ad creative',
+    description:
+      'Permanently delete a LinkedIn ad creative. Takes two calls: the first returns a preview and a confirmationToken, the second (with the token) deletes.',
     parameters: DeleteCreativeInputSchema,
     handler: deleteCreative,
+    annotations: {
+      title: 'Delete Creative',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
-};
+} satisfies Record<string, ToolDefinition>;
@@ -12,3 +12,4 @@ export * from './analytics.js';
 export * from './targeting.js';
 export * from './posts.js';
 export * from './organization-analytics.js';
+export * from './connection.js';
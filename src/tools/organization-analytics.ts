@@ -8,6 +8,7 @@ import {
   type ShareStatistics,
   type FollowerStatistics,
   type OrganizationSummary,
+  type ToolDefinition,
 } from '../types.js';
 import { buildUrn, dateToEpochMs, epochMsToIso } from '../utils/formatters.js';
 
@@ -395,17 +396,38 @@ export const organizationAnalyticsTools = {
       'Get engagement statistics for an organization\'s posts: impressions, clicks, likes, comments, shares. Requires Community Management API access (separate app with rw_organization_admin scope).',
     parameters: GetShareStatisticsInputSchema,
     handler: getShareStatistics,
+    annotations: {
+      title: 'Get Share Statistics',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   get_follower_statistics: {
     description:
       'Get follower statistics for an organization: total followers, organic vs paid, and demographic breakdowns (job function, seniority, industry, location, company size). Requires Community Management API access.',
     parameters: GetFollowerStatisticsInputSchema,
     handler: getFollowerStatistics,
+    annotations: {
+      title: 'Get Follower Statistics',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   get_organization: {
     description:
       'Get details about a LinkedIn organization/company page: name, vanity name, description, website, industries array, specialties array, staff count range, logo URL. Requires Community Management API access.',
     parameters: GetOrganizationInputSchema,
     handler: getOrganization,
+    annotations: {
+      title: 'Get Organization',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
-};
+} satisfies Record<string, ToolDefinition>;
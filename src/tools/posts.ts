@@ -6,8 +6,19 @@ import {
   GetPostInputSchema,
   UpdatePostInputSchema,
   DeletePostInputSchema,
+  type ToolContext,
+  type ToolDefinition,
 } from '../types.js';
 import { formatPost, buildUrn } from '../utils/formatters.js';
+import {
+  isDryRun,
+  formatDryRun,
+  plannedCreate,
+  plannedPartialUpdate,
+  plannedDelete,
+} from '../utils/dry-run.js';
+import { auditMutation } from '../utils/audit-log.js';
+import { confirmations, formatConfirmationRequired } from '../utils/confirmation.js';
 
 /**
  * Create a new post on a LinkedIn organization/company page.
@@ -15,9 +26,10 @@ import { formatPost, buildUrn } from '../utils/formatters.js';
  */
 export async function createPost(
   input: unknown,
-  client: LinkedInClient
+  client: LinkedInClient,
+  context?: ToolContext
 ): Promise<string> {
-  const { organizationId, text, visibility, linkUrl, isDarkPost } = CreatePostInputSchema.parse(input);
+  const { organizationId, text, visibility, linkUrl, isDarkPost, dryRun } = CreatePostInputSchema.parse(input);
 
   const authorUrn = buildUrn('organization', organizationId);
 
@@ -44,7 +56,16 @@ export async function createPost(
     };
   }
 
-  const response = await client.create<Record<string, unknown>>('/posts', postEntity);
+  if (isDryRun(dryRun, context)) {
+    return formatDryRun(plannedCreate('/posts', postEntity));
+  }
+
+  const response = await auditMutation(
+    context,
+    client,
+    { tool: 'create_post', input, resourcePath: '/posts', urnType: 'share' },
+    () => client.create<Record<string, unknown>>('/posts', postEntity)
+  );
 
   // The response includes the created post ID
   const postId = response.id ?? response['x-restli-id'];
@@ -137,15 +158,27 @@ export async function getPost(
  */
 export async function updatePost(
   input: unknown,
-  client: LinkedInClient
+  client: LinkedInClient,
+  context?: ToolContext
 ): Promise<string> {
-  const { postUrn, text } = UpdatePostInputSchema.parse(input);
+  const { postUrn, text, dryRun } = UpdatePostInputSchema.parse(input);
 
   const encodedUrn = encodeURIComponent(postUrn);
+  const patchSet = { commentary: text };
 
-  await client.partialUpdate('/posts', encodedUrn, {
-    commentary: text,
-  });
+  if (isDryRun(dryRun, context)) {
+    return formatDryRun(plannedPartialUpdate('/posts', encodedUrn, patchSet));
+  }
+
+  await auditMutation(
+    context,
+    client,
+    { tool: 'update_post', input, resourcePath: '/posts', key: encodedUrn, urnType: 'share', readAfter: true },
+    async () => {
+      await client.partialUpdate('/posts', encodedUrn, patchSet);
+      return null;
+    }
+  );
 
   return JSON.stringify(
     {
@@ -161,17 +194,43 @@ export async function updatePost(
 
 /**
  * Delete a post.
- * Only the author can delete their posts.
+ * Only the author can delete their posts. Without a confirmationToken this only previews the post and issues a token.
  */
 export async function deletePost(
   input: unknown,
-  client: LinkedInClient
+  client: LinkedInClient,
+  context?: ToolContext
 ): Promise<string> {
-  const { postUrn } = DeletePostInputSchema.parse(input);
+  const { postUrn, dryRun, confirmationToken } = DeletePostInputSchema.parse(input);
 
   const encodedUrn = encodeURIComponent(postUrn);
 
-  await client.delete('/posts', encodedUrn);
+  if (isDryRun(dryRun, context)) {
+    return formatDryRun(plannedDelete('/posts', encodedUrn));
+  }
+
+  if (confirmationToken === undefined) {
+    const post = await client.get<Record<string, unknown>>('/posts', encodedUrn);
+    return formatConfirmationRequired(
+      'delete_post',
+      postUrn,
+      'This permanently deletes the post below',
+      formatPost(post),
+      context
+    );
+  }
+
+  await confirmations.redeem(confirmationToken, 'delete_post', postUrn, context ?? {}, () =>
+    auditMutation(
+      context,
+      client,
+      { tool: 'delete_post', input, resourcePath: '/posts', key: encodedUrn, urnType: 'share' },
+      async () => {
+        await client.delete('/posts', encodedUrn);
+        return null;
+      }
+    )
+  );
 
   return JSON.stringify(
     {
@@ -193,28 +252,63 @@ export const postTools = {
       'Create a new post on a LinkedIn company/organization page. Supports text posts and link posts with previews. Use isDarkPost=true for ad-only content that won\'t appear on the page feed.',
     parameters: CreatePostInputSchema,
     handler: createPost,
+    annotations: {
+      title: 'Create Post',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
   },
   list_posts: {
     description:
       'List recent posts from a LinkedIn company/organization page. Returns posts sorted by last modified date.',
     parameters: ListPostsInputSchema,
     handler: listPosts,
+    annotations: {
+      title: 'List Posts',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   get_post: {
     description: 'Get details of a specific LinkedIn post by its URN',
     parameters: GetPostInputSchema,
     handler: getPost,
+    annotations: {
+      title: 'Get Post',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   update_post: {
     description:
       'Update the text content of an existing LinkedIn post. Only the post author can update.',
     parameters: UpdatePostInputSchema,
     handler: updatePost,
+    annotations: {
+      title: 'Update Post',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   delete_post: {
     description:
-      'Delete a LinkedIn post. Only the post author can delete. This action is irreversible.',
+      'Delete a LinkedIn post. Only the post author can delete. This action is irreversible, so it takes two calls: the first returns a preview and a confirmationToken, the second (with the token) deletes.',
     parameters: DeletePostInputSchema,
     handler: deletePost,
+    annotations: {
+      title: 'Delete Post',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
-};
+} satisfies Record<string, ToolDefinition>;
@@ -3,6 +3,7 @@ import {
   ListTargetingFacetsInputSchema,
   SearchTargetingEntitiesInputSchema,
   EstimateAudienceInputSchema,
+  type ToolDefinition,
 } from '../types.js';
 
 /**
@@ -156,15 +157,36 @@ export const targetingTools = {
     description: 'List available LinkedIn targeting dimensions (locations, industries, seniorities, etc.)',
     parameters: ListTargetingFacetsInputSchema,
     handler: listTargetingFacets,
+    annotations: {
+      title: 'List Targeting Facets',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   search_targeting_entities: {
     description: 'Search for specific targeting values within a facet (e.g., search for locations, job titles)',
     parameters: SearchTargetingEntitiesInputSchema,
     handler: searchTargetingEntities,
+    annotations: {
+      title: 'Search Targeting Entities',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
   estimate_audience: {
     description: 'Estimate the audience size for given targeting criteria',
     parameters: EstimateAudienceInputSchema,
     handler: estimateAudience,
+    annotations: {
+      title: 'Estimate Audience',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
   },
-};
+} satisfies Record<string, ToolDefinition>;
@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import type { LinkedInClient } from './client.js';
+import type { AuditLog } from './utils/audit-log.js';
+import type { ToolAccess } from './utils/tool-access.js';
 
 // ============================================================================
 // LinkedIn URN Types
@@ -95,15 +98,70 @@ export const DateRangeSchema = z.object({
 });
 export type DateRange = z.infer<typeof DateRangeSchema>;
 
+/** Hard cap on the number of results a fetchAll list request will collect */
+export const FETCH_ALL_MAX_RESULTS = 2000;
+
+/** Maximum number of IDs accepted by the batch lookup tools */
+export const MAX_BATCH_IDS = 100;
+
+/** Pagination fields shared by the finder-based list tools */
+const paginationFields = {
+  pageSize: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe('Number of results per page (LinkedIn default when omitted)'),
+  pageToken: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('nextPageToken from a previous response, to fetch the following page'),
+  fetchAll: z
+    .boolean()
+    .default(false)
+    .describe(`Follow nextPageToken until every page is fetched (capped at ${FETCH_ALL_MAX_RESULTS} results)`),
+};
+
+/** Dry-run flag shared by the mutating tools */
+const dryRunFields = {
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('Validate and return the request that would be sent, without calling LinkedIn (defaults to LINKEDIN_DRY_RUN)'),
+};
+
+/** Credentials profile selector shared by every tool */
+const profileFields = {
+  profile: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Credentials profile to act as, from LINKEDIN_PROFILES_FILE (defaults to the server default profile)'),
+};
+
+/** Confirmation token field shared by the irreversible tools */
+const confirmationFields = {
+  confirmationToken: z
+    .string()
+    .optional()
+    .describe('Token from the preview returned by the first call; required to actually perform the deletion'),
+};
+
 // ============================================================================
 // Tool Input Schemas
 // ============================================================================
 
 // Account Tools
-export const ListAdAccountsInputSchema = z.object({});
+export const ListAdAccountsInputSchema = z.object({
+  ...paginationFields,
+  ...profileFields,
+});
 
 export const GetAdAccountInputSchema = z.object({
   accountId: z.string().describe('The ad account ID (numeric, without URN prefix)'),
+  ...profileFields,
 });
 
 // Campaign Tools
@@ -111,11 +169,24 @@ export const ListCampaignsInputSchema = z.object({
   accountId: z.string().describe('The ad account ID'),
   status: CampaignStatus.optional().describe('Filter by campaign status'),
   campaignGroupId: z.string().optional().describe('Filter by campaign group ID'),
+  ...paginationFields,
+  ...profileFields,
 });
 
 export const GetCampaignInputSchema = z.object({
   accountId: z.string().describe('The ad account ID'),
   campaignId: z.string().describe('The campaign ID'),
+  ...profileFields,
+});
+
+export const GetCampaignsByIdsInputSchema = z.object({
+  accountId: z.string().describe('The ad account ID'),
+  campaignIds: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(MAX_BATCH_IDS)
+    .describe(`Campaign IDs to fetch (up to ${MAX_BATCH_IDS})`),
+  ...profileFields,
 });
 
 export const CreateCampaignInputSchema = z.object({
@@ -128,6 +199,8 @@ export const CreateCampaignInputSchema = z.object({
   startDate: z.string().optional().describe('Start date in ISO format (defaults to now)'),
   endDate: z.string().optional().describe('End date in ISO format (optional)'),
   status: z.enum(['ACTIVE', 'PAUSED', 'DRAFT']).default('DRAFT').describe('Initial status'),
+  ...dryRunFields,
+  ...profileFields,
 });
 
 export const UpdateCampaignInputSchema = z.object({
@@ -137,16 +210,22 @@ export const UpdateCampaignInputSchema = z.object({
   status: z.enum(['ACTIVE', 'PAUSED', 'ARCHIVED']).optional().describe('New status'),
   dailyBudget: z.number().positive().optional().describe('New daily budget'),
   endDate: z.string().optional().describe('New end date in ISO format'),
+  ...dryRunFields,
+  ...profileFields,
 });
 
 export const DeleteCampaignInputSchema = z.object({
   accountId: z.string().describe('The ad account ID'),
   campaignId: z.string().describe('The campaign ID'),
+  ...dryRunFields,
+  ...profileFields,
 });
 
 // Campaign Group Tools
 export const ListCampaignGroupsInputSchema = z.object({
   accountId: z.string().describe('The ad account ID'),
+  ...paginationFields,
+  ...profileFields,
 });
 
 export const CreateCampaignGroupInputSchema = z.object({
@@ -156,6 +235,8 @@ export const CreateCampaignGroupInputSchema = z.object({
   startDate: z.string().optional().describe('Start date in ISO format'),
   endDate: z.string().optional().describe('End date in ISO format'),
   status: z.enum(['ACTIVE', 'PAUSED']).default('ACTIVE').describe('Initial status'),
+  ...dryRunFields,
+  ...profileFields,
 });
 
 export const UpdateCampaignGroupInputSchema = z.object({
@@ -165,17 +246,32 @@ export const UpdateCampaignGroupInputSchema = z.object({
   status: z.enum(['ACTIVE', 'PAUSED', 'ARCHIVED']).optional().describe('New status'),
   totalBudget: z.number().positive().optional().describe('New budget cap'),
   endDate: z.string().optional().describe('New end date'),
+  ...dryRunFields,
+  ...profileFields,
 });
 
 // Creative Tools
 export const ListCreativesInputSchema = z.object({
   accountId: z.string().describe('The ad account ID'),
   campaignId: z.string().optional().describe('Filter by campaign ID'),
+  ...paginationFields,
+  ...profileFields,
 });
 
 export const GetCreativeInputSchema = z.object({
   accountId: z.string().describe('The ad account ID'),
   creativeId: z.string().describe('The creative ID'),
+  ...profileFields,
+});
+
+export const GetCreativesByIdsInputSchema = z.object({
+  accountId: z.string().describe('The ad account ID'),
+  creativeIds: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(MAX_BATCH_IDS)
+    .describe(`Creative IDs to fetch (up to ${MAX_BATCH_IDS})`),
+  ...profileFields,
 });
 
 export const CreateCreativeInputSchema = z.object({
@@ -187,6 +283,8 @@ export const CreateCreativeInputSchema = z.object({
   destinationUrl: z.string().url().describe('Click-through URL'),
   imageUrl: z.string().url().optional().describe('Image URL (for sponsored content)'),
   status: z.enum(['ACTIVE', 'PAUSED']).default('ACTIVE').describe('Initial status'),
+  ...dryRunFields,
+  ...profileFields,
 });
 
 export const UpdateCreativeInputSchema = z.object({
@@ -195,11 +293,16 @@ export const UpdateCreativeInputSchema = z.object({
   status: z.enum(['ACTIVE', 'PAUSED']).optional().describe('New status'),
   text: z.string().max(600).optional().describe('Updated ad copy'),
   destinationUrl: z.string().url().optional().describe('Updated click-through URL'),
+  ...dryRunFields,
+  ...profileFields,
 });
 
 export const DeleteCreativeInputSchema = z.object({
   accountId: z.string().describe('The ad account ID'),
   creativeId: z.string().describe('The creative ID'),
+  ...dryRunFields,
+  ...confirmationFields,
+  ...profileFields,
 });
 
 // Analytics Tools
@@ -210,6 +313,7 @@ export const GetAnalyticsInputSchema = z.object({
   pivot: AnalyticsPivot.default('CAMPAIGN').describe('Grouping dimension'),
   campaignIds: z.array(z.string()).optional().describe('Filter to specific campaign IDs'),
   metrics: z.array(z.string()).optional().describe('Specific metrics to return'),
+  ...profileFields,
 });
 
 export const GetCampaignPerformanceInputSchema = z.object({
@@ -217,10 +321,13 @@ export const GetCampaignPerformanceInputSchema = z.object({
   campaignId: z.string().describe('The campaign ID'),
   startDate: z.string().describe('Start date in YYYY-MM-DD format'),
   endDate: z.string().describe('End date in YYYY-MM-DD format'),
+  ...profileFields,
 });
 
 // Targeting Tools
-export const ListTargetingFacetsInputSchema = z.object({});
+export const ListTargetingFacetsInputSchema = z.object({
+  ...profileFields,
+});
 
 export const SearchTargetingEntitiesInputSchema = z.object({
   facet: z.enum([
@@ -235,6 +342,7 @@ export const SearchTargetingEntitiesInputSchema = z.object({
   ]).describe('Targeting facet type'),
   query: z.string().optional().describe('Search term'),
   limit: z.number().min(1).max(100).default(20).describe('Max results'),
+  ...profileFields,
 });
 
 export const EstimateAudienceInputSchema = z.object({
@@ -244,6 +352,7 @@ export const EstimateAudienceInputSchema = z.object({
   includedSeniorities: z.array(z.string()).optional().describe('Seniority URNs'),
   includedJobFunctions: z.array(z.string()).optional().describe('Job function URNs'),
   excludedSeniorities: z.array(z.string()).optional().describe('Seniorities to exclude'),
+  ...profileFields,
 });
 
 // ============================================================================
@@ -284,6 +393,12 @@ export interface CreativeSummary {
   text?: string;
 }
 
+/** Per-ID outcome of a batch lookup that could not return an entity */
+export interface BatchItemError {
+  status: number;
+  message: string;
+}
+
 export interface AnalyticsMetrics {
   impressions: number;
   clicks: number;
@@ -315,6 +430,8 @@ export const CreatePostInputSchema = z.object({
   visibility: PostVisibility.default('PUBLIC').describe('Post visibility: PUBLIC, CONNECTIONS, or LOGGED_IN'),
   linkUrl: z.string().url().optional().describe('Optional URL to include in the post (creates link preview)'),
   isDarkPost: z.boolean().default(false).describe('If true, post will not appear on company page feed (for ads only)'),
+  ...dryRunFields,
+  ...profileFields,
 });
 
 export const ListPostsInputSchema = z.object({
@@ -324,6 +441,7 @@ export const ListPostsInputSchema = z.object({
     .describe('The organization/company page ID'),
   count: z.number().min(1).max(100).default(10).describe('Number of posts to return (max 100)'),
   start: z.number().min(0).default(0).describe('Pagination offset'),
+  ...profileFields,
 });
 
 export const GetPostInputSchema = z.object({
@@ -331,6 +449,7 @@ export const GetPostInputSchema = z.object({
     .string()
     .regex(/^urn:li:/, 'postUrn must be a LinkedIn URN')
     .describe('The post URN (e.g., urn:li:share:123456 or urn:li:ugcPost:123456)'),
+  ...profileFields,
 });
 
 export const UpdatePostInputSchema = z.object({
@@ -339,6 +458,8 @@ export const UpdatePostInputSchema = z.object({
     .regex(/^urn:li:/, 'postUrn must be a LinkedIn URN')
     .describe('The post URN to update'),
   text: z.string().min(1).max(3000).describe('Updated post text'),
+  ...dryRunFields,
+  ...profileFields,
 });
 
 export const DeletePostInputSchema = z.object({
@@ -346,6 +467,9 @@ export const DeletePostInputSchema = z.object({
     .string()
     .regex(/^urn:li:/, 'postUrn must be a LinkedIn URN')
     .describe('The post URN to delete'),
+  ...dryRunFields,
+  ...confirmationFields,
+  ...profileFields,
 });
 
 // Posts Response Types
@@ -405,6 +529,7 @@ export const GetShareStatisticsInputSchema = z.object({
     .optional()
     .describe('End date in YYYY-MM-DD format (optional)'),
   granularity: TimeGranularity.default('DAY').describe('Time granularity: DAY or MONTH'),
+  ...profileFields,
 }).superRefine(validateStartWhenEndProvided);
 
 export const GetFollowerStatisticsInputSchema = z.object({
@@ -423,6 +548,7 @@ export const GetFollowerStatisticsInputSchema = z.object({
     .optional()
     .describe('End date in YYYY-MM-DD format (optional)'),
   granularity: TimeGranularity.default('DAY').describe('Time granularity: DAY or MONTH'),
+  ...profileFields,
 }).superRefine(validateStartWhenEndProvided);
 
 export const GetOrganizationInputSchema = z.object({
@@ -430,6 +556,7 @@ export const GetOrganizationInputSchema = z.object({
     .string()
     .regex(/^\d+$/, 'organizationId must be a numeric string')
     .describe('The organization/company page ID'),
+  ...profileFields,
 });
 
 // Organization Statistics Response Types
@@ -492,3 +619,204 @@ export interface OrganizationSummary {
   staffCount?: string;
   logoUrl?: string;
 }
+
+// ============================================================================
+// Change History
+// ============================================================================
+
+/** Maximum number of audit records returned by get_change_history */
+export const MAX_CHANGE_HISTORY_RESULTS = 500;
+
+/** YYYY-MM-DD or a full ISO 8601 timestamp */
+const isoDateOrDateTime = z.string().date().or(z.string().datetime({ offset: true }));
+
+export const GetChangeHistoryInputSchema = z.object({
+  accountId: z.string().optional().describe('Only changes in this ad account'),
+  campaignId: z.string().optional().describe('Only changes to this campaign or its creatives'),
+  resourceUrn: z.string().optional().describe('Only changes to this entity, e.g. urn:li:sponsoredCampaignGroup:123'),
+  tool: z.string().optional().describe('Only changes made by this tool, e.g. update_campaign'),
+  since: isoDateOrDateTime.optional().describe('Only changes at or after this time (ISO 8601 date or date-time)'),
+  until: isoDateOrDateTime.optional().describe('Only changes before this time (ISO 8601 date or date-time)'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_CHANGE_HISTORY_RESULTS)
+    .default(50)
+    .describe(`Maximum number of changes to return, newest first (1-${MAX_CHANGE_HISTORY_RESULTS})`),
+  ...profileFields,
+});
+
+export const UndoChangeInputSchema = z.object({
+  changeId: z.string().min(1).describe('ID of the audit record to undo, from get_change_history'),
+  ...dryRunFields,
+  ...profileFields,
+});
+
+// ============================================================================
+// Connection Diagnostics
+// ============================================================================
+
+export const CheckConnectionInputSchema = z.object({
+  ...profileFields,
+});
+
+// ============================================================================
+// Spend Policy
+// ============================================================================
+
+/** Budget guardrails for one ad account; amounts are in the account currency */
+export const AccountSpendPolicySchema = z.object({
+  /** Highest campaign dailyBudget that may be set */
+  maxDailyBudget: z.number().positive().optional(),
+  /** Highest campaign group totalBudget that may be set */
+  maxTotalBudget: z.number().positive().optional(),
+  /** Largest increase over the current budget allowed in a single update, in percent */
+  maxBudgetIncreasePercent: z.number().nonnegative().optional(),
+  /** Objective types new campaigns may use */
+  allowedObjectiveTypes: z.array(ObjectiveType).min(1).optional(),
+}).strict();
+export type AccountSpendPolicy = z.infer<typeof AccountSpendPolicySchema>;
+
+/** Contents of the LINKEDIN_SPEND_POLICY_FILE; account entries override defaults rule by rule */
+export const SpendPolicySchema = z.object({
+  defaults: AccountSpendPolicySchema.default({}),
+  accounts: z.record(z.string(), AccountSpendPolicySchema).default({}),
+}).strict();
+export type SpendPolicy = z.infer<typeof SpendPolicySchema>;
+
+// ============================================================================
+// Rate Limits
+// ============================================================================
+
+/** Client-side limits for one LinkedIn endpoint */
+export const EndpointRateLimitSchema = z.object({
+  /** Requests to the endpoint that may be in flight at once */
+  maxConcurrent: z.number().int().positive().optional(),
+  /** Sustained request rate */
+  requestsPerMinute: z.number().positive().optional(),
+  /** Requests that may be sent back to back before requestsPerMinute applies (default: requestsPerMinute) */
+  burst: z.number().int().positive().optional(),
+  /** Calls allowed per UTC day; further calls are refused without contacting LinkedIn */
+  dailyLimit: z.number().int().positive().optional(),
+}).strict();
+export type EndpointRateLimit = z.infer<typeof EndpointRateLimitSchema>;
+
+/**
+ * Contents of the LINKEDIN_RATE_LIMITS_FILE. Endpoints are resource paths with IDs
+ * replaced by `{id}` (e.g. /adAccounts/{id}/adCampaigns); their entries override defaults limit by limit.
+ */
+export const RateLimitPolicySchema = z.object({
+  /** Requests that may be in flight at once across all endpoints */
+  maxConcurrent: z.number().int().positive().default(8),
+  defaults: EndpointRateLimitSchema.default({ maxConcurrent: 4 }),
+  endpoints: z.record(z.string(), EndpointRateLimitSchema).default({}),
+}).strict();
+export type RateLimitPolicy = z.infer<typeof RateLimitPolicySchema>;
+
+export const GetApiQuotaUsageInputSchema = z.object({
+  ...profileFields,
+});
+
+// ============================================================================
+// Retry Policy
+// ============================================================================
+
+/** Contents of the LINKEDIN_RETRY_POLICY_FILE */
+export const RetryPolicySchema = z.object({
+  /** Retries after the first attempt of a request */
+  maxRetries: z.number().int().nonnegative().default(3),
+  /** Upper bound of the first backoff; it doubles with every retry */
+  baseDelayMs: z.number().int().positive().default(1000),
+  /** Upper bound of any single backoff */
+  maxDelayMs: z.number().int().positive().default(30_000),
+  /** Time a request may spend waiting between attempts, Retry-After included */
+  maxTotalWaitMs: z.number().int().nonnegative().default(60_000),
+  /** Time LinkedIn has to answer each attempt before it is aborted */
+  requestTimeoutMs: z.number().int().positive().default(30_000),
+  /** HTTP statuses retried like network errors */
+  retryOnStatus: z.array(z.number().int().min(500).max(599)).default([500, 502, 503, 504]),
+  circuitBreaker: z.object({
+    /** Consecutive failed attempts that open the circuit */
+    failureThreshold: z.number().int().positive().default(5),
+    /** Time calls fail fast before one trial request is let through */
+    resetAfterMs: z.number().int().positive().default(30_000),
+  }).strict().default({}),
+}).strict();
+export type RetryPolicy = z.infer<typeof RetryPolicySchema>;
+
+// ============================================================================
+// HTTP Transport
+// ============================================================================
+
+/** API key accepted by the HTTP transport */
+export const ApiKeySchema = z.object({
+  /** Who the key belongs to, for logs */
+  name: z.string().min(1),
+  key: z.string().min(16, 'API keys must be at least 16 characters long'),
+  /** Credentials profile every session of the key runs as; any profile when omitted */
+  profile: z.string().min(1).optional(),
+}).strict();
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+
+/** Contents of the LINKEDIN_MCP_API_KEYS_FILE */
+export const ApiKeysFileSchema = z.object({
+  apiKeys: z.array(ApiKeySchema).min(1),
+}).strict();
+
+// ============================================================================
+// Tool Context
+// ============================================================================
+
+/**
+ * Reports how far a tool call has got, e.g. elements fetched out of the collection total
+ */
+export type ProgressReporter = (progress: number, total?: number) => void;
+
+/**
+ * Server-level settings passed to tool handlers alongside the LinkedIn client
+ */
+export interface ToolContext {
+  /** Credentials profile the tool runs as */
+  profile?: string;
+  /** Name of the API key the HTTP session authenticated with; undefined over stdio */
+  apiKeyName?: string;
+  /** Default for the dryRun input of mutating tools (LINKEDIN_DRY_RUN) */
+  dryRun: boolean;
+  /** Budget guardrails from LINKEDIN_SPEND_POLICY_FILE, if configured */
+  spendPolicy?: SpendPolicy;
+  /** Audit log every mutation is appended to (LINKEDIN_AUDIT_LOG_FILE), if configured */
+  auditLog?: AuditLog;
+  /** Community Management client of the profile, if it has a community token */
+  communityClient?: LinkedInClient;
+  /** Sends MCP progress notifications, when the client asked for them */
+  reportProgress?: ProgressReporter;
+  /** Whether a tool is enabled by LINKEDIN_READ_ONLY, LINKEDIN_TOOLS_ALLOW and LINKEDIN_TOOLS_DENY */
+  toolAccess?: (tool: string) => ToolAccess;
+}
+
+/**
+ * Behavior hints for MCP clients, e.g. to auto-approve read-only tools (MCP specification 2025-03-26)
+ */
+export interface ToolAnnotations {
+  /** Human-readable name for display */
+  title: string;
+  /** The tool does not modify its environment */
+  readOnlyHint: boolean;
+  /** The tool may overwrite or remove existing data; only meaningful when not read-only */
+  destructiveHint: boolean;
+  /** Repeating a call with the same arguments has no additional effect */
+  idempotentHint: boolean;
+  /** The tool talks to LinkedIn rather than only local state */
+  openWorldHint: boolean;
+}
+
+/**
+ * A tool of one of the `*Tools` objects in src/tools
+ */
+export interface ToolDefinition {
+  description: string;
+  parameters: z.ZodTypeAny;
+  handler: (input: unknown, client: LinkedInClient, context?: ToolContext) => Promise<string>;
+  annotations: ToolAnnotations;
+}
@@ -0,0 +1,268 @@
+import { appendFileSync, existsSync, mkdirSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import type { LinkedInClient } from '../client.js';
+import type { ToolContext } from '../types.js';
+import { buildUrn, extractIdFromUrn } from './formatters.js';
+import { SILENT_LOGGER, type Logger } from './logger.js';
+
+/**
+ * Append-only JSONL audit log of every mutation sent to LinkedIn.
+ *
+ * Each record carries the tool input, the entity as it was before the change
+ * (read with client.get) and after it, and whether LinkedIn accepted it.
+ */
+
+/**
+ * One line of the audit log
+ */
+export interface AuditRecord {
+  /** Unique ID of this record */
+  id: string;
+  timestamp: string;
+  tool: string;
+  input: unknown;
+  /** Credentials profile the change was made with */
+  profile?: string;
+  /** Name of the API key of the HTTP session that made the change; absent over stdio */
+  apiKeyName?: string;
+  /** URN of the changed entity, or null when a create failed before an ID was assigned */
+  resourceUrn: string | null;
+  accountId: string | null;
+  campaignId: string | null;
+  /** Raw entity before the change; null for creates or when it could not be read */
+  before: unknown;
+  /** Raw entity after the change; null for deletes and failures */
+  after: unknown;
+  outcome: 'success' | 'error';
+  /** Error message when outcome is 'error' */
+  error?: string;
+}
+
+/**
+ * Filters for reading the audit log
+ */
+export interface AuditQuery {
+  accountId?: string;
+  campaignId?: string;
+  resourceUrn?: string;
+  tool?: string;
+  /** Inclusive lower bound on the record timestamp */
+  since?: Date;
+  /** Exclusive upper bound on the record timestamp */
+  until?: Date;
+}
+
+/**
+ * A mutation about to be sent to LinkedIn
+ */
+export interface AuditedChange {
+  tool: string;
+  input: unknown;
+  /** Collection the entity lives in, e.g. /adAccounts/123/adCampaigns */
+  resourcePath: string;
+  /** Entity key within resourcePath (encoded for URN keys); omitted for creates */
+  key?: string;
+  /** URN type of the entity, e.g. sponsoredCampaign */
+  urnType: string;
+  accountId?: string;
+  campaignId?: string;
+  /**
+   * Read the entity again for the after-state when mutate returns null (updates that don't fetch it).
+   * Creates are always read back once LinkedIn returned the new ID.
+   */
+  readAfter?: boolean;
+}
+
+/**
+ * JSONL file holding the audit records
+ */
+export class AuditLog {
+  constructor(
+    public readonly file: string,
+    private readonly logger: Logger = SILENT_LOGGER
+  ) {}
+
+  /**
+   * Append a record as a single line
+   */
+  append(record: AuditRecord): void {
+    mkdirSync(dirname(this.file), { recursive: true });
+    appendFileSync(this.file, `${JSON.stringify(record)}\n`);
+  }
+
+  /**
+   * Read every record in file order (oldest first).
+   * Lines that are not valid JSON, such as one cut short by a crash while appending, are skipped.
+   */
+  async readAll(): Promise<AuditRecord[]> {
+    if (!existsSync(this.file)) {
+      return [];
+    }
+
+    const text = await readFile(this.file, 'utf8');
+    const records: AuditRecord[] = [];
+
+    for (const [index, line] of text.split('\n').entries()) {
+      if (line.trim() === '') {
+        continue;
+      }
+
+      try {
+        records.push(JSON.parse(line) as AuditRecord);
+      } catch (error) {
+        this.logger.warn('Skipped unreadable audit log line', {
+          file: this.file,
+          line: index + 1,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Look up a record by its ID
+   */
+  async find(id: string): Promise<AuditRecord | undefined> {
+    const records = await this.readAll();
+    return records.find((record) => record.id === id);
+  }
+
+  /**
+   * Records matching every given filter, newest first
+   */
+  async query(filter: AuditQuery): Promise<AuditRecord[]> {
+    const records = await this.readAll();
+
+    return records.filter((record) => matchesQuery(record, filter)).reverse();
+  }
+}
+
+/**
+ * Run a mutation and append its audit record when the server has an audit log.
+ * `mutate` returns the entity after the change, or null for deletes; errors are recorded and rethrown.
+ */
+export async function auditMutation<T extends Record<string, unknown> | null>(
+  context: ToolContext | undefined,
+  client: LinkedInClient,
+  change: AuditedChange,
+  mutate: () => Promise<T>
+): Promise<T> {
+  const auditLog = context?.auditLog;
+  const profile = context?.profile;
+  const apiKeyName = context?.apiKeyName;
+
+  if (auditLog === undefined) {
+    return mutate();
+  }
+
+  const before = change.key !== undefined ? await readEntity(client, change.resourcePath, change.key) : null;
+
+  const record = (
+    outcome: AuditRecord['outcome'],
+    key: string | undefined,
+    after: Record<string, unknown> | null,
+    error?: unknown
+  ): void => {
+    const resourceUrn = resolveUrn(change.urnType, key);
+    auditLog.append({
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      tool: change.tool,
+      input: change.input,
+      ...(profile !== undefined ? { profile } : {}),
+      ...(apiKeyName !== undefined ? { apiKeyName } : {}),
+      resourceUrn,
+      accountId: change.accountId ?? null,
+      campaignId: change.campaignId ?? resolveCampaignId(change.urnType, resourceUrn, before ?? after),
+      before,
+      after,
+      outcome,
+      ...(error !== undefined ? { error: error instanceof Error ? error.message : String(error) } : {}),
+    });
+  };
+
+  let after: T;
+
+  try {
+    after = await mutate();
+  } catch (error) {
+    record('error', change.key, null, error);
+    throw error;
+  }
+
+  // Creates answer with little more than the new ID, so the created entity is read back
+  const key = change.key ?? createdKey(after);
+  const readBack = change.key === undefined ? key !== undefined : after === null && change.readAfter === true;
+  const afterState = readBack && key !== undefined
+    ? (await readEntity(client, change.resourcePath, key)) ?? after
+    : after;
+
+  record('success', key, afterState);
+  return after;
+}
+
+async function readEntity(
+  client: LinkedInClient,
+  resourcePath: string,
+  key: string
+): Promise<Record<string, unknown> | null> {
+  try {
+    return await client.get<Record<string, unknown>>(resourcePath, key);
+  } catch {
+    // Auditing never fails a change; the record just lacks this snapshot
+    return null;
+  }
+}
+
+/**
+ * Entity key of the ID a create returned, encoded like the keys of AuditedChange
+ */
+function createdKey(created: Record<string, unknown> | null): string | undefined {
+  const id = created?.id;
+
+  if (typeof id !== 'string' && typeof id !== 'number') {
+    return undefined;
+  }
+
+  const value = String(id);
+  return value.startsWith('urn:li:') ? encodeURIComponent(value) : value;
+}
+
+function resolveUrn(urnType: string, key: string | undefined): string | null {
+  if (key === undefined) {
+    return null;
+  }
+
+  const value = decodeURIComponent(key);
+  return value.startsWith('urn:li:') ? value : buildUrn(urnType, value);
+}
+
+function resolveCampaignId(
+  urnType: string,
+  resourceUrn: string | null,
+  entity: Record<string, unknown> | null
+): string | null {
+  if (urnType === 'sponsoredCampaign' && resourceUrn !== null) {
+    return extractIdFromUrn(resourceUrn);
+  }
+
+  const campaign = entity?.campaign;
+  return typeof campaign === 'string' ? extractIdFromUrn(campaign) : null;
+}
+
+function matchesQuery(record: AuditRecord, filter: AuditQuery): boolean {
+  const timestamp = Date.parse(record.timestamp);
+
+  return (
+    (filter.accountId === undefined || record.accountId === filter.accountId) &&
+    (filter.campaignId === undefined || record.campaignId === filter.campaignId) &&
+    (filter.resourceUrn === undefined || record.resourceUrn === filter.resourceUrn) &&
+    (filter.tool === undefined || record.tool === filter.tool) &&
+    (filter.since === undefined || timestamp >= filter.since.getTime()) &&
+    (filter.until === undefined || timestamp < filter.until.getTime())
+  );
+}
@@ -0,0 +1,244 @@
+import { mkdirSync, readdirSync, readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import type { RestliClient } from 'linkedin-api-client';
+import { ConfigurationError, ReplayMismatchError } from '../errors.js';
+
+/**
+ * Record-and-replay support for LinkedIn traffic.
+ *
+ * Record mode writes every request/response pair to a JSON cassette with the
+ * access token scrubbed. Replay mode answers requests from cassettes without
+ * touching the network and rejects anything that was not recorded.
+ */
+
+type AxiosInstance = RestliClient['axiosInstance'];
+type AxiosResponse = Parameters<
+  NonNullable<Parameters<AxiosInstance['interceptors']['response']['use']>[0]>
+>[0];
+type RequestConfig = AxiosResponse['config'];
+
+const CASSETTE_VERSION = 1;
+
+const REDACTED = '[REDACTED]';
+
+/** Keeps cassette names unique when several clients record into one directory */
+let cassetteSequence = 0;
+
+/**
+ * One recorded request/response pair
+ */
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    /** URL relative to the API base URL, including the query string */
+    url: string;
+    headers: Record<string, unknown>;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, unknown>;
+    body?: unknown;
+  };
+}
+
+/**
+ * On-disk cassette format
+ */
+export interface Cassette {
+  version: number;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Record every response (including error responses) into a new cassette file in `dir`.
+ * `baseUrls` are stripped from request URLs so cassettes replay against any base URL.
+ * `accessToken` returns the current token, which changes when it is refreshed.
+ */
+export function recordCassette(
+  axiosInstance: AxiosInstance,
+  dir: string,
+  accessToken: () => string,
+  baseUrls: string[]
+): string {
+  mkdirSync(dir, { recursive: true });
+
+  const recordedAt = new Date().toISOString();
+  const file = join(
+    dir,
+    `cassette-${recordedAt.replace(/[:.]/g, '-')}-${process.pid}-${++cassetteSequence}.json`
+  );
+  const cassette: Cassette = { version: CASSETTE_VERSION, recordedAt, interactions: [] };
+
+  const save = (response: AxiosResponse): void => {
+    // Scrub each interaction as it arrives, with the token that was current for it
+    const interaction = scrubToken(JSON.stringify(toInteraction(response, baseUrls)), accessToken());
+    cassette.interactions.push(JSON.parse(interaction) as CassetteInteraction);
+    writeFileSync(file, JSON.stringify(cassette, null, 2));
+  };
+
+  axiosInstance.interceptors.response.use(
+    (response) => {
+      save(response);
+      return response;
+    },
+    (error: unknown) => {
+      const response = (error as { response?: AxiosResponse }).response;
+      if (response !== undefined) {
+        save(response);
+      }
+      return Promise.reject(error);
+    }
+  );
+
+  return file;
+}
+
+/**
+ * Serve every request from the cassettes in `dir`.
+ * Identical requests are answered in recorded order; unmatched requests throw ReplayMismatchError.
+ */
+export function replayCassettes(axiosInstance: AxiosInstance, dir: string, baseUrls: string[]): void {
+  const queues = new Map<string, CassetteInteraction[]>();
+
+  for (const interaction of loadInteractions(dir)) {
+    const key = requestKey(interaction.request.method, interaction.request.url, interaction.request.body);
+    queues.set(key, [...(queues.get(key) ?? []), interaction]);
+  }
+
+  axiosInstance.interceptors.request.use((config) => {
+    const method = (config.method ?? 'get').toUpperCase();
+    const url = relativeUrl(config.url ?? '', baseUrls);
+    const body = parseBody(config.data);
+    const interaction = queues.get(requestKey(method, url, body))?.shift();
+
+    if (interaction === undefined) {
+      const remaining = [...queues.values()].reduce((total, queue) => total + queue.length, 0);
+      throw new ReplayMismatchError(
+        `No recorded response for ${method} ${url} in ${dir} (${remaining} unused recorded interactions)`,
+        { method, url, body }
+      );
+    }
+
+    config.adapter = (): Promise<AxiosResponse> => replayResponse(config, interaction);
+    return config;
+  });
+}
+
+/**
+ * Build the axios response for a recorded interaction, rejecting like axios does for non-2xx statuses
+ */
+function replayResponse(
+  config: RequestConfig,
+  interaction: CassetteInteraction
+): Promise<AxiosResponse> {
+  const { status, headers, body } = interaction.response;
+  const response = {
+    data: body ?? '',
+    status,
+    statusText: '',
+    headers,
+    config,
+    request: {},
+  } as AxiosResponse;
+
+  if (status >= 200 && status < 300) {
+    return Promise.resolve(response);
+  }
+
+  return Promise.reject(
+    Object.assign(new Error(`Request failed with status code ${status}`), {
+      isAxiosError: true,
+      config,
+      response,
+    })
+  );
+}
+
+function loadInteractions(dir: string): CassetteInteraction[] {
+  if (!existsSync(dir)) {
+    throw new ConfigurationError(`LINKEDIN_REPLAY_DIR ${dir} does not exist`);
+  }
+
+  const files = readdirSync(dir)
+    .filter((name) => name.endsWith('.json'))
+    .sort();
+
+  if (files.length === 0) {
+    throw new ConfigurationError(`LINKEDIN_REPLAY_DIR ${dir} contains no cassettes`);
+  }
+
+  return files.flatMap((name) => {
+    const cassette = JSON.parse(readFileSync(join(dir, name), 'utf8')) as Cassette;
+    if (cassette.version !== CASSETTE_VERSION || !Array.isArray(cassette.interactions)) {
+      throw new ConfigurationError(`${join(dir, name)} is not a version ${CASSETTE_VERSION} cassette`);
+    }
+    return cassette.interactions;
+  });
+}
+
+function toInteraction(response: AxiosResponse, baseUrls: string[]): CassetteInteraction {
+  const config = response.config;
+  const requestHeaders = toPlainObject(config.headers);
+
+  for (const name of Object.keys(requestHeaders)) {
+    if (name.toLowerCase() === 'authorization') {
+      requestHeaders[name] = `Bearer ${REDACTED}`;
+    }
+  }
+
+  return {
+    request: {
+      method: (config.method ?? 'get').toUpperCase(),
+      url: relativeUrl(config.url ?? '', baseUrls),
+      headers: requestHeaders,
+      body: parseBody(config.data),
+    },
+    response: {
+      status: response.status,
+      headers: toPlainObject(response.headers),
+      body: response.data === '' ? undefined : (response.data as unknown),
+    },
+  };
+}
+
+function requestKey(method: string, url: string, body: unknown): string {
+  return `${method} ${url} ${body === undefined ? '' : JSON.stringify(body)}`;
+}
+
+function relativeUrl(url: string, baseUrls: string[]): string {
+  for (const baseUrl of baseUrls) {
+    if (url.startsWith(baseUrl)) {
+      return url.slice(baseUrl.length);
+    }
+  }
+  return url;
+}
+
+/**
+ * Request bodies are objects before axios serializes them and JSON strings after; normalize both
+ */
+function parseBody(data: unknown): unknown {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  if (data === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(data) as unknown;
+  } catch {
+    return data;
+  }
+}
+
+function toPlainObject(headers: unknown): Record<string, unknown> {
+  return headers === undefined || headers === null
+    ? {}
+    : (JSON.parse(JSON.stringify(headers)) as Record<string, unknown>);
+}
+
+function scrubToken(text: string, accessToken: string): string {
+  return accessToken === '' ? text : text.split(accessToken).join(REDACTED);
+}
@@ -0,0 +1,39 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type { z } from 'zod';
+import { ConfigurationError } from '../errors.js';
+
+/**
+ * Read a JSON or YAML settings file (YAML for .yaml/.yml) and validate it against `schema`.
+ * `variable` is the environment variable that named the file, `label` describes its contents in errors.
+ * @throws {ConfigurationError} If the file cannot be read or does not match the schema
+ */
+export function loadConfigFile<T>(
+  file: string,
+  variable: string,
+  label: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): T {
+  let raw: unknown;
+
+  try {
+    const text = readFileSync(file, 'utf8');
+    raw = ['.yaml', '.yml'].includes(extname(file).toLowerCase())
+      ? parseYaml(text)
+      : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigurationError(
+      `Cannot read ${variable} ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const result = schema.safeParse(raw ?? {});
+
+  if (!result.success) {
+    const errors = result.error.errors.map((e) => `  - ${e.path.join('.')}: ${e.message}`);
+    throw new ConfigurationError(`Invalid ${label} in ${file}:\n${errors.join('\n')}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,153 @@
+import { randomBytes } from 'node:crypto';
+import { ValidationError } from '../errors.js';
+
+/**
+ * Two-step confirmation for irreversible tools.
+ *
+ * The first call returns a preview and a single-use token bound to the tool,
+ * target and caller; only a second call carrying that token performs the operation.
+ */
+
+/** How long a confirmation token stays valid */
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Who a token is issued to: the API key of the HTTP session and the credentials profile
+ */
+export interface ConfirmationCaller {
+  apiKeyName?: string;
+  profile?: string;
+}
+
+interface PendingConfirmation {
+  tool: string;
+  target: string;
+  caller: ConfirmationCaller;
+  expiresAt: number;
+}
+
+/**
+ * In-memory registry of outstanding confirmation tokens
+ */
+export class ConfirmationStore {
+  private readonly pending = new Map<string, PendingConfirmation>();
+
+  constructor(private readonly ttlMs: number = CONFIRMATION_TTL_MS) {}
+
+  /**
+   * Issue a token that authorizes `caller` to run `tool` on `target` once
+   */
+  issue(tool: string, target: string, caller: ConfirmationCaller = {}): { token: string; expiresAt: string } {
+    this.prune();
+
+    const token = randomBytes(9).toString('base64url');
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(token, { tool, target, caller: { apiKeyName: caller.apiKeyName, profile: caller.profile }, expiresAt });
+
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Redeem a token for `tool` on `target`
+   * @throws {ValidationError} If the token is unknown, used, expired or issued for something else
+   */
+  consume(token: string, tool: string, target: string, caller: ConfirmationCaller = {}): void {
+    this.take(token, tool, target, caller);
+  }
+
+  /**
+   * Run `operation` with a token for `tool` on `target`. The token is only used up when the
+   * operation succeeds; when it fails, e.g. on a transient LinkedIn error, it can be sent again.
+   * @throws {ValidationError} If the token is unknown, used, expired or issued for something else
+   */
+  async redeem<T>(
+    token: string,
+    tool: string,
+    target: string,
+    caller: ConfirmationCaller,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    const pending = this.take(token, tool, target, caller);
+
+    try {
+      return await operation();
+    } catch (error) {
+      this.pending.set(token, pending);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a valid token from the registry, so concurrent calls cannot redeem it too
+   */
+  private take(token: string, tool: string, target: string, caller: ConfirmationCaller): PendingConfirmation {
+    const pending = this.pending.get(token);
+
+    // Tokens of other API keys or profiles are not revealed, and stay valid for their caller
+    if (
+      pending === undefined ||
+      pending.caller.apiKeyName !== caller.apiKeyName ||
+      pending.caller.profile !== caller.profile
+    ) {
+      throw new ValidationError(
+        `Unknown or already used confirmation token. Call ${tool} without confirmationToken to get a new one.`,
+        'confirmationToken'
+      );
+    }
+
+    if (pending.tool !== tool || pending.target !== target) {
+      throw new ValidationError(
+        `Confirmation token was issued for ${pending.tool} on ${pending.target}, not ${tool} on ${target}.`,
+        'confirmationToken'
+      );
+    }
+
+    this.pending.delete(token);
+
+    if (pending.expiresAt <= Date.now()) {
+      throw new ValidationError(
+        `Confirmation token expired. Call ${tool} without confirmationToken to get a new one.`,
+        'confirmationToken'
+      );
+    }
+
+    return pending;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
+
+/** Tokens of every session, each usable only by the API key and profile it was issued to */
+export const confirmations = new ConfirmationStore();
+
+/**
+ * Tool response for the first call of a confirmed operation
+ */
+export function formatConfirmationRequired(
+  tool: string,
+  target: string,
+  effect: string,
+  preview: unknown,
+  caller?: ConfirmationCaller
+): string {
+  const { token, expiresAt } = confirmations.issue(tool, target, caller);
+
+  return JSON.stringify(
+    {
+      confirmationRequired: true,
+      message: `${effect}. Nothing has been changed yet: call ${tool} again with the same arguments and confirmationToken to proceed.`,
+      preview,
+      confirmationToken: token,
+      expiresAt,
+    },
+    null,
+    2
+  );
+}
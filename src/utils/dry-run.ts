@@ -0,0 +1,67 @@
+import type { ToolContext } from '../types.js';
+
+/**
+ * A LinkedIn request described instead of sent
+ */
+export interface PlannedRequest {
+  /** HTTP method on the wire */
+  method: 'POST' | 'DELETE';
+  /** Value of the X-RestLi-Method header */
+  restliMethod: 'CREATE' | 'PARTIAL_UPDATE' | 'DELETE';
+  /** Resource path relative to https://api.linkedin.com/rest */
+  resourcePath: string;
+  /** JSON body exactly as linkedin-api-client would send it */
+  body?: Record<string, unknown>;
+}
+
+/**
+ * Resolve the dryRun tool input against the server-wide default
+ */
+export function isDryRun(dryRun: boolean | undefined, context?: ToolContext): boolean {
+  return dryRun ?? context?.dryRun ?? false;
+}
+
+/**
+ * Describe a Rest.li CREATE
+ */
+export function plannedCreate(resourcePath: string, entity: Record<string, unknown>): PlannedRequest {
+  return { method: 'POST', restliMethod: 'CREATE', resourcePath, body: entity };
+}
+
+/**
+ * Describe a Rest.li PARTIAL_UPDATE, wrapping the patch set the way linkedin-api-client does
+ */
+export function plannedPartialUpdate(
+  resourcePath: string,
+  id: string,
+  patchSet: Record<string, unknown>
+): PlannedRequest {
+  return {
+    method: 'POST',
+    restliMethod: 'PARTIAL_UPDATE',
+    resourcePath: `${resourcePath}/${id}`,
+    body: { patch: { $set: patchSet } },
+  };
+}
+
+/**
+ * Describe a Rest.li DELETE
+ */
+export function plannedDelete(resourcePath: string, id: string): PlannedRequest {
+  return { method: 'DELETE', restliMethod: 'DELETE', resourcePath: `${resourcePath}/${id}` };
+}
+
+/**
+ * Tool response for a dry run
+ */
+export function formatDryRun(request: PlannedRequest): string {
+  return JSON.stringify(
+    {
+      dryRun: true,
+      message: 'Dry run: input is valid and nothing was sent to LinkedIn',
+      request,
+    },
+    null,
+    2
+  );
+}
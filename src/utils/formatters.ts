@@ -8,15 +8,18 @@ import {
   type CreativeSummary,
   type MoneyAmount,
   type PostSummary,
+  type BatchItemError,
 } from '../types.js';
 import { ValidationError } from '../errors.js';
+import type { BatchGetResult } from '../client.js';
 
 /**
  * Extract the numeric ID from a LinkedIn URN
  * e.g., "urn:li:sponsoredAccount:123456" -> "123456"
+ * Bare numeric IDs (as returned for ad accounts and campaigns) pass through as strings.
  */
-export function extractIdFromUrn(urn: string): string {
-  const parts = urn.split(':');
+export function extractIdFromUrn(urn: string | number): string {
+  const parts = String(urn).split(':');
   return parts[parts.length - 1];
 }
 
@@ -33,7 +36,7 @@ export function buildUrn(type: string, id: string): string {
  */
 export function formatAdAccount(raw: Record<string, unknown>): AdAccountSummary {
   return {
-    id: extractIdFromUrn(raw.id as string),
+    id: extractIdFromUrn(raw.id as string | number),
     name: raw.name as string,
     status: raw.status as string,
     currency: raw.currency as string,
@@ -49,7 +52,7 @@ export function formatCampaign(raw: Record<string, unknown>): CampaignSummary {
   const totalSpend = raw.totalSpend as Record<string, unknown> | undefined;
 
   return {
-    id: extractIdFromUrn(raw.id as string),
+    id: extractIdFromUrn(raw.id as string | number),
     name: raw.name as string,
     status: raw.status as string,
     objectiveType: raw.objectiveType as string,
@@ -66,7 +69,7 @@ export function formatCampaignGroup(raw: Record<string, unknown>): CampaignGroup
   const totalBudget = raw.totalBudget as Record<string, unknown> | undefined;
 
   return {
-    id: extractIdFromUrn(raw.id as string),
+    id: extractIdFromUrn(raw.id as string | number),
     name: raw.name as string,
     status: raw.status as string,
     totalBudget: totalBudget ? formatMoneyAmount(totalBudget) : undefined,
@@ -84,7 +87,7 @@ export function formatCreative(raw: Record<string, unknown>): CreativeSummary {
     | undefined;
 
   return {
-    id: extractIdFromUrn(raw.id as string),
+    id: extractIdFromUrn(raw.id as string | number),
     campaignId: extractIdFromUrn(raw.campaign as string),
     type: raw.type as string,
     status: raw.status as string,
@@ -103,6 +106,20 @@ export function formatMoneyAmount(raw: Record<string, unknown>): MoneyAmount {
   };
 }
 
+/**
+ * Describe why a batch lookup did not return an entity for the given ID.
+ * IDs missing from both `results` and `errors` are reported as not found.
+ */
+export function formatBatchError(batch: BatchGetResult<unknown>, id: string): BatchItemError {
+  const raw = batch.errors[id] as Record<string, unknown> | undefined;
+  const status = typeof raw?.status === 'number' ? raw.status : batch.statuses[id] ?? 404;
+  const message = typeof raw?.message === 'string' && raw.message !== ''
+    ? raw.message
+    : `No entity returned for ID ${id}`;
+
+  return { status, message };
+}
+
 /**
  * Parse an ISO date string to epoch milliseconds
  */
@@ -0,0 +1,330 @@
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { FastMCPSession } from 'fastmcp';
+import { ApiKeysFileSchema, type ApiKey } from '../types.js';
+import { loadConfigFile } from './config-file.js';
+import { SILENT_LOGGER, type Logger } from './logger.js';
+import { trackToolCalls } from './tool-calls.js';
+
+/**
+ * HTTP transports (Streamable HTTP and SSE) for serving one MCP server to a team.
+ *
+ * Every request must carry an API key, as `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ * A session stays bound to the key that opened it, and through it to the key's profile.
+ * `GET /health` answers without a key, for load balancers and orchestrators.
+ */
+
+/** Who opened an HTTP session; available to tool handlers as the FastMCP session */
+export type HttpSessionAuth = {
+  /** Name of the API key */
+  client: string;
+  /** Credentials profile the session is bound to */
+  profile?: string;
+};
+
+/**
+ * Load and validate API keys from a JSON or YAML file
+ * @throws {ConfigurationError} If the file cannot be read or does not match the schema
+ */
+export function loadApiKeys(file: string): ApiKey[] {
+  return loadConfigFile(file, 'LINKEDIN_MCP_API_KEYS_FILE', 'API keys', ApiKeysFileSchema).apiKeys;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * API key sent with a request, if any
+ */
+function readApiKey(request: IncomingMessage): string | undefined {
+  const bearer = /^Bearer\s+(\S+)\s*$/i.exec(request.headers.authorization ?? '')?.[1];
+  const header = request.headers['x-api-key'];
+  return bearer ?? (Array.isArray(header) ? header[0] : header);
+}
+
+/**
+ * Checks the API key of HTTP requests against the configured keys
+ */
+export class ApiKeyAuthenticator {
+  private readonly keys: { digest: Buffer; auth: HttpSessionAuth }[];
+
+  constructor(keys: readonly ApiKey[]) {
+    this.keys = keys.map((key) => ({ digest: digest(key.key), auth: { client: key.name, profile: key.profile } }));
+  }
+
+  /**
+   * Session auth of the key a request carries; undefined when it carries no known key
+   */
+  authenticate(request: IncomingMessage): HttpSessionAuth | undefined {
+    const key = readApiKey(request);
+    if (key === undefined) {
+      return undefined;
+    }
+
+    // Compare digests of equal length in constant time, and check every key
+    const candidate = digest(key);
+    let match: HttpSessionAuth | undefined;
+    for (const entry of this.keys) {
+      if (timingSafeEqual(entry.digest, candidate)) {
+        match = entry.auth;
+      }
+    }
+    return match;
+  }
+}
+
+/**
+ * Settings for startHttpTransport
+ */
+export interface HttpTransportOptions {
+  transportType: 'httpStream' | 'sse';
+  host: string;
+  /** 0 picks a free port */
+  port: number;
+  /** Path of the MCP endpoint; SSE clients post their messages to `<endpoint>/messages` */
+  endpoint: string;
+  authenticator: ApiKeyAuthenticator;
+  /** New MCP session for a client that connected with `auth` */
+  createSession: (auth: HttpSessionAuth) => FastMCPSession<HttpSessionAuth>;
+  logger?: Logger;
+}
+
+/**
+ * A running HTTP transport
+ */
+export interface HttpTransport {
+  /** URL of the MCP endpoint */
+  url: string;
+  /** Sessions currently connected */
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+interface ActiveSession {
+  auth: HttpSessionAuth;
+  session: FastMCPSession<HttpSessionAuth>;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+function sendJson(
+  response: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(body));
+}
+
+/**
+ * JSON-RPC error response for requests rejected before they reach an MCP session
+ */
+function sendRpcError(
+  response: ServerResponse,
+  status: number,
+  message: string,
+  headers: Record<string, string> = {}
+): void {
+  sendJson(response, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null }, headers);
+}
+
+/** Largest request body accepted, the same limit the MCP SDK applies to SSE messages */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * A request body over MAX_BODY_BYTES, answered with 413
+ */
+class PayloadTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/**
+ * Read and parse a JSON request body
+ * @throws {PayloadTooLargeError} If the body is larger than MAX_BODY_BYTES; the rest of it is discarded
+ */
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+  if (Number(headerValue(request, 'content-length')) > MAX_BODY_BYTES) {
+    throw new PayloadTooLargeError();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size <= MAX_BODY_BYTES) {
+      chunks.push(chunk as Buffer);
+    }
+  }
+
+  if (size > MAX_BODY_BYTES) {
+    throw new PayloadTooLargeError();
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text === '' ? undefined : (JSON.parse(text) as unknown);
+}
+
+function headerValue(request: IncomingMessage, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Serve MCP sessions over Streamable HTTP or SSE
+ */
+export async function startHttpTransport(options: HttpTransportOptions): Promise<HttpTransport> {
+  const logger = options.logger ?? SILENT_LOGGER;
+  const sessions = new Map<string, ActiveSession>();
+  const messagesPath = `${options.endpoint.replace(/\/$/, '')}/messages`;
+
+  /**
+   * Session a request belongs to, if it exists and was opened with the same key
+   */
+  function findSession(sessionId: string | undefined, auth: HttpSessionAuth): ActiveSession | undefined {
+    const active = sessionId !== undefined ? sessions.get(sessionId) : undefined;
+    return active !== undefined && active.auth.client === auth.client ? active : undefined;
+  }
+
+  function openSession(auth: HttpSessionAuth, transport: Transport): FastMCPSession<HttpSessionAuth> {
+    const session = options.createSession(auth);
+    // FastMCP waits for the client's capabilities, which arrive with the initialize request
+    session.connect(trackToolCalls(transport)).catch((error: unknown) => {
+      logger.warn('MCP session failed to connect', {
+        client: auth.client,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+    return session;
+  }
+
+  function closeSession(sessionId: string): void {
+    const active = sessions.get(sessionId);
+    if (active === undefined) {
+      return;
+    }
+
+    sessions.delete(sessionId);
+    logger.info('MCP session closed', { client: active.auth.client, sessionId });
+    void active.session.close();
+  }
+
+  async function handleStreamable(
+    request: IncomingMessage,
+    response: ServerResponse,
+    auth: HttpSessionAuth
+  ): Promise<void> {
+    const sessionId = headerValue(request, 'mcp-session-id');
+    const body = request.method === 'POST' ? await readJsonBody(request) : undefined;
+
+    if (sessionId === undefined && request.method === 'POST' && isInitializeRequest(body)) {
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: randomUUID,
+        onsessioninitialized: (id): void => {
+          sessions.set(id, { auth, session, transport });
+          logger.info('MCP session opened', { client: auth.client, profile: auth.profile, sessionId: id });
+        },
+      });
+      transport.onclose = (): void => {
+        if (transport.sessionId !== undefined) {
+          closeSession(transport.sessionId);
+        }
+      };
+      const session = openSession(auth, transport);
+      await transport.handleRequest(request, response, body);
+      return;
+    }
+
+    const active = findSession(sessionId, auth);
+    if (active === undefined || !(active.transport instanceof StreamableHTTPServerTransport)) {
+      sendRpcError(response, sessionId === undefined ? 400 : 404, 'Unknown or missing MCP session');
+      return;
+    }
+    await active.transport.handleRequest(request, response, body);
+  }
+
+  async function handleSse(request: IncomingMessage, response: ServerResponse, auth: HttpSessionAuth): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    if (request.method === 'GET' && url.pathname === options.endpoint) {
+      const transport = new SSEServerTransport(messagesPath, response);
+      const session = openSession(auth, transport);
+      sessions.set(transport.sessionId, { auth, session, transport });
+      logger.info('MCP session opened', { client: auth.client, profile: auth.profile, sessionId: transport.sessionId });
+      response.on('close', () => closeSession(transport.sessionId));
+      return;
+    }
+
+    const active = findSession(url.searchParams.get('sessionId') ?? undefined, auth);
+    if (request.method !== 'POST' || active === undefined || !(active.transport instanceof SSEServerTransport)) {
+      sendRpcError(response, 404, 'Unknown or missing MCP session');
+      return;
+    }
+    await active.transport.handlePostMessage(request, response);
+  }
+
+  const server: Server = createServer((request, response) => {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+
+    if (request.method === 'GET' && pathname === '/health') {
+      sendJson(response, 200, { status: 'ok', transport: options.transportType, sessions: sessions.size });
+      return;
+    }
+
+    const isMcpPath = pathname === options.endpoint || (options.transportType === 'sse' && pathname === messagesPath);
+    if (!isMcpPath) {
+      sendRpcError(response, 404, 'Not found');
+      return;
+    }
+
+    const auth = options.authenticator.authenticate(request);
+    if (auth === undefined) {
+      logger.warn('Rejected MCP request without a valid API key', { method: request.method, path: pathname });
+      sendRpcError(response, 401, 'Missing or invalid API key', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    const handle = options.transportType === 'httpStream' ? handleStreamable : handleSse;
+    handle(request, response, auth).catch((error: unknown) => {
+      logger.error('MCP request failed', { error: error instanceof Error ? error.message : String(error) });
+      if (response.headersSent) {
+        return;
+      }
+      if (error instanceof PayloadTooLargeError) {
+        // The body may not have been read, so the connection cannot be reused
+        sendRpcError(response, 413, error.message, { Connection: 'close' });
+      } else {
+        const invalidJson = error instanceof SyntaxError;
+        sendRpcError(response, invalidJson ? 400 : 500, invalidJson ? 'Invalid JSON' : 'Internal error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  const host = options.host.includes(':') ? `[${options.host}]` : options.host;
+
+  return {
+    url: `http://${host}:${port}${options.endpoint}`,
+    sessionCount: () => sessions.size,
+    close: async (): Promise<void> => {
+      await Promise.all([...sessions.values()].map((active) => active.transport.close()));
+      server.closeAllConnections();
+      await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Structured logging to stderr; stdout carries the MCP stdio protocol.
+ *
+ * Every entry is one JSON line with `time`, `level` and `msg`, plus fields.
+ * Fields named like credentials, bearer tokens and registered secrets are
+ * redacted before anything is written.
+ */
+
+export const LOG_LEVELS = ['silent', 'error', 'warn', 'info', 'debug'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/** Extra data of a log entry */
+export type LogFields = Record<string, unknown>;
+
+const REDACTED = '[REDACTED]';
+
+const SECRET_KEY = /token|secret|authorization|password|cookie/i;
+
+/**
+ * Replace credentials in a log field value
+ */
+export function redact(value: unknown, secrets: readonly string[] = [], key?: string): unknown {
+  if (key !== undefined && SECRET_KEY.test(key) && value !== undefined && value !== null) {
+    return REDACTED;
+  }
+
+  if (typeof value === 'string') {
+    let text = value.replace(/Bearer\s+[^\s"',]+/gi, `Bearer ${REDACTED}`);
+    for (const secret of secrets) {
+      text = text.split(secret).join(REDACTED);
+    }
+    return text;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, secrets));
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, redact(item, secrets, name)]));
+  }
+
+  return value;
+}
+
+/**
+ * Writes JSON log lines at or above a level
+ */
+export class Logger {
+  private readonly secrets: string[];
+
+  constructor(
+    readonly level: LogLevel = 'warn',
+    secrets: readonly (string | undefined)[] = [],
+    private readonly write: (line: string) => void = (line) => process.stderr.write(`${line}\n`),
+    private readonly bound: LogFields = {}
+  ) {
+    // Very short values would redact unrelated text
+    this.secrets = secrets.filter((secret): secret is string => secret !== undefined && secret.length >= 8);
+  }
+
+  /**
+   * Whether entries of `level` are written
+   */
+  enabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(this.level);
+  }
+
+  /**
+   * Logger that adds `fields` to every entry
+   */
+  child(fields: LogFields): Logger {
+    return new Logger(this.level, this.secrets, this.write, { ...this.bound, ...fields });
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.log('error', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.log('warn', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.log('info', msg, fields);
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.log('debug', msg, fields);
+  }
+
+  log(level: Exclude<LogLevel, 'silent'>, msg: string, fields: LogFields = {}): void {
+    if (!this.enabled(level)) {
+      return;
+    }
+
+    const entry = redact({ ...this.bound, ...fields }, this.secrets) as LogFields;
+    this.write(JSON.stringify({ time: new Date().toISOString(), level, msg: redact(msg, this.secrets), ...entry }));
+  }
+}
+
+/** Logger that writes nothing */
+export const SILENT_LOGGER = new Logger('silent');
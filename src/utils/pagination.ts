@@ -0,0 +1,75 @@
+import { getNextPageToken, pageTokenParams, type CollectionResponse, type LinkedInClient } from '../client.js';
+import { FETCH_ALL_MAX_RESULTS, type ProgressReporter } from '../types.js';
+
+/**
+ * Page size used for fetchAll requests when the caller does not choose one
+ */
+const FETCH_ALL_PAGE_SIZE = 100;
+
+/**
+ * Pagination input accepted by the finder-based list tools
+ */
+export interface ListPaginationInput {
+  pageSize?: number;
+  pageToken?: string;
+  fetchAll: boolean;
+}
+
+/**
+ * One page (or, with fetchAll, every page) of a finder-based list
+ */
+export interface ListPage {
+  elements: Record<string, unknown>[];
+  /** Cursor for the following page, or null when there is none */
+  nextPageToken: string | null;
+  /** Only set for fetchAll: true when FETCH_ALL_MAX_RESULTS cut the list short */
+  truncated?: boolean;
+}
+
+/**
+ * Fetch a finder-based list honoring the pageSize/pageToken/fetchAll tool inputs.
+ * Paging parameters are only sent when the caller asked for them.
+ * With fetchAll, `reportProgress` is called after every page with the elements collected so far.
+ */
+export async function fetchListPage(
+  client: LinkedInClient,
+  resourcePath: string,
+  finderName: string,
+  queryParams: Record<string, unknown>,
+  { pageSize, pageToken, fetchAll }: ListPaginationInput,
+  reportProgress?: ProgressReporter
+): Promise<ListPage> {
+  if (fetchAll) {
+    const collected = await client.finderAll<Record<string, unknown>>(resourcePath, finderName, queryParams, {
+      pageSize: pageSize ?? FETCH_ALL_PAGE_SIZE,
+      pageToken,
+      maxElements: FETCH_ALL_MAX_RESULTS,
+      onPage: reportProgress !== undefined
+        ? (received, total): void =>
+            reportProgress(
+              Math.min(received, FETCH_ALL_MAX_RESULTS),
+              total !== undefined ? Math.min(total, FETCH_ALL_MAX_RESULTS) : undefined
+            )
+        : undefined,
+    });
+
+    return {
+      elements: collected.elements,
+      nextPageToken: collected.nextPageToken ?? null,
+      truncated: collected.truncated,
+    };
+  }
+
+  const params: Record<string, unknown> = { ...queryParams, ...pageTokenParams(pageToken, pageSize) };
+
+  const response = await client.finder<CollectionResponse<Record<string, unknown>>>(
+    resourcePath,
+    finderName,
+    params
+  );
+
+  return {
+    elements: response.elements ?? [],
+    nextPageToken: getNextPageToken(response) ?? null,
+  };
+}
@@ -0,0 +1,359 @@
+import { QuotaExceededError } from '../errors.js';
+import { RateLimitPolicySchema, type EndpointRateLimit, type RateLimitPolicy } from '../types.js';
+import { loadConfigFile } from './config-file.js';
+import { cancellationError } from './retry.js';
+
+/**
+ * Client-side request budgeting for LinkedInClient.
+ *
+ * Requests are grouped by endpoint. Each endpoint has a token bucket, a
+ * concurrency limit and a daily call limit, and a global concurrency limit
+ * applies across endpoints. Requests that cannot start wait in a queue per
+ * endpoint; endpoints with waiting requests take turns for free slots, so a
+ * burst against one endpoint does not starve the others.
+ */
+
+/** Default policy when LINKEDIN_RATE_LIMITS_FILE is not set */
+export const DEFAULT_RATE_LIMIT_POLICY: RateLimitPolicy = RateLimitPolicySchema.parse({});
+
+/**
+ * Calls made to one endpoint during the current UTC day
+ */
+export interface EndpointUsage {
+  endpoint: string;
+  calls: number;
+  /** Calls LinkedIn answered with 429 */
+  rateLimited: number;
+  dailyLimit?: number;
+  remaining?: number;
+  inFlight: number;
+  queued: number;
+}
+
+/**
+ * Usage of every endpoint called, or limited, today
+ */
+export interface QuotaUsage {
+  /** UTC day the counts belong to (YYYY-MM-DD) */
+  date: string;
+  /** When the counts and daily limits reset */
+  resetsAt: string;
+  endpoints: EndpointUsage[];
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface EndpointState {
+  limits: EndpointRateLimit;
+  /** Tokens left in the bucket, when requestsPerMinute applies */
+  tokens: number;
+  refilledAt: number;
+  inFlight: number;
+  queue: Waiter[];
+  calls: number;
+  rateLimited: number;
+}
+
+/**
+ * Load and validate rate limits from a JSON or YAML file
+ * @throws {ConfigurationError} If the file cannot be read or does not match the schema
+ */
+export function loadRateLimitPolicy(file: string): RateLimitPolicy {
+  return loadConfigFile(file, 'LINKEDIN_RATE_LIMITS_FILE', 'rate limits', RateLimitPolicySchema);
+}
+
+/**
+ * Endpoint a resource path belongs to: numeric and URN segments become `{id}`
+ */
+export function endpointKey(resourcePath: string): string {
+  return resourcePath
+    .split('/')
+    .map((segment) => (/^\d+$/.test(segment) || /^urn(:|%3A)/i.test(segment) ? '{id}' : segment))
+    .join('/');
+}
+
+/**
+ * Limits in effect for an endpoint: the defaults overridden by the endpoint's own entry
+ */
+export function resolveEndpointLimits(policy: RateLimitPolicy, endpoint: string): EndpointRateLimit {
+  return { ...policy.defaults, ...policy.endpoints[endpoint] };
+}
+
+/**
+ * Tokens an endpoint's bucket holds when full; at least one so that slow rates still make progress
+ */
+function bucketCapacity(limits: EndpointRateLimit): number {
+  return Math.max(1, limits.burst ?? limits.requestsPerMinute ?? 1);
+}
+
+/**
+ * Start of the UTC day after `time`
+ */
+function nextUtcMidnight(time: number): Date {
+  const date = new Date(time);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+}
+
+/**
+ * Queues requests per endpoint and starts them as the policy allows
+ */
+export class RateLimiter {
+  private readonly endpoints = new Map<string, EndpointState>();
+  /** Endpoints with queued requests, in the order they get their next turn */
+  private readonly waiting: string[] = [];
+  private inFlight = 0;
+  private day: string;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly policy: RateLimitPolicy = DEFAULT_RATE_LIMIT_POLICY,
+    private readonly now: () => number = Date.now
+  ) {
+    this.day = new Date(this.now()).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Run `operation` once the endpoint's limits allow it.
+   * @throws {QuotaExceededError} If the endpoint's daily limit is used up
+   * @throws {CancelledError} If `signal` aborts while the request is queued
+   */
+  async schedule<T>(endpoint: string, operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(endpoint, signal);
+
+    try {
+      return await operation();
+    } finally {
+      this.release(endpoint);
+    }
+  }
+
+  /**
+   * Count a 429 answer from LinkedIn against the endpoint
+   */
+  recordRateLimited(endpoint: string): void {
+    this.rollOver();
+    this.state(endpoint).rateLimited++;
+  }
+
+  /**
+   * Calls per endpoint today, busiest first. Endpoints with a daily limit are listed even when unused.
+   */
+  usage(): QuotaUsage {
+    this.rollOver();
+
+    for (const [endpoint, limits] of Object.entries(this.policy.endpoints)) {
+      if (limits.dailyLimit !== undefined) {
+        this.state(endpoint);
+      }
+    }
+
+    const endpoints = [...this.endpoints.entries()]
+      .map(([endpoint, state]): EndpointUsage => ({
+        endpoint,
+        calls: state.calls,
+        rateLimited: state.rateLimited,
+        dailyLimit: state.limits.dailyLimit,
+        remaining: state.limits.dailyLimit !== undefined ? Math.max(0, state.limits.dailyLimit - state.calls) : undefined,
+        inFlight: state.inFlight,
+        queued: state.queue.length,
+      }))
+      .sort((a, b) => b.calls - a.calls || a.endpoint.localeCompare(b.endpoint));
+
+    return {
+      date: this.day,
+      resetsAt: nextUtcMidnight(this.now()).toISOString(),
+      endpoints,
+    };
+  }
+
+  private acquire(endpoint: string, signal?: AbortSignal): Promise<void> {
+    this.rollOver();
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted === true) {
+        reject(cancellationError(signal));
+        return;
+      }
+
+      const state = this.state(endpoint);
+      // A cancelled request leaves the queue without using a slot
+      const onAbort = (): void => {
+        state.queue.splice(state.queue.indexOf(waiter), 1);
+        if (state.queue.length === 0) {
+          this.waiting.splice(this.waiting.indexOf(endpoint), 1);
+        }
+        reject(cancellationError(signal as AbortSignal));
+      };
+      const waiter: Waiter = {
+        resolve: (): void => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject: (error): void => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+
+      state.queue.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (!this.waiting.includes(endpoint)) {
+        this.waiting.push(endpoint);
+      }
+      this.dispatch();
+    });
+  }
+
+  private release(endpoint: string): void {
+    this.state(endpoint).inFlight--;
+    this.inFlight--;
+    this.dispatch();
+  }
+
+  /**
+   * Start queued requests while slots are free, one endpoint turn at a time
+   */
+  private dispatch(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    let progressed = true;
+    while (progressed && this.waiting.length > 0) {
+      progressed = false;
+
+      for (let i = 0; i < this.waiting.length; i++) {
+        const endpoint = this.waiting[i];
+        if (!this.startNext(endpoint)) {
+          continue;
+        }
+
+        // The endpoint goes to the back of the line
+        this.waiting.splice(i, 1);
+        if (this.state(endpoint).queue.length > 0) {
+          this.waiting.push(endpoint);
+        }
+        progressed = true;
+        break;
+      }
+    }
+
+    this.scheduleRefill();
+  }
+
+  /**
+   * Start or refuse the first queued request of an endpoint. Returns false when it has to keep waiting.
+   */
+  private startNext(endpoint: string): boolean {
+    const state = this.state(endpoint);
+    const waiter = state.queue[0];
+    const { dailyLimit, maxConcurrent, requestsPerMinute } = state.limits;
+
+    if (dailyLimit !== undefined && state.calls >= dailyLimit) {
+      state.queue.shift();
+      const resetsAt = nextUtcMidnight(this.now()).toISOString();
+      waiter.reject(
+        new QuotaExceededError(
+          `Daily limit of ${dailyLimit} calls to ${endpoint} reached (LINKEDIN_RATE_LIMITS_FILE); it resets at ${resetsAt}`,
+          endpoint,
+          resetsAt
+        )
+      );
+      return true;
+    }
+
+    if (this.inFlight >= this.policy.maxConcurrent) {
+      return false;
+    }
+
+    if (maxConcurrent !== undefined && state.inFlight >= maxConcurrent) {
+      return false;
+    }
+
+    if (requestsPerMinute !== undefined) {
+      this.refill(state, requestsPerMinute);
+      if (state.tokens < 1) {
+        return false;
+      }
+      state.tokens--;
+    }
+
+    state.queue.shift();
+    state.inFlight++;
+    state.calls++;
+    this.inFlight++;
+    waiter.resolve();
+    return true;
+  }
+
+  /**
+   * Wake up when the next token arrives for an endpoint that only waits for its bucket
+   */
+  private scheduleRefill(): void {
+    if (this.inFlight >= this.policy.maxConcurrent) {
+      return;
+    }
+
+    let wait = Infinity;
+    for (const endpoint of this.waiting) {
+      const state = this.state(endpoint);
+      const { maxConcurrent, requestsPerMinute } = state.limits;
+
+      if (requestsPerMinute === undefined || (maxConcurrent !== undefined && state.inFlight >= maxConcurrent)) {
+        continue;
+      }
+
+      wait = Math.min(wait, ((1 - state.tokens) * 60_000) / requestsPerMinute);
+    }
+
+    if (wait !== Infinity) {
+      this.timer = setTimeout(() => this.dispatch(), Math.ceil(wait));
+    }
+  }
+
+  private refill(state: EndpointState, requestsPerMinute: number): void {
+    const now = this.now();
+    state.tokens = Math.min(bucketCapacity(state.limits), state.tokens + ((now - state.refilledAt) * requestsPerMinute) / 60_000);
+    state.refilledAt = now;
+  }
+
+  private state(endpoint: string): EndpointState {
+    let state = this.endpoints.get(endpoint);
+
+    if (state === undefined) {
+      const limits = resolveEndpointLimits(this.policy, endpoint);
+      state = {
+        limits,
+        tokens: bucketCapacity(limits),
+        refilledAt: this.now(),
+        inFlight: 0,
+        queue: [],
+        calls: 0,
+        rateLimited: 0,
+      };
+      this.endpoints.set(endpoint, state);
+    }
+
+    return state;
+  }
+
+  /**
+   * Reset the daily counts when a new UTC day has started
+   */
+  private rollOver(): void {
+    const day = new Date(this.now()).toISOString().slice(0, 10);
+    if (day === this.day) {
+      return;
+    }
+
+    this.day = day;
+    for (const state of this.endpoints.values()) {
+      state.calls = 0;
+      state.rateLimited = 0;
+    }
+  }
+}
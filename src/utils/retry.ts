@@ -0,0 +1,198 @@
+import { CancelledError, CircuitOpenError, LinkedInApiError, NetworkError } from '../errors.js';
+import { RetryPolicySchema, type RetryPolicy } from '../types.js';
+import { loadConfigFile } from './config-file.js';
+
+/**
+ * Retry support for LinkedInClient.
+ *
+ * Transient failures (network errors, timeouts and the configured 5xx statuses)
+ * are retried with full-jitter exponential backoff within a total wait budget.
+ * A circuit breaker counts consecutive transient failures and, once LinkedIn
+ * looks down, fails calls fast until a trial request succeeds again.
+ */
+
+/** Default policy when LINKEDIN_RETRY_POLICY_FILE is not set */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = RetryPolicySchema.parse({});
+
+/**
+ * Load and validate a retry policy from a JSON or YAML file
+ * @throws {ConfigurationError} If the file cannot be read or does not match the schema
+ */
+export function loadRetryPolicy(file: string): RetryPolicy {
+  return loadConfigFile(file, 'LINKEDIN_RETRY_POLICY_FILE', 'retry policy', RetryPolicySchema);
+}
+
+/**
+ * Whether an error is a transient failure of LinkedIn or the network, worth retrying
+ */
+export function isTransientError(error: Error, policy: RetryPolicy): boolean {
+  if (error instanceof NetworkError) {
+    return true;
+  }
+
+  return (
+    error instanceof LinkedInApiError &&
+    !(error instanceof CircuitOpenError) &&
+    policy.retryOnStatus.includes(error.statusCode)
+  );
+}
+
+/**
+ * Backoff before retry number `attempt + 1`: a random wait ("full jitter") up to
+ * baseDelayMs doubled per attempt, capped at maxDelayMs
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * The error to fail with once `signal` is aborted
+ */
+export function cancellationError(signal: AbortSignal): CancelledError {
+  return signal.reason instanceof CancelledError ? signal.reason : new CancelledError();
+}
+
+/**
+ * @throws {CancelledError} If `signal` is aborted
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted === true) {
+    throw cancellationError(signal);
+  }
+}
+
+/**
+ * Wait `ms` milliseconds, or until `signal` aborts
+ * @throws {CancelledError} If `signal` aborts first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted === true) {
+      reject(cancellationError(signal));
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(cancellationError(signal as AbortSignal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `operation` with a signal that aborts it after `timeoutMs`, or when `cancelSignal` aborts.
+ * @throws {NetworkError} With code ETIMEDOUT when the timeout aborted the operation
+ * @throws {CancelledError} When `cancelSignal` aborted the operation
+ */
+export async function withTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  cancelSignal?: AbortSignal
+): Promise<T> {
+  throwIfCancelled(cancelSignal);
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onCancel = (): void => controller.abort();
+  cancelSignal?.addEventListener('abort', onCancel, { once: true });
+
+  try {
+    return await operation(controller.signal);
+  } catch (error) {
+    throwIfCancelled(cancelSignal);
+    if (controller.signal.aborted) {
+      throw new NetworkError(`LinkedIn did not respond within ${timeoutMs} ms`, 'ETIMEDOUT');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    cancelSignal?.removeEventListener('abort', onCancel);
+  }
+}
+
+/**
+ * State of a circuit breaker: closed lets calls through, open fails them fast,
+ * half-open lets a single trial call through
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Fails calls fast after `failureThreshold` consecutive failures, for `resetAfterMs`
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly settings: RetryPolicy['circuitBreaker'],
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) {
+      return 'closed';
+    }
+    return this.now() - this.openedAt >= this.settings.resetAfterMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Run `operation` unless the circuit is open. Errors for which `isFailure` is
+   * false show that the service answered, and count as success. Cancelled calls count as neither.
+   * @throws {CircuitOpenError} While the circuit is open, or a trial call is in flight
+   */
+  async run<T>(operation: () => Promise<T>, isFailure: (error: unknown) => boolean): Promise<T> {
+    const state = this.state;
+
+    if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+      const retryAt = new Date((this.openedAt ?? this.now()) + this.settings.resetAfterMs).toISOString();
+      throw new CircuitOpenError(
+        `LinkedIn API unavailable: ${this.failures} consecutive requests failed. Calls fail fast until ${retryAt}.`,
+        retryAt
+      );
+    }
+
+    const trial = state === 'half-open';
+    this.trialInFlight = trial;
+
+    try {
+      const result = await operation();
+      this.close();
+      return result;
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
+      if (isFailure(error)) {
+        this.recordFailure();
+      } else {
+        this.close();
+      }
+      throw error;
+    } finally {
+      if (trial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  private recordFailure(): void {
+    this.failures++;
+
+    // A failed trial opens the circuit for another period
+    if (this.openedAt !== undefined || this.failures >= this.settings.failureThreshold) {
+      this.openedAt = this.now();
+    }
+  }
+
+  private close(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+  }
+}
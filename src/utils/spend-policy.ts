@@ -0,0 +1,156 @@
+import type { LinkedInClient } from '../client.js';
+import { ValidationError } from '../errors.js';
+import {
+  SpendPolicySchema,
+  type AccountSpendPolicy,
+  type ObjectiveType,
+  type SpendPolicy,
+} from '../types.js';
+import { loadConfigFile } from './config-file.js';
+
+/**
+ * Spend guardrails for budget changes.
+ *
+ * The policy is loaded once at startup from LINKEDIN_SPEND_POLICY_FILE and
+ * checked by the campaign and campaign group tools before anything is sent
+ * to LinkedIn (including dry runs).
+ */
+
+/** Name of the policy rule that blocked a change */
+export type SpendRule =
+  | 'maxDailyBudget'
+  | 'maxTotalBudget'
+  | 'maxBudgetIncreasePercent'
+  | 'allowedObjectiveTypes';
+
+/**
+ * A budget-relevant change requested by a tool
+ */
+export interface SpendChange {
+  accountId: string;
+  /** Budget being set: dailyBudget for campaigns, totalBudget for campaign groups */
+  budgetField: 'dailyBudget' | 'totalBudget';
+  /** New budget amount, if the change sets one */
+  budget?: number;
+  /** Objective type of a new campaign */
+  objectiveType?: ObjectiveType;
+}
+
+/**
+ * Load and validate a spend policy from a JSON or YAML file
+ * @throws {ConfigurationError} If the file cannot be read or does not match the policy schema
+ */
+export function loadSpendPolicy(file: string): SpendPolicy {
+  return loadConfigFile(file, 'LINKEDIN_SPEND_POLICY_FILE', 'spend policy', SpendPolicySchema);
+}
+
+/**
+ * Rules in effect for an account: the defaults overridden by the account's own entry
+ */
+export function resolveAccountPolicy(policy: SpendPolicy, accountId: string): AccountSpendPolicy {
+  return { ...policy.defaults, ...policy.accounts[accountId] };
+}
+
+/**
+ * Check a change against the spend policy.
+ * `loadCurrentBudget` is only called when a budget increase limit applies.
+ * @throws {ValidationError} Naming the rule that blocked the change
+ */
+export async function enforceSpendPolicy(
+  policy: SpendPolicy | undefined,
+  change: SpendChange,
+  loadCurrentBudget?: () => Promise<number | undefined>
+): Promise<void> {
+  if (policy === undefined) {
+    return;
+  }
+
+  const rules = resolveAccountPolicy(policy, change.accountId);
+  const { accountId, budgetField, budget, objectiveType } = change;
+
+  if (
+    objectiveType !== undefined &&
+    rules.allowedObjectiveTypes !== undefined &&
+    !rules.allowedObjectiveTypes.includes(objectiveType)
+  ) {
+    throw policyViolation(
+      'allowedObjectiveTypes',
+      'objectiveType',
+      `objective type ${objectiveType} is not in allowedObjectiveTypes (${rules.allowedObjectiveTypes.join(', ')})`,
+      { accountId, limit: rules.allowedObjectiveTypes, requested: objectiveType }
+    );
+  }
+
+  if (budget === undefined) {
+    return;
+  }
+
+  const capRule = budgetField === 'dailyBudget' ? 'maxDailyBudget' : 'maxTotalBudget';
+  const cap = rules[capRule];
+
+  if (cap !== undefined && budget > cap) {
+    throw policyViolation(
+      capRule,
+      budgetField,
+      `${budgetField} ${budget} exceeds ${capRule} ${cap}`,
+      { accountId, limit: cap, requested: budget }
+    );
+  }
+
+  const maxIncrease = rules.maxBudgetIncreasePercent;
+
+  if (maxIncrease === undefined || loadCurrentBudget === undefined) {
+    return;
+  }
+
+  // Entities without a current budget are only checked against the caps
+  const current = await loadCurrentBudget();
+
+  if (current === undefined || current <= 0) {
+    return;
+  }
+
+  const increasePercent = ((budget - current) / current) * 100;
+
+  if (increasePercent > maxIncrease) {
+    throw policyViolation(
+      'maxBudgetIncreasePercent',
+      budgetField,
+      `raising ${budgetField} from ${current} to ${budget} is a ${increasePercent.toFixed(2)}% increase, ` +
+        `above maxBudgetIncreasePercent ${maxIncrease}%`,
+      { accountId, limit: maxIncrease, requested: budget, current, increasePercent: Number(increasePercent.toFixed(2)) }
+    );
+  }
+}
+
+/**
+ * Read the current budget amount of a campaign or campaign group
+ */
+export async function readCurrentBudget(
+  client: LinkedInClient,
+  resourcePath: string,
+  id: string,
+  budgetField: SpendChange['budgetField']
+): Promise<number | undefined> {
+  const entity = await client.get<Record<string, unknown>>(resourcePath, id);
+  const amount = (entity[budgetField] as { amount?: string } | undefined)?.amount;
+  const parsed = amount !== undefined ? parseFloat(amount) : NaN;
+
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * ValidationError whose details carry the rule, limit and requested value
+ */
+function policyViolation(
+  rule: SpendRule,
+  field: string,
+  reason: string,
+  details: { accountId: string } & Record<string, unknown>
+): ValidationError {
+  return new ValidationError(
+    `Spend policy blocked this change for account ${details.accountId}: ${reason}`,
+    field,
+    { rule, ...details }
+  );
+}
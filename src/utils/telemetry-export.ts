@@ -0,0 +1,155 @@
+/**
+ * OpenTelemetry SDK setup: spans and metrics go to an OTLP collector or a JSONL file.
+ */
+
+import { appendFileSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { SpanKind, SpanStatusCode, metrics } from '@opentelemetry/api';
+import { ExportResultCode, hrTimeToMilliseconds, type ExportResult } from '@opentelemetry/core';
+import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  MeterProvider,
+  PeriodicExportingMetricReader,
+  type PushMetricExporter,
+  type ResourceMetrics,
+} from '@opentelemetry/sdk-metrics';
+import {
+  BatchSpanProcessor,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+  type SpanExporter,
+} from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { INSTRUMENTATION_SCOPE, type TelemetryExporter } from './telemetry.js';
+
+/**
+ * Writes finished spans as JSON lines
+ */
+export class FileSpanExporter implements SpanExporter {
+  constructor(private readonly file: string) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    resultCallback(
+      appendLines(
+        this.file,
+        spans.map((span) => ({
+          type: 'span',
+          name: span.name,
+          kind: SpanKind[span.kind],
+          traceId: span.spanContext().traceId,
+          spanId: span.spanContext().spanId,
+          parentSpanId: span.parentSpanContext?.spanId,
+          startTime: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+          durationMs: hrTimeToMilliseconds(span.duration),
+          status: SpanStatusCode[span.status.code],
+          statusMessage: span.status.message,
+          attributes: span.attributes,
+        }))
+      )
+    );
+  }
+
+  shutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Writes every collected metric data point as a JSON line
+ */
+export class FileMetricExporter implements PushMetricExporter {
+  constructor(private readonly file: string) {}
+
+  export(resourceMetrics: ResourceMetrics, resultCallback: (result: ExportResult) => void): void {
+    const lines = resourceMetrics.scopeMetrics.flatMap((scope) =>
+      scope.metrics.flatMap((metric) =>
+        metric.dataPoints.map((point) => ({
+          type: 'metric',
+          name: metric.descriptor.name,
+          unit: metric.descriptor.unit,
+          time: new Date(hrTimeToMilliseconds(point.endTime)).toISOString(),
+          attributes: point.attributes,
+          value: point.value,
+        }))
+      )
+    );
+    resultCallback(appendLines(this.file, lines));
+  }
+
+  forceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  shutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Append records to a JSONL file, reporting failures as an export result
+ */
+function appendLines(file: string, records: unknown[]): ExportResult {
+  if (records.length === 0) {
+    return { code: ExportResultCode.SUCCESS };
+  }
+
+  try {
+    mkdirSync(dirname(file), { recursive: true });
+    appendFileSync(file, records.map((record) => `${JSON.stringify(record)}\n`).join(''));
+    return { code: ExportResultCode.SUCCESS };
+  } catch (error) {
+    return { code: ExportResultCode.FAILED, error: error instanceof Error ? error : new Error(String(error)) };
+  }
+}
+
+/**
+ * Settings for startTelemetry
+ */
+export interface TelemetrySettings {
+  exporter: TelemetryExporter;
+  /** JSONL file for the file exporter */
+  file?: string;
+  /** Interval between metric exports */
+  metricIntervalMs?: number;
+}
+
+/**
+ * Register the OpenTelemetry SDK globally. The OTLP exporter sends to a collector
+ * configured with the standard OTEL_EXPORTER_OTLP_* variables (http://localhost:4318 by default).
+ * The returned function flushes and stops the exporters.
+ */
+export function startTelemetry(settings: TelemetrySettings): () => Promise<void> {
+  const resource = resourceFromAttributes({ 'service.name': process.env.OTEL_SERVICE_NAME ?? INSTRUMENTATION_SCOPE });
+  const toFile = settings.exporter === 'file';
+
+  if (toFile && settings.file === undefined) {
+    throw new Error('The file telemetry exporter requires a file');
+  }
+
+  const tracerProvider = new NodeTracerProvider({
+    resource,
+    spanProcessors: [
+      toFile
+        ? new SimpleSpanProcessor(new FileSpanExporter(settings.file as string))
+        : new BatchSpanProcessor(new OTLPTraceExporter()),
+    ],
+  });
+  tracerProvider.register();
+
+  const meterProvider = new MeterProvider({
+    resource,
+    readers: [
+      new PeriodicExportingMetricReader({
+        exporter: toFile ? new FileMetricExporter(settings.file as string) : new OTLPMetricExporter(),
+        exportIntervalMillis: settings.metricIntervalMs ?? 60_000,
+      }),
+    ],
+  });
+  metrics.setGlobalMeterProvider(meterProvider);
+
+  return async () => {
+    await Promise.all([tracerProvider.shutdown(), meterProvider.shutdown()]);
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * OpenTelemetry instrumentation of tool calls and LinkedIn requests.
+ *
+ * Instrumentation goes through the OpenTelemetry API, which does nothing until
+ * startTelemetry (telemetry-export.ts) registers an SDK for LINKEDIN_OTEL_EXPORTER.
+ */
+
+import {
+  SpanKind,
+  SpanStatusCode,
+  metrics,
+  trace,
+  type Attributes,
+  type Counter,
+  type Histogram,
+  type Meter,
+  type Span,
+  type Tracer,
+} from '@opentelemetry/api';
+
+/** Instrumentation scope of every span and metric */
+export const INSTRUMENTATION_SCOPE = 'linkedin-campaign-manager-mcp';
+
+export const TELEMETRY_EXPORTERS = ['otlp', 'file'] as const;
+export type TelemetryExporter = (typeof TELEMETRY_EXPORTERS)[number];
+
+/**
+ * Outcome of a LinkedIn request, recorded on its span and in the request metrics
+ */
+export interface RequestOutcome {
+  /** Rest.li method (FINDER, GET, CREATE, ...) */
+  method: string;
+  /** Resource path with IDs replaced by `{id}` */
+  endpoint: string;
+  status?: number;
+  retries: number;
+  requestId?: string;
+  durationMs: number;
+  /** Error code or class name when the request failed */
+  errorType?: string;
+}
+
+/**
+ * Ad account a resource path belongs to, e.g. 123 for /adAccounts/123/adCampaigns
+ */
+export function accountIdFromPath(resourcePath: string): string | undefined {
+  return /^\/adAccounts\/(\d+)(\/|$)/.exec(resourcePath)?.[1];
+}
+
+/**
+ * Tracer and metric instruments shared by the tool handlers and LinkedIn clients
+ */
+export class Telemetry {
+  private readonly toolDuration: Histogram;
+  private readonly toolErrors: Counter;
+  private readonly requestDuration: Histogram;
+  private readonly requestRetries: Counter;
+  private readonly requestErrors: Counter;
+
+  constructor(
+    private readonly tracer: Tracer = trace.getTracer(INSTRUMENTATION_SCOPE),
+    meter: Meter = metrics.getMeter(INSTRUMENTATION_SCOPE)
+  ) {
+    this.toolDuration = meter.createHistogram('mcp.tool.duration', {
+      description: 'Duration of MCP tool calls',
+      unit: 'ms',
+    });
+    this.toolErrors = meter.createCounter('mcp.tool.errors', { description: 'MCP tool calls that failed' });
+    this.requestDuration = meter.createHistogram('linkedin.request.duration', {
+      description: 'Duration of LinkedIn API requests, retries included',
+      unit: 'ms',
+    });
+    this.requestRetries = meter.createCounter('linkedin.request.retries', {
+      description: 'Retried LinkedIn API request attempts',
+    });
+    this.requestErrors = meter.createCounter('linkedin.request.errors', {
+      description: 'LinkedIn API requests that failed after all retries',
+    });
+  }
+
+  /**
+   * Run a tool call in an active span; the LinkedIn requests it makes become child spans
+   */
+  toolSpan<T>(tool: string, attributes: Attributes, run: (span: Span) => Promise<T>): Promise<T> {
+    return this.tracer.startActiveSpan(
+      `tool ${tool}`,
+      { attributes: { 'mcp.tool.name': tool, ...attributes } },
+      async (span) => {
+        try {
+          return await run(span);
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }
+
+  /**
+   * Record the outcome of a tool call on its span and in the tool metrics
+   */
+  recordToolCall(span: Span, tool: string, durationMs: number, errorType?: string): void {
+    const attributes: Attributes = { 'mcp.tool.name': tool };
+
+    if (errorType !== undefined) {
+      attributes['error.type'] = errorType;
+      span.setAttribute('error.type', errorType);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: errorType });
+      this.toolErrors.add(1, attributes);
+    }
+    this.toolDuration.record(durationMs, attributes);
+  }
+
+  /**
+   * Run a LinkedIn request in an active client span
+   */
+  requestSpan<T>(name: string, attributes: Attributes, run: (span: Span) => Promise<T>): Promise<T> {
+    return this.tracer.startActiveSpan(name, { kind: SpanKind.CLIENT, attributes }, async (span) => {
+      try {
+        return await run(span);
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Record the outcome of a LinkedIn request on its span and in the request metrics
+   */
+  recordRequest(span: Span, outcome: RequestOutcome): void {
+    const attributes: Attributes = { 'linkedin.method': outcome.method, 'linkedin.endpoint': outcome.endpoint };
+    if (outcome.status !== undefined) {
+      attributes['http.response.status_code'] = outcome.status;
+    }
+
+    span.setAttributes({ ...attributes, 'linkedin.retries': outcome.retries });
+    if (outcome.requestId !== undefined) {
+      span.setAttribute('linkedin.request_id', outcome.requestId);
+    }
+
+    if (outcome.errorType !== undefined) {
+      attributes['error.type'] = outcome.errorType;
+      span.setAttribute('error.type', outcome.errorType);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: outcome.errorType });
+      this.requestErrors.add(1, attributes);
+    }
+    if (outcome.retries > 0) {
+      this.requestRetries.add(outcome.retries, {
+        'linkedin.method': outcome.method,
+        'linkedin.endpoint': outcome.endpoint,
+      });
+    }
+    this.requestDuration.record(outcome.durationMs, attributes);
+  }
+}
@@ -0,0 +1,55 @@
+import type { Config } from '../config.js';
+
+/**
+ * Whether a tool may run under the configured permission profile
+ */
+export type ToolAccess = { allowed: true } | { allowed: false; reason: string };
+
+/**
+ * Whether a tool is enabled; resources and prompts are only served while the tools they use are
+ */
+export type ToolAllowed = (tool: string) => boolean;
+
+/**
+ * Tools that create, update, delete or restore LinkedIn entities
+ */
+export function isMutatingTool(name: string): boolean {
+  return /^(create|update|delete|undo)_/.test(name);
+}
+
+/**
+ * Match a tool name against a pattern where `*` matches any run of characters
+ */
+export function matchesToolPattern(name: string, pattern: string): boolean {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/**
+ * Decide whether a tool is enabled by LINKEDIN_READ_ONLY, LINKEDIN_TOOLS_ALLOW and LINKEDIN_TOOLS_DENY
+ */
+export function getToolAccess(
+  name: string,
+  config: Pick<Config, 'readOnly' | 'toolsAllow' | 'toolsDeny'>
+): ToolAccess {
+  if (config.readOnly && isMutatingTool(name)) {
+    return { allowed: false, reason: 'the server is running with LINKEDIN_READ_ONLY=true' };
+  }
+
+  const denied = config.toolsDeny.find((pattern) => matchesToolPattern(name, pattern));
+  if (denied !== undefined) {
+    return { allowed: false, reason: `it matches LINKEDIN_TOOLS_DENY pattern "${denied}"` };
+  }
+
+  if (
+    config.toolsAllow.length > 0 &&
+    !config.toolsAllow.some((pattern) => matchesToolPattern(name, pattern))
+  ) {
+    return { allowed: false, reason: 'it is not listed in LINKEDIN_TOOLS_ALLOW' };
+  }
+
+  return { allowed: true };
+}
@@ -0,0 +1,179 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  isJSONRPCError,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCMessage,
+  type MessageExtraInfo,
+  type RequestId,
+} from '@modelcontextprotocol/sdk/types.js';
+import { CancelledError } from '../errors.js';
+
+/**
+ * Abort signals and progress tokens of MCP tool calls.
+ *
+ * FastMCP hands tools neither the abort signal nor the progress token of their request,
+ * so the transport is wrapped instead: every `tools/call` request runs in an async context
+ * with its own AbortController, which `notifications/cancelled` for that request aborts.
+ * Progress notifications are sent as part of their request, so Streamable HTTP clients
+ * receive them on the request's stream.
+ */
+
+/**
+ * The MCP request a tool handler runs for
+ */
+export interface ToolCallScope {
+  /** Aborted when the client cancels the request or disconnects */
+  signal: AbortSignal;
+  /** Token for progress notifications, when the client asked for them */
+  progressToken?: string | number;
+}
+
+const scopes = new AsyncLocalStorage<ToolCallScope>();
+
+/**
+ * The tool call the current async context belongs to, if any
+ */
+export function currentToolCall(): ToolCallScope | undefined {
+  return scopes.getStore();
+}
+
+/**
+ * Progress token of a request, from `params._meta.progressToken`
+ */
+function readProgressToken(params: unknown): string | number | undefined {
+  const meta = (params as { _meta?: { progressToken?: unknown } } | undefined)?._meta;
+  const token = meta?.progressToken;
+  return typeof token === 'string' || typeof token === 'number' ? token : undefined;
+}
+
+/**
+ * Tool call in flight
+ */
+interface ActiveCall {
+  controller: AbortController;
+  progressToken?: string | number;
+}
+
+/**
+ * Transport that gives each tool call an abort signal and cancels it on `notifications/cancelled`
+ */
+class ToolCallTransport implements Transport {
+  private readonly calls = new Map<RequestId, ActiveCall>();
+
+  constructor(private readonly inner: Transport) {}
+
+  get sessionId(): string | undefined {
+    return this.inner.sessionId;
+  }
+
+  get onclose(): (() => void) | undefined {
+    return this.inner.onclose;
+  }
+
+  set onclose(handler: (() => void) | undefined) {
+    this.inner.onclose = (): void => {
+      this.cancelAll('The client disconnected');
+      handler?.();
+    };
+  }
+
+  get onerror(): ((error: Error) => void) | undefined {
+    return this.inner.onerror;
+  }
+
+  set onerror(handler: ((error: Error) => void) | undefined) {
+    this.inner.onerror = handler;
+  }
+
+  get onmessage(): ((message: JSONRPCMessage, extra?: MessageExtraInfo) => void) | undefined {
+    return this.inner.onmessage;
+  }
+
+  set onmessage(handler: ((message: JSONRPCMessage, extra?: MessageExtraInfo) => void) | undefined) {
+    if (handler === undefined) {
+      this.inner.onmessage = undefined;
+      return;
+    }
+
+    this.inner.onmessage = (message, extra): void => {
+      if (isJSONRPCRequest(message) && message.method === 'tools/call') {
+        const controller = new AbortController();
+        const progressToken = readProgressToken(message.params);
+        this.calls.set(message.id, { controller, progressToken });
+        // The request handler starts in this context, so the tool handler inherits it
+        scopes.run({ signal: controller.signal, progressToken }, () => handler(message, extra));
+        return;
+      }
+
+      if (isJSONRPCNotification(message) && message.method === 'notifications/cancelled') {
+        const { requestId, reason } = (message.params ?? {}) as { requestId?: RequestId; reason?: string };
+        if (requestId !== undefined) {
+          this.cancel(requestId, reason ?? 'The client cancelled the request');
+        }
+      }
+      handler(message, extra);
+    };
+  }
+
+  start(): Promise<void> {
+    return this.inner.start();
+  }
+
+  send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      this.calls.delete(message.id);
+    }
+    if (isJSONRPCNotification(message) && message.method === 'notifications/progress' &&
+      options?.relatedRequestId === undefined) {
+      const relatedRequestId = this.findCall((message.params as { progressToken?: unknown } | undefined)?.progressToken);
+      if (relatedRequestId !== undefined) {
+        return this.inner.send(message, { ...options, relatedRequestId });
+      }
+    }
+    return this.inner.send(message, options);
+  }
+
+  close(): Promise<void> {
+    return this.inner.close();
+  }
+
+  setProtocolVersion(version: string): void {
+    this.inner.setProtocolVersion?.(version);
+  }
+
+  /**
+   * ID of the tool call that asked for progress with `progressToken`
+   */
+  private findCall(progressToken: unknown): RequestId | undefined {
+    if (progressToken === undefined) {
+      return undefined;
+    }
+    for (const [requestId, call] of this.calls) {
+      if (call.progressToken === progressToken) {
+        return requestId;
+      }
+    }
+    return undefined;
+  }
+
+  private cancel(requestId: RequestId, reason: string): void {
+    this.calls.get(requestId)?.controller.abort(new CancelledError(reason));
+    this.calls.delete(requestId);
+  }
+
+  private cancelAll(reason: string): void {
+    for (const requestId of [...this.calls.keys()]) {
+      this.cancel(requestId, reason);
+    }
+  }
+}
+
+/**
+ * Wrap a transport so tool handlers can find their call with currentToolCall()
+ */
+export function trackToolCalls(transport: Transport): Transport {
+  return new ToolCallTransport(transport);
+}
@@ -0,0 +1,149 @@
+import type { ContentResult } from 'fastmcp';
+import { ZodError } from 'zod';
+import {
+  BadRequestError,
+  CancelledError,
+  ConfigurationError,
+  LinkedInApiError,
+  NetworkError,
+  RateLimitError,
+  ReplayMismatchError,
+  ValidationError,
+  transformError,
+} from '../errors.js';
+
+/**
+ * Error envelope returned by every tool call that fails, so agents can branch on `code`
+ */
+export interface ToolErrorEnvelope {
+  /** Stable error code (e.g. INVALID_INPUT, RATE_LIMIT_ERROR, BAD_REQUEST) */
+  code: string;
+  /** Technical message */
+  message: string;
+  /** What went wrong and what to do about it, for the user */
+  userMessage: string;
+  /** Tool input field at fault, when one is known */
+  field?: string;
+  /** Every field at fault, when there are several */
+  violations?: { field: string; message: string }[];
+  /** Whether calling the tool again later may succeed */
+  retryable: boolean;
+  /** LinkedIn's ID for the failed request */
+  requestId?: string;
+}
+
+/**
+ * Error codes for LinkedIn responses without a more specific error class or code
+ */
+function defaultErrorCode(status: number): string {
+  if (status === 404) {
+    return 'NOT_FOUND';
+  }
+  if (status === 409) {
+    return 'CONFLICT';
+  }
+  return status >= 500 ? 'LINKEDIN_SERVER_ERROR' : 'LINKEDIN_API_ERROR';
+}
+
+/**
+ * Describe any error thrown by a tool handler as an envelope
+ */
+export function toErrorEnvelope(error: unknown): ToolErrorEnvelope {
+  if (error instanceof ZodError) {
+    const violations = error.issues.map((issue) => ({
+      field: issue.path.join('.') || 'input',
+      message: issue.message,
+    }));
+    const summary = violations.map((violation) => `${violation.field}: ${violation.message}`).join('; ');
+
+    return {
+      code: 'INVALID_INPUT',
+      message: `Invalid input: ${summary}`,
+      userMessage: `The tool input is invalid. ${summary}.`,
+      field: violations[0]?.field,
+      violations: violations.length > 1 ? violations : undefined,
+      retryable: false,
+    };
+  }
+
+  const transformed = transformError(error);
+
+  if (transformed instanceof LinkedInApiError) {
+    const violations = transformed instanceof BadRequestError
+      ? transformed.violations.map(({ field, message }) => ({ field, message }))
+      : [];
+
+    return {
+      code: transformed.errorCode ?? defaultErrorCode(transformed.statusCode),
+      message: transformed.message,
+      userMessage: transformed.toUserMessage(),
+      field: violations[0]?.field,
+      violations: violations.length > 1 ? violations : undefined,
+      retryable: transformed instanceof RateLimitError || transformed.statusCode >= 500,
+      requestId: transformed.requestId,
+    };
+  }
+
+  if (transformed instanceof ValidationError) {
+    return {
+      code: 'VALIDATION_ERROR',
+      message: transformed.message,
+      userMessage: transformed.message,
+      field: transformed.field,
+      retryable: false,
+    };
+  }
+
+  if (transformed instanceof NetworkError) {
+    return {
+      code: 'NETWORK_ERROR',
+      message: transformed.message,
+      userMessage: 'LinkedIn could not be reached. Try again in a moment.',
+      retryable: true,
+    };
+  }
+
+  if (transformed instanceof ConfigurationError) {
+    return {
+      code: 'CONFIGURATION_ERROR',
+      message: transformed.message,
+      userMessage: `The server is misconfigured: ${transformed.message}`,
+      retryable: false,
+    };
+  }
+
+  if (transformed instanceof ReplayMismatchError) {
+    return {
+      code: 'REPLAY_MISMATCH',
+      message: transformed.message,
+      userMessage: 'The server is replaying recorded traffic and has no recorded response for this request.',
+      retryable: false,
+    };
+  }
+
+  if (transformed instanceof CancelledError) {
+    return {
+      code: 'CANCELLED',
+      message: transformed.message,
+      userMessage: 'The tool call was cancelled before it finished.',
+      retryable: false,
+    };
+  }
+
+  return {
+    code: 'INTERNAL_ERROR',
+    message: transformed.message,
+    userMessage: transformed.message,
+    retryable: false,
+  };
+}
+
+/**
+ * MCP tool result reporting an error as a JSON envelope with `isError` set
+ */
+export function toolErrorResult(error: unknown): ContentResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify({ error: toErrorEnvelope(error) }, null, 2) }],
+    isError: true,
+  };
+}
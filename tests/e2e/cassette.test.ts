@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LinkedInClient } from '../../src/client.js';
+import { ConfigurationError, LinkedInApiError, ReplayMismatchError } from '../../src/errors.js';
+import { listAdAccounts } from '../../src/tools/accounts.js';
+import { createCampaign, getCampaign } from '../../src/tools/campaigns.js';
+import { startFakeLinkedInServer, type FakeLinkedInServer } from '../support/fake-linkedin-server.js';
+
+/**
+ * Record traffic against the fake LinkedIn API, then replay it with the server gone.
+ */
+
+describe('Cassette record and replay', () => {
+  const token = 'AQVsecret-token-value-123';
+  let server: FakeLinkedInServer;
+  let dir: string;
+
+  beforeEach(async () => {
+    server = await startFakeLinkedInServer({ accessTokens: [token] });
+    server.state.seedAccount({ id: 501, name: 'Main' });
+    dir = mkdtempSync(join(tmpdir(), 'linkedin-cassettes-'));
+  });
+
+  afterEach(async () => {
+    await server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Run the same tool calls in record and replay mode */
+  async function session(client: LinkedInClient): Promise<unknown[]> {
+    const accounts = JSON.parse(await listAdAccounts({}, client));
+    const created = JSON.parse(
+      await createCampaign(
+        { accountId: '501', name: 'Recorded', objectiveType: 'WEBSITE_VISITS', costType: 'CPC', dailyBudget: 10 },
+        client
+      )
+    );
+    const missing = await getCampaign({ accountId: '501', campaignId: '999' }, client).catch(
+      (error: unknown) => error
+    );
+    return [accounts, created, missing];
+  }
+
+  it('replays a recorded session without the network and with the token scrubbed', async () => {
+    const recorded = await session(
+      new LinkedInClient({ accessToken: token, apiVersion: '202601', apiBaseUrl: server.url, recordDir: dir, debug: false })
+    );
+    await server.close();
+    server = await startFakeLinkedInServer();
+
+    const [file] = readdirSync(dir);
+    const text = readFileSync(join(dir, file), 'utf8');
+    expect(text).not.toContain(token);
+    expect(JSON.parse(text).interactions[0].request).toMatchObject({
+      method: 'GET',
+      url: '/adAccounts?q=search',
+      headers: { Authorization: 'Bearer [REDACTED]' },
+    });
+
+    const replayed = await session(
+      new LinkedInClient({ accessToken: 'any', apiVersion: '202601', replayDir: dir, debug: false })
+    );
+
+    expect(replayed.slice(0, 2)).toEqual(recorded.slice(0, 2));
+    expect(replayed[2]).toBeInstanceOf(LinkedInApiError);
+    expect((replayed[2] as LinkedInApiError).statusCode).toBe(404);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('fails loudly on requests that were not recorded', async () => {
+    await listAdAccounts({}, new LinkedInClient({
+      accessToken: token,
+      apiVersion: '202601',
+      apiBaseUrl: server.url,
+      recordDir: dir,
+      debug: false,
+    }));
+
+    const replay = new LinkedInClient({ accessToken: 'any', apiVersion: '202601', replayDir: dir, debug: false });
+
+    await expect(getCampaign({ accountId: '501', campaignId: '1' }, replay)).rejects.toThrow(
+      ReplayMismatchError
+    );
+    await listAdAccounts({}, replay);
+    await expect(listAdAccounts({}, replay)).rejects.toThrow('No recorded response for GET /adAccounts?q=search');
+  });
+
+  it('refuses to replay from a directory without cassettes', () => {
+    expect(
+      () => new LinkedInClient({ accessToken: 'any', apiVersion: '202601', replayDir: dir, debug: false })
+    ).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,455 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LinkedInClient } from '../../src/client.js';
+import { AuthenticationError, LinkedInApiError } from '../../src/errors.js';
+import { listAdAccounts } from '../../src/tools/accounts.js';
+import {
+  listCampaigns,
+  getCampaignsByIds,
+  createCampaign,
+  updateCampaign,
+  deleteCampaign,
+} from '../../src/tools/campaigns.js';
+import { listCreatives, createCreative, deleteCreative } from '../../src/tools/creatives.js';
+import { getAnalytics } from '../../src/tools/analytics.js';
+import { createPost, getPost, updatePost, deletePost } from '../../src/tools/posts.js';
+import { getShareStatistics } from '../../src/tools/organization-analytics.js';
+import { getChangeHistory, undoChange } from '../../src/tools/change-history.js';
+import { checkConnection } from '../../src/tools/connection.js';
+import { AuditLog } from '../../src/utils/audit-log.js';
+import { startFakeLinkedInServer, type FakeLinkedInServer } from '../support/fake-linkedin-server.js';
+
+/**
+ * End-to-end tests for the tool handlers over real HTTP.
+ *
+ * Requests go through linkedin-api-client and axios to the in-process fake
+ * LinkedIn server, so query encoding, headers and response shapes are the
+ * ones the real API sees.
+ */
+
+describe('Tools against the fake LinkedIn API', () => {
+  let server: FakeLinkedInServer;
+  let client: LinkedInClient;
+
+  beforeEach(async () => {
+    server = await startFakeLinkedInServer({ accessTokens: ['e2e-token'] });
+    client = new LinkedInClient({
+      accessToken: 'e2e-token',
+      apiVersion: '202601',
+      apiBaseUrl: server.url,
+      debug: false,
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('sends versioned Rest.li headers with the bearer token', async () => {
+    server.state.seedAccount({ id: 501, name: 'Main' });
+
+    const parsed = JSON.parse(await listAdAccounts({}, client));
+
+    expect(parsed.accounts).toEqual([
+      { id: '501', name: 'Main', status: 'ACTIVE', currency: 'USD', type: 'BUSINESS' },
+    ]);
+    expect(server.requests[0]).toMatchObject({
+      method: 'GET',
+      restliMethod: 'finder',
+      path: '/adAccounts',
+      query: { q: 'search' },
+    });
+    expect(server.requests[0].headers).toMatchObject({
+      authorization: 'Bearer e2e-token',
+      'linkedin-version': '202601',
+      'x-restli-protocol-version': '2.0.0',
+    });
+  });
+
+  it('filters campaigns by status and follows cursors with fetchAll', async () => {
+    for (let i = 0; i < 5; i++) {
+      server.state.seedCampaign('501', { name: `Active ${i}`, status: 'ACTIVE' });
+    }
+    server.state.seedCampaign('501', { name: 'Paused', status: 'PAUSED' });
+
+    const parsed = JSON.parse(
+      await listCampaigns({ accountId: '501', status: 'ACTIVE', pageSize: 2, fetchAll: true }, client)
+    );
+
+    expect(parsed.count).toBe(5);
+    expect(parsed.truncated).toBe(false);
+    expect(server.requests).toHaveLength(3);
+    expect(server.requests[0].rawQuery).toContain('search.status.values%5B0%5D=ACTIVE');
+  });
+
+  it('creates, updates and archives a campaign statefully', async () => {
+    const created = JSON.parse(
+      await createCampaign(
+        {
+          accountId: '501',
+          name: 'Launch',
+          objectiveType: 'WEBSITE_VISITS',
+          costType: 'CPC',
+          dailyBudget: 50,
+        },
+        client
+      )
+    );
+    const campaignId = created.campaign.id as string;
+
+    expect(campaignId).toMatch(/^\d+$/);
+    expect(server.state.get('/adAccounts/501/adCampaigns', campaignId)).toMatchObject({
+      name: 'Launch',
+      account: 'urn:li:sponsoredAccount:501',
+    });
+
+    const updated = JSON.parse(
+      await updateCampaign(
+        { accountId: '501', campaignId, name: 'Launch v2', endDate: '2026-12-31' },
+        client
+      )
+    );
+    expect(updated.campaign.name).toBe('Launch v2');
+    expect(server.state.get('/adAccounts/501/adCampaigns', campaignId)).toMatchObject({
+      runSchedule: { end: expect.any(Number) },
+    });
+
+    await deleteCampaign({ accountId: '501', campaignId }, client);
+    expect(server.state.get('/adAccounts/501/adCampaigns', campaignId)?.status).toBe('ARCHIVED');
+  });
+
+  it('answers what a campaign budget was before it changed from the audit log', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'linkedin-audit-'));
+    const context = { dryRun: false, auditLog: new AuditLog(join(dir, 'audit.jsonl')) };
+
+    try {
+      const created = JSON.parse(
+        await createCampaign(
+          { accountId: '501', name: 'Audited', objectiveType: 'WEBSITE_VISITS', costType: 'CPC', dailyBudget: 40 },
+          client,
+          context
+        )
+      );
+      const campaignId = created.campaign.id as string;
+      await updateCampaign({ accountId: '501', campaignId, dailyBudget: 90 }, client, context);
+
+      const history = JSON.parse(await getChangeHistory({ campaignId }, client, context));
+
+      expect(history.changes.map((change: { tool: string }) => change.tool)).toEqual([
+        'update_campaign',
+        'create_campaign',
+      ]);
+      expect(history.changes[0]).toMatchObject({
+        resourceUrn: `urn:li:sponsoredCampaign:${campaignId}`,
+        accountId: '501',
+        before: { dailyBudget: { amount: '40' } },
+        after: { dailyBudget: { amount: '90' } },
+        outcome: 'success',
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('undoes a recorded budget change unless the campaign changed since', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'linkedin-audit-'));
+    const context = { dryRun: false, auditLog: new AuditLog(join(dir, 'audit.jsonl')) };
+    const campaignId = server.state.seedCampaign('501', {
+      name: 'Steady',
+      dailyBudget: { amount: '40', currencyCode: 'USD' },
+    });
+
+    try {
+      await updateCampaign({ accountId: '501', campaignId, dailyBudget: 90 }, client, context);
+      const [budgetChange] = JSON.parse(await getChangeHistory({ campaignId }, client, context)).changes;
+
+      await undoChange({ changeId: budgetChange.id }, client, context);
+      expect(server.state.get('/adAccounts/501/adCampaigns', campaignId)?.dailyBudget).toEqual({
+        amount: '40',
+        currencyCode: 'USD',
+      });
+
+      await updateCampaign({ accountId: '501', campaignId, dailyBudget: 120 }, client, context);
+      const [secondChange] = JSON.parse(await getChangeHistory({ campaignId }, client, context)).changes;
+      await updateCampaign({ accountId: '501', campaignId, dailyBudget: 150 }, client);
+
+      await expect(undoChange({ changeId: secondChange.id }, client, context)).rejects.toThrow(
+        'has been modified since (dailyBudget)'
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports per-ID errors from BATCH_GET', async () => {
+    const id = server.state.seedCampaign('501', { name: 'Known' });
+
+    const parsed = JSON.parse(
+      await getCampaignsByIds({ accountId: '501', campaignIds: [id, '999'] }, client)
+    );
+
+    expect(server.requests[0].rawQuery).toBe(`ids=List(${id},999)`);
+    expect(parsed.found).toBe(1);
+    expect(parsed.results[1]).toEqual({
+      id: '999',
+      error: { status: 404, message: 'Entity 999 not found' },
+    });
+  });
+
+  it('applies BATCH_PARTIAL_UPDATE patch sets per entity', async () => {
+    const first = server.state.seedCampaign('501', { name: 'First', status: 'ACTIVE' });
+    const second = server.state.seedCampaign('501', { name: 'Second', status: 'ACTIVE' });
+
+    const result = await client.batchPartialUpdate(
+      '/adAccounts/501/adCampaigns',
+      [first, second, '999'],
+      [{ status: 'PAUSED' }, { name: 'Second v2' }, { status: 'PAUSED' }]
+    );
+
+    expect(server.requests[0]).toMatchObject({ method: 'POST', restliMethod: 'batch_partial_update' });
+    expect(server.requests[0].body).toEqual({
+      entities: {
+        [first]: { patch: { $set: { status: 'PAUSED' } } },
+        [second]: { patch: { $set: { name: 'Second v2' } } },
+        '999': { patch: { $set: { status: 'PAUSED' } } },
+      },
+    });
+    expect(result.results).toEqual({ [first]: { status: 204 }, [second]: { status: 204 } });
+    expect(result.errors).toEqual({ '999': expect.objectContaining({ status: 404 }) });
+    expect(server.state.get('/adAccounts/501/adCampaigns', first)).toMatchObject({ name: 'First', status: 'PAUSED' });
+    expect(server.state.get('/adAccounts/501/adCampaigns', second)).toMatchObject({ name: 'Second v2', status: 'ACTIVE' });
+  });
+
+  it('creates and deletes creatives', async () => {
+    const created = JSON.parse(
+      await createCreative(
+        {
+          accountId: '501',
+          campaignId: '77',
+          type: 'SPONSORED_STATUS_UPDATE',
+          text: 'Hello',
+          destinationUrl: 'https://example.com',
+        },
+        client
+      )
+    );
+
+    const listed = JSON.parse(await listCreatives({ accountId: '501' }, client));
+    expect(listed.count).toBe(1);
+
+    const target = { accountId: '501', creativeId: created.creative.id as string };
+    const { confirmationToken } = JSON.parse(await deleteCreative(target, client));
+    expect(JSON.parse(await listCreatives({ accountId: '501' }, client)).count).toBe(1);
+
+    await deleteCreative({ ...target, confirmationToken }, client);
+    expect(JSON.parse(await listCreatives({ accountId: '501' }, client)).count).toBe(0);
+  });
+
+  it('round-trips posts addressed by URN', async () => {
+    const created = JSON.parse(
+      await createPost({ organizationId: '42', text: 'Shipping day' }, client)
+    );
+    expect(created.postUrn).toMatch(/^urn:li:share:\d+$/);
+
+    await updatePost({ postUrn: created.postUrn, text: 'Shipped' }, client);
+    const fetched = JSON.parse(await getPost({ postUrn: created.postUrn }, client));
+    expect(fetched.text).toBe('Shipped');
+
+    const preview = JSON.parse(await deletePost({ postUrn: created.postUrn }, client));
+    expect(preview.preview.text).toBe('Shipped');
+
+    await deletePost({ postUrn: created.postUrn, confirmationToken: preview.confirmationToken }, client);
+    await expect(getPost({ postUrn: created.postUrn }, client)).rejects.toBeInstanceOf(LinkedInApiError);
+  });
+
+  it('decodes Rest.li encoded analytics parameters', async () => {
+    server.state.analytics.push({ pivotValue: 'urn:li:sponsoredCampaign:7', impressions: 1000, clicks: 10 });
+
+    const parsed = JSON.parse(
+      await getAnalytics(
+        { accountId: '501', startDate: '2026-01-01', endDate: '2026-01-31', pivot: 'CAMPAIGN' },
+        client
+      )
+    );
+
+    expect(parsed.analytics[0]).toMatchObject({ impressions: 1000, ctr: '1.00%' });
+    expect(server.requests[0].query).toMatchObject({
+      q: 'analytics',
+      pivot: 'CAMPAIGN',
+      accounts: ['urn:li:sponsoredAccount:501'],
+      dateRange: { start: { year: '2026', month: '1', day: '1' } },
+    });
+  });
+
+  it('serves organization statistics for the requested organization', async () => {
+    server.state.shareStatistics.set('urn:li:organization:42', [
+      {
+        organizationalEntity: 'urn:li:organization:42',
+        totalShareStatistics: { impressionCount: 500, clickCount: 5 },
+      },
+    ]);
+
+    const parsed = JSON.parse(await getShareStatistics({ organizationId: '42' }, client));
+
+    expect(JSON.stringify(parsed)).toContain('500');
+  });
+
+  it('retries after a 429 using the Retry-After header', async () => {
+    server.state.seedAccount({ id: 501, name: 'Main' });
+    server.injectResponse({
+      status: 429,
+      headers: { 'retry-after': '0' },
+      body: { status: 429, message: 'Too many requests' },
+    });
+
+    const parsed = JSON.parse(await listAdAccounts({}, client));
+
+    expect(parsed.count).toBe(1);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('rejects unknown tokens with an authentication error', async () => {
+    const stranger = new LinkedInClient({
+      accessToken: 'wrong-token',
+      apiVersion: '202601',
+      apiBaseUrl: server.url,
+      debug: false,
+    });
+
+    await expect(listAdAccounts({}, stranger)).rejects.toBeInstanceOf(AuthenticationError);
+  });
+});
+
+describe('Access token refresh against the fake LinkedIn API', () => {
+  let server: FakeLinkedInServer;
+  let dir: string;
+
+  beforeEach(async () => {
+    server = await startFakeLinkedInServer({
+      accessTokens: ['fresh-token'],
+      refreshTokens: { 'e2e-refresh-token': 'renewed-token' },
+    });
+    server.state.seedAccount({ id: 501, name: 'Main' });
+    dir = mkdtempSync(join(tmpdir(), 'e2e-token-'));
+  });
+
+  afterEach(async () => {
+    await server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('renews an expired token, retries and persists the new token', async () => {
+    const tokenStoreFile = join(dir, 'token.json');
+    const config = {
+      accessToken: 'expired-token',
+      apiVersion: '202601',
+      apiBaseUrl: server.url,
+      oauthTokenUrl: server.oauthTokenUrl,
+      clientId: 'e2e-client',
+      clientSecret: 'e2e-secret',
+      refreshToken: 'e2e-refresh-token',
+      tokenStoreFile,
+      debug: false,
+    };
+    const client = new LinkedInClient(config);
+
+    const parsed = JSON.parse(await listAdAccounts({}, client));
+
+    expect(parsed.count).toBe(1);
+    expect(server.requests.map((request) => request.headers.authorization ?? request.path)).toEqual([
+      'Bearer expired-token',
+      '/oauth/v2/accessToken',
+      'Bearer renewed-token',
+    ]);
+    expect(client.getTokenStatus()).toMatchObject({ refreshable: true, refreshedAt: expect.any(String) });
+
+    // A restarted server picks up the renewed token from the store
+    server.requests.length = 0;
+    await listAdAccounts({}, new LinkedInClient(config));
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('surfaces a revoked refresh token as an authentication error', async () => {
+    const client = new LinkedInClient({
+      accessToken: 'expired-token',
+      apiVersion: '202601',
+      apiBaseUrl: server.url,
+      oauthTokenUrl: server.oauthTokenUrl,
+      clientId: 'e2e-client',
+      clientSecret: 'e2e-secret',
+      refreshToken: 'revoked-token',
+      debug: false,
+    });
+
+    const error = await listAdAccounts({}, client).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect((error as Error).message).toContain('invalid_grant');
+  });
+});
+
+describe('Connection check against the fake LinkedIn API', () => {
+  let server: FakeLinkedInServer;
+
+  const clientFor = (accessToken: string, apiVersion = '202601'): LinkedInClient =>
+    new LinkedInClient({
+      accessToken,
+      apiVersion,
+      apiBaseUrl: server.url,
+      oauthTokenUrl: server.oauthTokenUrl,
+      clientId: 'e2e-client',
+      clientSecret: 'e2e-secret',
+      debug: false,
+    });
+
+  beforeEach(async () => {
+    server = await startFakeLinkedInServer({
+      accessTokens: ['ads-token', 'community-token'],
+      tokenScopes: { 'ads-token': 'r_ads,rw_ads,r_ads_reporting', 'community-token': 'rw_organization_admin' },
+      apiVersions: ['202601'],
+    });
+    server.state.adAccountUsers.push({ account: 'urn:li:sponsoredAccount:501', role: 'ACCOUNT_MANAGER', user: 'urn:li:person:e2e' });
+    server.state.organizationAcls.push({ organization: 'urn:li:organization:9', role: 'ADMINISTRATOR', roleAssignee: 'urn:li:person:e2e' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('introspects both tokens and identifies the member', async () => {
+    const parsed = JSON.parse(
+      await checkConnection({}, clientFor('ads-token'), { dryRun: false, communityClient: clientFor('community-token') })
+    );
+
+    expect(parsed.apiVersion).toEqual({ version: '202601', accepted: true });
+    expect(parsed.tokens.ads).toMatchObject({
+      valid: true,
+      scopes: ['r_ads', 'rw_ads', 'r_ads_reporting'],
+      member: 'urn:li:person:e2e',
+    });
+    expect(parsed.tokens.community).toMatchObject({ valid: true, scopes: ['rw_organization_admin'] });
+    expect(parsed.tools.unusable.map((entry: { tool: string }) => entry.tool).sort()).toEqual([
+      'create_post',
+      'delete_post',
+      'get_post',
+      'list_posts',
+      'update_post',
+    ]);
+    expect(server.requests.map((request) => request.path)).toEqual(
+      expect.arrayContaining(['/adAccountUsers', '/organizationAcls', '/oauth/v2/introspectToken'])
+    );
+  });
+
+  it('reports an API version LinkedIn does not accept', async () => {
+    const parsed = JSON.parse(await checkConnection({}, clientFor('ads-token', '202301'), { dryRun: false }));
+
+    expect(parsed.apiVersion).toEqual({
+      version: '202301',
+      accepted: false,
+      error: 'Requested version 202301 is not active',
+    });
+    expect(parsed.tokens.ads.valid).toBe(true);
+  });
+});
@@ -0,0 +1,649 @@
+import { createServer, type IncomingHttpHeaders, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { utils } from 'linkedin-api-client';
+
+/**
+ * In-process fake of the LinkedIn Rest.li API used by the end-to-end tests.
+ *
+ * It speaks the same wire format as api.linkedin.com/rest: Rest.li 2.0 query
+ * encoding (plus the dotted `search.status.values[0]` keys the tools send),
+ * X-RestLi-Method dispatch, query tunneling, `X-RestLi-Id` on create and
+ * LinkedIn-style error bodies. Entities live in memory so writes are visible
+ * to later reads.
+ */
+
+export type Entity = Record<string, unknown>;
+
+/**
+ * A request as the fake server received it
+ */
+export interface RecordedRequest {
+  method: string;
+  /** Lower-cased X-RestLi-Method header (e.g. 'finder', 'partial_update') */
+  restliMethod?: string;
+  /** Path relative to the base URL, without the query string */
+  path: string;
+  /** Raw query string exactly as sent */
+  rawQuery: string;
+  /** Query parameters decoded with Rest.li 2.0 rules */
+  query: Record<string, unknown>;
+  headers: IncomingHttpHeaders;
+  body: unknown;
+}
+
+/**
+ * A canned response served instead of the normal route
+ */
+export interface InjectedResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Only intercept requests whose path starts with this prefix */
+  pathPrefix?: string;
+}
+
+export interface FakeLinkedInServerOptions {
+  /** Only these bearer tokens are accepted; any token is accepted when omitted */
+  accessTokens?: string[];
+  /** Refresh tokens the OAuth endpoint accepts, mapped to the access token each one grants */
+  refreshTokens?: Record<string, string>;
+  /** Scopes the introspection endpoint reports, by access token; other tokens are inactive */
+  tokenScopes?: Record<string, string>;
+  /** LinkedIn-Version values accepted; any version is accepted when omitted */
+  apiVersions?: string[];
+}
+
+export interface FakeLinkedInServer {
+  /** Base URL to use as LINKEDIN_API_BASE_URL */
+  url: string;
+  /** Token endpoint to use as LINKEDIN_OAUTH_TOKEN_URL */
+  oauthTokenUrl: string;
+  state: FakeLinkedInState;
+  requests: RecordedRequest[];
+  /** Serve `response` for the next matching request instead of routing it */
+  injectResponse(response: InjectedResponse): void;
+  close(): Promise<void>;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+const OAUTH_TOKEN_PATH = '/oauth/v2/accessToken';
+
+const OAUTH_INTROSPECT_PATH = '/oauth/v2/introspectToken';
+
+const PAGING_PARAMS = new Set(['q', 'fields', 'start', 'count', 'pageSize', 'pageToken', 'sortBy']);
+
+/**
+ * Collections addressable as `<collection>/<key>`, most specific first
+ */
+const COLLECTION_PATTERNS = [
+  /^\/adAccounts\/[^/]+\/(?:adCampaigns|adCampaignGroups|creatives)$/,
+  /^\/adAccounts$/,
+  /^\/posts$/,
+  /^\/organizations$/,
+];
+
+/**
+ * Stateful storage behind the fake server, with seeding helpers for tests
+ */
+export class FakeLinkedInState {
+  readonly collections = new Map<string, Map<string, Entity>>();
+  /** Rows returned by the /adAnalytics finder */
+  readonly analytics: Entity[] = [];
+  /** Share statistics elements keyed by organization URN */
+  readonly shareStatistics = new Map<string, Entity[]>();
+  /** Follower statistics elements keyed by organization URN */
+  readonly followerStatistics = new Map<string, Entity[]>();
+  /** Ad account roles returned by the /adAccountUsers authenticatedUser finder */
+  readonly adAccountUsers: Entity[] = [];
+  /** Organization roles returned by the /organizationAcls roleAssignee finder */
+  readonly organizationAcls: Entity[] = [];
+  private nextId = 1000;
+
+  collection(path: string): Map<string, Entity> {
+    let entities = this.collections.get(path);
+    if (entities === undefined) {
+      entities = new Map();
+      this.collections.set(path, entities);
+    }
+    return entities;
+  }
+
+  /**
+   * Store an entity, assigning the next free ID when the entity has none.
+   * Returns the storage key.
+   */
+  insert(path: string, entity: Entity): string {
+    let id = entity.id;
+    if (id === undefined) {
+      const next = this.nextId++;
+      id = idForCollection(path, next);
+    }
+
+    const key = entityKey(String(id));
+    this.collection(path).set(key, { ...entity, id });
+    return key;
+  }
+
+  seedAccount(entity: Entity): string {
+    return this.insert('/adAccounts', { status: 'ACTIVE', type: 'BUSINESS', currency: 'USD', ...entity });
+  }
+
+  seedCampaign(accountId: string, entity: Entity): string {
+    return this.insert(`/adAccounts/${accountId}/adCampaigns`, {
+      account: `urn:li:sponsoredAccount:${accountId}`,
+      status: 'ACTIVE',
+      ...entity,
+    });
+  }
+
+  seedCampaignGroup(accountId: string, entity: Entity): string {
+    return this.insert(`/adAccounts/${accountId}/adCampaignGroups`, {
+      account: `urn:li:sponsoredAccount:${accountId}`,
+      status: 'ACTIVE',
+      ...entity,
+    });
+  }
+
+  seedCreative(accountId: string, entity: Entity): string {
+    return this.insert(`/adAccounts/${accountId}/creatives`, { intendedStatus: 'ACTIVE', ...entity });
+  }
+
+  seedPost(entity: Entity): string {
+    return this.insert('/posts', { lifecycleState: 'PUBLISHED', ...entity });
+  }
+
+  seedOrganization(entity: Entity): string {
+    return this.insert('/organizations', entity);
+  }
+
+  get(path: string, id: string): Entity | undefined {
+    return this.collections.get(path)?.get(entityKey(id));
+  }
+}
+
+/**
+ * Start a fake LinkedIn API on an ephemeral localhost port
+ */
+export async function startFakeLinkedInServer(
+  options: FakeLinkedInServerOptions = {}
+): Promise<FakeLinkedInServer> {
+  const state = new FakeLinkedInState();
+  const requests: RecordedRequest[] = [];
+  const injected: InjectedResponse[] = [];
+  const accessTokens = options.accessTokens !== undefined ? [...options.accessTokens] : undefined;
+
+  const server = createServer((req, res) => {
+    void readBody(req).then((rawBody) => {
+      const request = parseRequest(req, rawBody);
+      requests.push(request);
+
+      const injectedIndex = injected.findIndex(
+        (candidate) => candidate.pathPrefix === undefined || request.path.startsWith(candidate.pathPrefix)
+      );
+      if (injectedIndex !== -1) {
+        const [response] = injected.splice(injectedIndex, 1);
+        send(res, response.status, response.body, response.headers);
+        return;
+      }
+
+      if (request.path === OAUTH_TOKEN_PATH) {
+        const result = grantToken(request.body as Record<string, string>, options);
+        if (result.status === 200 && accessTokens !== undefined) {
+          accessTokens.push((result.body as { access_token: string }).access_token);
+        }
+        send(res, result.status, result.body);
+        return;
+      }
+
+      if (request.path === OAUTH_INTROSPECT_PATH) {
+        const result = introspectToken(request.body as Record<string, string>, options);
+        send(res, result.status, result.body);
+        return;
+      }
+
+      const authError = checkAuthorization(request, accessTokens, options.apiVersions);
+      if (authError !== undefined) {
+        send(res, authError.status, authError.body);
+        return;
+      }
+
+      const result = route(state, request);
+      send(res, result.status, result.body, result.headers);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/rest`,
+    oauthTokenUrl: `http://127.0.0.1:${port}${OAUTH_TOKEN_PATH}`,
+    state,
+    requests,
+    injectResponse(response: InjectedResponse): void {
+      injected.push(response);
+    },
+    close(): Promise<void> {
+      return new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+    },
+  };
+}
+
+interface RouteResult {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+function route(state: FakeLinkedInState, request: RecordedRequest): RouteResult {
+  const { path, query } = request;
+
+  if (request.method === 'GET' && request.restliMethod === 'finder') {
+    switch (path) {
+      case '/adAnalytics':
+        return { status: 200, body: { elements: state.analytics, paging: { start: 0, count: 10, total: state.analytics.length } } };
+      case '/organizationalEntityShareStatistics':
+        return { status: 200, body: { elements: state.shareStatistics.get(String(query.organizationalEntity)) ?? [] } };
+      case '/organizationalEntityFollowerStatistics':
+        return { status: 200, body: { elements: state.followerStatistics.get(String(query.organizationalEntity)) ?? [] } };
+      case '/adAccountUsers':
+        return { status: 200, body: { elements: state.adAccountUsers, paging: { start: 0, count: 10, total: state.adAccountUsers.length } } };
+      case '/organizationAcls':
+        return { status: 200, body: { elements: state.organizationAcls, paging: { start: 0, count: 10, total: state.organizationAcls.length } } };
+    }
+  }
+
+  const target = resolveCollection(path);
+  if (target === undefined) {
+    return notFound(`No resource found for ${request.method} ${path}`);
+  }
+
+  const entities = state.collection(target.collection);
+  const key = target.key;
+
+  switch (request.restliMethod) {
+    case 'get':
+      return key !== undefined && entities.has(key) ? { status: 200, body: entities.get(key) } : notFound(`${path} not found`);
+
+    case 'batch_get':
+      return { status: 200, body: batchGet(entities, query.ids) };
+
+    case 'get_all':
+      return { status: 200, body: { elements: [...entities.values()] } };
+
+    case 'finder':
+      return { status: 200, body: find([...entities.values()], query) };
+
+    case 'create': {
+      const id = state.insert(target.collection, request.body as Entity);
+      const created = entities.get(id) as Entity;
+      return { status: 201, headers: { 'x-restli-id': utils.reducedEncode(created.id) } };
+    }
+
+    case 'partial_update': {
+      const existing = key !== undefined ? entities.get(key) : undefined;
+      if (key === undefined || existing === undefined) {
+        return notFound(`${path} not found`);
+      }
+      entities.set(key, applyPatch(existing, request.body));
+      return { status: 204 };
+    }
+
+    case 'batch_partial_update':
+      return { status: 200, body: batchPartialUpdate(entities, request.body) };
+
+    case 'update': {
+      if (key === undefined || !entities.has(key)) {
+        return notFound(`${path} not found`);
+      }
+      entities.set(key, { ...(request.body as Entity), id: entities.get(key)?.id });
+      return { status: 204 };
+    }
+
+    case 'delete':
+      return key !== undefined && entities.delete(key) ? { status: 204 } : notFound(`${path} not found`);
+
+    default:
+      return {
+        status: 400,
+        body: { status: 400, code: 'ILLEGAL_ARGUMENT', message: `Unsupported Rest.li method ${request.restliMethod ?? '(none)'}` },
+      };
+  }
+}
+
+/**
+ * Split a request path into its collection and (optional) entity key
+ */
+function resolveCollection(path: string): { collection: string; key?: string } | undefined {
+  for (const pattern of COLLECTION_PATTERNS) {
+    if (pattern.test(path)) {
+      return { collection: path };
+    }
+
+    const slash = path.lastIndexOf('/');
+    const parent = path.slice(0, slash);
+    if (slash > 0 && pattern.test(parent)) {
+      return { collection: parent, key: entityKey(decodeURIComponent(path.slice(slash + 1))) };
+    }
+  }
+  return undefined;
+}
+
+function batchGet(entities: Map<string, Entity>, ids: unknown): Entity {
+  const results: Entity = {};
+  const errors: Entity = {};
+  const statuses: Record<string, number> = {};
+
+  for (const id of toList(ids)) {
+    const entity = entities.get(entityKey(id));
+    if (entity !== undefined) {
+      results[id] = entity;
+      statuses[id] = 200;
+    } else {
+      errors[id] = { status: 404, code: 'NOT_FOUND', message: `Entity ${id} not found` };
+      statuses[id] = 404;
+    }
+  }
+
+  return { results, errors, statuses };
+}
+
+function batchPartialUpdate(entities: Map<string, Entity>, body: unknown): Entity {
+  const updates = ((body as Entity | undefined)?.entities ?? {}) as Record<string, unknown>;
+  const results: Entity = {};
+  const errors: Entity = {};
+
+  for (const [encodedId, patch] of Object.entries(updates)) {
+    const id = String(utils.decode(encodedId));
+    const key = entityKey(id);
+    const existing = entities.get(key);
+    if (existing === undefined) {
+      errors[id] = { status: 404, code: 'NOT_FOUND', message: `Entity ${id} not found` };
+      continue;
+    }
+    entities.set(key, applyPatch(existing, patch));
+    results[id] = { status: 204 };
+  }
+
+  return { results, errors };
+}
+
+/**
+ * Apply a Rest.li `{ patch: { $set } }` body. Dotted keys such as `runSchedule.end` set nested fields.
+ */
+function applyPatch(entity: Entity, body: unknown): Entity {
+  const updated = structuredClone(entity);
+  const set = ((body as { patch?: { $set?: Entity } } | undefined)?.patch?.$set ?? {}) as Entity;
+
+  for (const [field, value] of Object.entries(set)) {
+    const segments = field.split('.');
+    let target = updated;
+    for (const segment of segments.slice(0, -1)) {
+      if (typeof target[segment] !== 'object' || target[segment] === null) {
+        target[segment] = {};
+      }
+      target = target[segment] as Entity;
+    }
+    target[segments[segments.length - 1]] = value;
+  }
+
+  return updated;
+}
+
+/**
+ * Run a finder: filter by search criteria and simple equality params, then page.
+ * Uses cursor paging (pageSize/pageToken) when asked for, offset paging (start/count) otherwise.
+ */
+function find(entities: Entity[], query: Record<string, unknown>): Entity {
+  const criteria = searchCriteria(query);
+
+  const matches = entities.filter((entity) => {
+    for (const [field, values] of criteria) {
+      if (!values.includes(String(entity[field]))) {
+        return false;
+      }
+    }
+    for (const [param, value] of Object.entries(query)) {
+      if (PAGING_PARAMS.has(param) || param.startsWith('search') || !(param in entity)) {
+        continue;
+      }
+      if (String(entity[param]) !== String(value)) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  if (query.pageSize !== undefined || query.pageToken !== undefined) {
+    const size = query.pageSize !== undefined ? Number(query.pageSize) : DEFAULT_PAGE_SIZE;
+    const start = query.pageToken !== undefined ? decodePageToken(String(query.pageToken)) : 0;
+    const end = start + size;
+    return {
+      elements: matches.slice(start, end),
+      metadata: end < matches.length ? { nextPageToken: encodePageToken(end) } : {},
+    };
+  }
+
+  const start = query.start !== undefined ? Number(query.start) : 0;
+  const count = query.count !== undefined ? Number(query.count) : DEFAULT_PAGE_SIZE;
+  return {
+    elements: matches.slice(start, start + count),
+    paging: { start, count, total: matches.length },
+  };
+}
+
+/**
+ * Collect search criteria from either Rest.li 2.0 form (`search=(status:(values:List(ACTIVE)))`)
+ * or the dotted form (`search.status.values[0]=ACTIVE`)
+ */
+function searchCriteria(query: Record<string, unknown>): Map<string, string[]> {
+  const criteria = new Map<string, string[]>();
+  const add = (field: string, value: unknown): void => {
+    criteria.set(field, [...(criteria.get(field) ?? []), ...toList(value)]);
+  };
+
+  const search = query.search;
+  if (typeof search === 'object' && search !== null) {
+    for (const [field, condition] of Object.entries(search as Entity)) {
+      add(field, (condition as Entity | undefined)?.values);
+    }
+  }
+
+  for (const [param, value] of Object.entries(query)) {
+    const match = /^search\.([^.]+)\.values\[\d+\]$/.exec(param);
+    if (match !== null) {
+      add(match[1], value);
+    }
+  }
+
+  return criteria;
+}
+
+function checkAuthorization(
+  request: RecordedRequest,
+  accessTokens: string[] | undefined,
+  apiVersions: string[] | undefined
+): RouteResult | undefined {
+  const header = request.headers.authorization ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+  if (token === '' || (accessTokens !== undefined && !accessTokens.includes(token))) {
+    return {
+      status: 401,
+      body: { status: 401, serviceErrorCode: 65600, code: 'INVALID_ACCESS_TOKEN', message: 'Invalid access token' },
+    };
+  }
+
+  if (request.headers['linkedin-version'] === undefined) {
+    return {
+      status: 400,
+      body: { status: 400, code: 'VERSION_MISSING', message: 'A version must be present. Please specify a version by adding the LinkedIn-Version header.' },
+    };
+  }
+
+  const version = headerValue(request.headers['linkedin-version']) ?? '';
+  if (apiVersions !== undefined && !apiVersions.includes(version)) {
+    return {
+      status: 426,
+      body: { status: 426, code: 'NONEXISTENT_VERSION', message: `Requested version ${version} is not active` },
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Answer a refresh_token grant like www.linkedin.com/oauth/v2/accessToken
+ */
+function grantToken(params: Record<string, string>, options: FakeLinkedInServerOptions): RouteResult {
+  const refreshToken = params.refresh_token ?? '';
+  const accessToken = options.refreshTokens?.[refreshToken];
+
+  if (params.grant_type !== 'refresh_token' || params.client_id === undefined || params.client_secret === undefined) {
+    return { status: 400, body: { error: 'invalid_request', error_description: 'Unsupported token request' } };
+  }
+
+  if (accessToken === undefined) {
+    return { status: 400, body: { error: 'invalid_grant', error_description: 'The provided refresh token is invalid' } };
+  }
+
+  return {
+    status: 200,
+    body: {
+      access_token: accessToken,
+      expires_in: 5184000,
+      refresh_token: refreshToken,
+      refresh_token_expires_in: 31536000,
+      scope: 'r_ads,rw_ads,r_ads_reporting',
+    },
+  };
+}
+
+/**
+ * Answer like www.linkedin.com/oauth/v2/introspectToken
+ */
+function introspectToken(params: Record<string, string>, options: FakeLinkedInServerOptions): RouteResult {
+  if (params.client_id === undefined || params.client_secret === undefined) {
+    return { status: 401, body: { error: 'invalid_client', error_description: 'Client authentication failed' } };
+  }
+
+  const scope = options.tokenScopes?.[params.token ?? ''];
+  if (scope === undefined) {
+    return { status: 200, body: { active: false } };
+  }
+
+  return {
+    status: 200,
+    body: {
+      active: true,
+      status: 'active',
+      scope,
+      client_id: params.client_id,
+      auth_type: '3L',
+      expires_at: Math.floor(Date.now() / 1000) + 5184000,
+    },
+  };
+}
+
+function parseRequest(req: IncomingMessage, rawBody: string): RecordedRequest {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const path = url.pathname.replace(/^\/rest(?=\/)/, '');
+  const restliMethod = headerValue(req.headers['x-restli-method'])?.toLowerCase();
+  let rawQuery = url.search.replace(/^\?/, '');
+  let bodyText = rawBody;
+  let method = req.method ?? 'GET';
+
+  // Query tunneling: long GETs arrive as form-encoded POSTs
+  const override = headerValue(req.headers['x-http-method-override']);
+  if (method === 'POST' && override !== undefined) {
+    method = override.toUpperCase();
+    if (req.headers['content-type']?.startsWith('application/x-www-form-urlencoded') === true) {
+      rawQuery = rawBody;
+      bodyText = '';
+    }
+  }
+
+  return {
+    method,
+    restliMethod,
+    path,
+    rawQuery,
+    query: rawQuery === '' ? {} : (utils.paramDecode(rawQuery) as Record<string, unknown>),
+    headers: req.headers,
+    body: parseBody(bodyText, req.headers['content-type']),
+  };
+}
+
+function parseBody(text: string, contentType: string | undefined): unknown {
+  if (text === '') {
+    return undefined;
+  }
+  if (contentType?.startsWith('application/x-www-form-urlencoded') === true) {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+  return JSON.parse(text);
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}): void {
+  const payload = body === undefined ? '' : JSON.stringify(body);
+  res.writeHead(status, {
+    ...(payload !== '' ? { 'content-type': 'application/json' } : {}),
+    'x-li-uuid': `fake-${Math.random().toString(36).slice(2)}`,
+    ...headers,
+  });
+  res.end(payload);
+}
+
+function notFound(message: string): RouteResult {
+  return { status: 404, body: { status: 404, code: 'NOT_FOUND', message } };
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function toList(value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value.map(String) : [String(value)];
+}
+
+/**
+ * Storage key for an entity ID: URNs are keyed by their trailing numeric part
+ */
+function entityKey(id: string): string {
+  return id.startsWith('urn:') ? id.slice(id.lastIndexOf(':') + 1) : id;
+}
+
+/**
+ * Mirror LinkedIn's ID shapes: numeric for ad accounts, campaigns and groups, URNs elsewhere
+ */
+function idForCollection(path: string, next: number): string | number {
+  if (path.endsWith('/creatives')) {
+    return `urn:li:sponsoredCreative:${next}`;
+  }
+  if (path === '/posts') {
+    return `urn:li:share:${next}`;
+  }
+  return next;
+}
+
+function encodePageToken(offset: number): string {
+  return Buffer.from(`offset:${offset}`).toString('base64url');
+}
+
+function decodePageToken(token: string): number {
+  const offset = Number(Buffer.from(token, 'base64url').toString('utf8').replace(/^offset:/, ''));
+  return Number.isFinite(offset) ? offset : 0;
+}
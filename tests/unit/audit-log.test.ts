@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { LinkedInClient } from '../../src/client.js';
+import { AuditLog, auditMutation, type AuditRecord } from '../../src/utils/audit-log.js';
+import { Logger } from '../../src/utils/logger.js';
+
+/**
+ * Tests for the JSONL audit log of mutations.
+ */
+
+function record(overrides: Partial<AuditRecord>): AuditRecord {
+  return {
+    id: 'r',
+    timestamp: '2026-03-01T12:00:00.000Z',
+    tool: 'update_campaign',
+    input: {},
+    resourceUrn: 'urn:li:sponsoredCampaign:1',
+    accountId: '456',
+    campaignId: '1',
+    before: null,
+    after: null,
+    outcome: 'success',
+    ...overrides,
+  };
+}
+
+describe('AuditLog', () => {
+  let dir: string;
+  let auditLog: AuditLog;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-log-'));
+    auditLog = new AuditLog(join(dir, 'nested', 'audit.jsonl'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('starts empty and appends one JSON line per record', async () => {
+    expect(await auditLog.readAll()).toEqual([]);
+
+    auditLog.append(record({ id: 'a' }));
+    auditLog.append(record({ id: 'b' }));
+
+    expect(readFileSync(auditLog.file, 'utf8').trim().split('\n')).toHaveLength(2);
+    expect((await auditLog.readAll()).map((r) => r.id)).toEqual(['a', 'b']);
+  });
+
+  it('skips and reports lines that are not valid JSON', async () => {
+    const lines: Record<string, unknown>[] = [];
+    const logger = new Logger('warn', [], (line) => lines.push(JSON.parse(line) as Record<string, unknown>));
+    const logged = new AuditLog(auditLog.file, logger);
+    logged.append(record({ id: 'a' }));
+    appendFileSync(logged.file, '{"id":"cut-sh\n');
+    logged.append(record({ id: 'b' }));
+
+    expect((await logged.readAll()).map((r) => r.id)).toEqual(['a', 'b']);
+    expect(lines).toEqual([
+      expect.objectContaining({ level: 'warn', msg: 'Skipped unreadable audit log line', file: logged.file, line: 2 }),
+    ]);
+  });
+
+  it('filters by account, campaign and time window, newest first', async () => {
+    auditLog.append(record({ id: 'old', timestamp: '2026-01-15T00:00:00.000Z' }));
+    auditLog.append(record({ id: 'other-campaign', campaignId: '2' }));
+    auditLog.append(record({ id: 'other-account', accountId: '789' }));
+    auditLog.append(record({ id: 'mid' }));
+    auditLog.append(record({ id: 'new', timestamp: '2026-03-02T00:00:00.000Z' }));
+
+    const recent = await auditLog.query({ accountId: '456', campaignId: '1', since: new Date('2026-02-01') });
+    const older = await auditLog.query({ until: new Date('2026-02-01') });
+
+    expect(recent.map((r) => r.id)).toEqual(['new', 'mid']);
+    expect(older.map((r) => r.id)).toEqual(['old']);
+  });
+});
+
+describe('auditMutation', () => {
+  let mockClient: LinkedInClient;
+  let auditLog: AuditLog;
+  let dir: string;
+
+  beforeEach(() => {
+    mockClient = { get: vi.fn() } as unknown as LinkedInClient;
+    dir = mkdtempSync(join(tmpdir(), 'audit-log-'));
+    auditLog = new AuditLog(join(dir, 'audit.jsonl'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const change = {
+    tool: 'update_campaign',
+    input: { campaignId: '123', dailyBudget: 200 },
+    resourcePath: '/adAccounts/456/adCampaigns',
+    key: '123',
+    urnType: 'sponsoredCampaign',
+    accountId: '456',
+  };
+
+  it('runs the mutation without reads when auditing is disabled', async () => {
+    const result = await auditMutation({ dryRun: false }, mockClient, change, () =>
+      Promise.resolve({ id: 123 })
+    );
+
+    expect(result).toEqual({ id: 123 });
+    expect(mockClient.get).not.toHaveBeenCalled();
+  });
+
+  it('records before and after snapshots', async () => {
+    vi.mocked(mockClient.get).mockResolvedValue({ id: 123, dailyBudget: { amount: '100', currencyCode: 'USD' } });
+
+    await auditMutation({ dryRun: false, auditLog, profile: 'brand-a', apiKeyName: 'alice' }, mockClient, change, () =>
+      Promise.resolve({ id: 123, dailyBudget: { amount: '200', currencyCode: 'USD' } })
+    );
+
+    const [entry] = await auditLog.readAll();
+    expect(entry).toMatchObject({
+      tool: 'update_campaign',
+      profile: 'brand-a',
+      apiKeyName: 'alice',
+      input: change.input,
+      resourceUrn: 'urn:li:sponsoredCampaign:123',
+      accountId: '456',
+      campaignId: '123',
+      before: { dailyBudget: { amount: '100' } },
+      after: { dailyBudget: { amount: '200' } },
+      outcome: 'success',
+    });
+    expect(entry.id).toEqual(expect.any(String));
+  });
+
+  it('reads created entities back for the after-state', async () => {
+    vi.mocked(mockClient.get).mockResolvedValue({ id: 77, campaign: 'urn:li:sponsoredCampaign:9', status: 'DRAFT' });
+
+    await auditMutation(
+      { dryRun: false, auditLog },
+      mockClient,
+      { tool: 'create_creative', input: {}, resourcePath: '/adAccounts/456/creatives', urnType: 'sponsoredCreative' },
+      () => Promise.resolve({ id: '77' })
+    );
+
+    expect(mockClient.get).toHaveBeenCalledWith('/adAccounts/456/creatives', '77');
+    expect((await auditLog.readAll())[0]).toMatchObject({
+      resourceUrn: 'urn:li:sponsoredCreative:77',
+      campaignId: '9',
+      before: null,
+      after: { id: 77, status: 'DRAFT' },
+    });
+  });
+
+  it('reads created posts back by their encoded URN, keeping the response when that fails', async () => {
+    vi.mocked(mockClient.get).mockRejectedValue(new Error('not yet readable'));
+
+    await auditMutation(
+      { dryRun: false, auditLog },
+      mockClient,
+      { tool: 'create_post', input: {}, resourcePath: '/posts', urnType: 'share' },
+      () => Promise.resolve({ id: 'urn:li:share:5' })
+    );
+
+    expect(mockClient.get).toHaveBeenCalledWith('/posts', encodeURIComponent('urn:li:share:5'));
+    expect((await auditLog.readAll())[0]).toMatchObject({ resourceUrn: 'urn:li:share:5', after: { id: 'urn:li:share:5' } });
+  });
+
+  it('records failures and rethrows them', async () => {
+    vi.mocked(mockClient.get).mockRejectedValue(new Error('not found'));
+
+    await expect(
+      auditMutation({ dryRun: false, auditLog }, mockClient, change, () => Promise.reject(new Error('Denied')))
+    ).rejects.toThrow('Denied');
+
+    expect((await auditLog.readAll())[0]).toMatchObject({ outcome: 'error', error: 'Denied', before: null, after: null });
+  });
+
+  it('re-reads the entity for the after-state when asked', async () => {
+    vi.mocked(mockClient.get)
+      .mockResolvedValueOnce({ status: 'ACTIVE' })
+      .mockResolvedValueOnce({ status: 'ARCHIVED' });
+
+    const result = await auditMutation(
+      { dryRun: false, auditLog },
+      mockClient,
+      { ...change, tool: 'delete_campaign', readAfter: true },
+      () => Promise.resolve(null)
+    );
+
+    expect(result).toBeNull();
+    expect((await auditLog.readAll())[0]).toMatchObject({ before: { status: 'ACTIVE' }, after: { status: 'ARCHIVED' } });
+  });
+});
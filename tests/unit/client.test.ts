@@ -1,18 +1,35 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { LinkedInClient, createLinkedInClient } from '../../src/client.js';
-import { RateLimitError, LinkedInApiError, AuthenticationError } from '../../src/errors.js';
+import { LinkedInClient, createLinkedInClient, getNextPageToken, pageTokenParams } from '../../src/client.js';
+import {
+  RateLimitError,
+  LinkedInApiError,
+  AuthenticationError,
+  QuotaExceededError,
+  CircuitOpenError,
+  NetworkError,
+  ValidationError,
+  CancelledError,
+} from '../../src/errors.js';
+import { RateLimitPolicySchema, RetryPolicySchema } from '../../src/types.js';
+import { Logger } from '../../src/utils/logger.js';
+import { Telemetry } from '../../src/utils/telemetry.js';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
 
 // Mock the linkedin-api-client module
 vi.mock('linkedin-api-client', () => ({
   RestliClient: vi.fn().mockImplementation(() => ({
     finder: vi.fn(),
     get: vi.fn(),
+    batchGet: vi.fn(),
     getAll: vi.fn(),
     create: vi.fn(),
     update: vi.fn(),
     partialUpdate: vi.fn(),
+    batchPartialUpdate: vi.fn(),
     delete: vi.fn(),
+    axiosInstance: { interceptors: { request: { use: vi.fn() } } },
   })),
+  utils: { VERSIONED_BASE_URL: 'https://api.linkedin.com/rest' },
 }));
 
 // Import after mocking
@@ -47,6 +64,25 @@ describe('LinkedInClient', () => {
     });
   });
 
+  describe('apiBaseUrl', () => {
+    it('does not touch requests by default', () => {
+      expect(mockRestliClient.axiosInstance.interceptors.request.use).not.toHaveBeenCalled();
+    });
+
+    it('rewrites the LinkedIn base URL to the configured one', () => {
+      new LinkedInClient({ ...mockConfig, apiBaseUrl: 'http://127.0.0.1:4010/' });
+      const instance = vi.mocked(RestliClient).mock.results[1].value;
+      const rewrite = instance.axiosInstance.interceptors.request.use.mock.calls[0][0];
+
+      expect(rewrite({ url: 'https://api.linkedin.com/rest/adAccounts?q=search' })).toEqual({
+        url: 'http://127.0.0.1:4010/adAccounts?q=search',
+      });
+      expect(rewrite({ url: 'https://www.linkedin.com/oauth/v2/accessToken' })).toEqual({
+        url: 'https://www.linkedin.com/oauth/v2/accessToken',
+      });
+    });
+  });
+
   describe('finder', () => {
     it('calls RestliClient.finder with correct parameters', async () => {
       const mockResponse = { data: { elements: [{ id: '123' }] } };
@@ -60,6 +96,7 @@ describe('LinkedInClient', () => {
         queryParams: { q: 'test' },
         accessToken: 'test-token',
         versionString: '202601',
+        additionalConfig: { signal: expect.any(AbortSignal) },
       });
       expect(result).toEqual({ elements: [{ id: '123' }] });
     });
@@ -75,6 +112,168 @@ describe('LinkedInClient', () => {
     });
   });
 
+  describe('getNextPageToken', () => {
+    it('reads metadata.nextPageToken', () => {
+      expect(getNextPageToken({ elements: [], metadata: { nextPageToken: 'abc' } })).toBe('abc');
+    });
+
+    it('returns undefined for missing or empty tokens', () => {
+      expect(getNextPageToken({ elements: [] })).toBeUndefined();
+      expect(getNextPageToken({ elements: [], metadata: { nextPageToken: '' } })).toBeUndefined();
+    });
+
+    it('prefers the cursor LinkedIn returns', () => {
+      expect(
+        getNextPageToken({ elements: [{}], paging: { start: 0, count: 1, total: 2 }, metadata: { nextPageToken: 'c1' } })
+      ).toBe('c1');
+    });
+
+    it('encodes the next start of offset-paged collections', () => {
+      expect(getNextPageToken({ elements: [{}, {}], paging: { start: 10, count: 2, total: 20 } })).toBe('start:12');
+      expect(getNextPageToken({ elements: [{}, {}], paging: { start: 18, count: 2, total: 20 } })).toBeUndefined();
+    });
+  });
+
+  describe('pageTokenParams', () => {
+    it('turns start tokens into offsets and passes other tokens on', () => {
+      expect(pageTokenParams('start:12')).toEqual({ start: 12 });
+      expect(pageTokenParams('start:x')).toEqual({ pageToken: 'start:x' });
+      expect(pageTokenParams('c1')).toEqual({ pageToken: 'c1' });
+    });
+
+    it('sends the page size as count with start tokens', () => {
+      expect(pageTokenParams('start:12', 10)).toEqual({ start: 12, count: 10 });
+      expect(pageTokenParams('c1', 10)).toEqual({ pageToken: 'c1', pageSize: 10 });
+      expect(pageTokenParams(undefined, 10)).toEqual({ pageSize: 10 });
+    });
+  });
+
+  describe('paginate', () => {
+    it('follows nextPageToken cursors until the last page', async () => {
+      mockRestliClient.finder
+        .mockResolvedValueOnce({ data: { elements: [{ id: 1 }, { id: 2 }], metadata: { nextPageToken: 't1' } } })
+        .mockResolvedValueOnce({ data: { elements: [{ id: 3 }], metadata: {} } });
+
+      const pages = [];
+      for await (const page of client.paginate('/adAccounts', 'search', { a: 1 }, { pageSize: 2 })) {
+        pages.push(page);
+      }
+
+      expect(pages).toHaveLength(2);
+      expect(mockRestliClient.finder).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ queryParams: { a: 1, pageSize: 2 } })
+      );
+      expect(mockRestliClient.finder).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ queryParams: { a: 1, pageSize: 2, pageToken: 't1' } })
+      );
+    });
+
+    it('falls back to offset paging when no cursor is returned', async () => {
+      mockRestliClient.finder
+        .mockResolvedValueOnce({ data: { elements: [{ id: 1 }, { id: 2 }], paging: { start: 0, count: 2, total: 3 } } })
+        .mockResolvedValueOnce({ data: { elements: [{ id: 3 }], paging: { start: 2, count: 2, total: 3 } } });
+
+      const collected = await client.finderAll('/posts', 'author', {});
+
+      expect(collected.elements).toHaveLength(3);
+      expect(mockRestliClient.finder).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ queryParams: { start: 2 } })
+      );
+    });
+
+    it('pages offset collections with start and count', async () => {
+      mockRestliClient.finder
+        .mockResolvedValueOnce({ data: { elements: [{ id: 3 }, { id: 4 }], paging: { start: 2, count: 2, total: 5 } } })
+        .mockResolvedValueOnce({ data: { elements: [{ id: 5 }], paging: { start: 4, count: 2, total: 5 } } });
+
+      const collected = await client.finderAll('/posts', 'author', {}, { pageToken: 'start:2', pageSize: 2 });
+
+      expect(collected.elements).toHaveLength(3);
+      expect(mockRestliClient.finder).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ queryParams: { start: 2, count: 2 } })
+      );
+      expect(mockRestliClient.finder).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ queryParams: { start: 4, count: 2 } })
+      );
+    });
+
+    it('resumes offset paging from a start token', async () => {
+      mockRestliClient.finder.mockResolvedValueOnce({
+        data: { elements: [{ id: 3 }], paging: { start: 2, count: 2, total: 3 } },
+      });
+
+      const collected = await client.finderAll('/posts', 'author', {}, { pageToken: 'start:2' });
+
+      expect(collected.elements).toEqual([{ id: 3 }]);
+      expect(mockRestliClient.finder).toHaveBeenCalledWith(expect.objectContaining({ queryParams: { start: 2 } }));
+    });
+
+    it('stops when the server repeats the same cursor', async () => {
+      mockRestliClient.finder.mockResolvedValue({
+        data: { elements: [{ id: 1 }], metadata: { nextPageToken: 'same' } },
+      });
+
+      const collected = await client.finderAll('/adAccounts', 'search', {}, { pageToken: 'same' });
+
+      expect(mockRestliClient.finder).toHaveBeenCalledTimes(1);
+      expect(collected.elements).toHaveLength(1);
+    });
+  });
+
+  describe('finderAll', () => {
+    it('collects every page', async () => {
+      mockRestliClient.finder
+        .mockResolvedValueOnce({ data: { elements: [{ id: 1 }], metadata: { nextPageToken: 't1' } } })
+        .mockResolvedValueOnce({ data: { elements: [{ id: 2 }] } });
+
+      const collected = await client.finderAll('/adAccounts', 'search');
+
+      expect(collected).toEqual({
+        elements: [{ id: 1 }, { id: 2 }],
+        nextPageToken: undefined,
+        truncated: false,
+      });
+    });
+
+    it('shrinks the last page and reports truncation at maxElements', async () => {
+      mockRestliClient.finder
+        .mockResolvedValueOnce({ data: { elements: [{ id: 1 }, { id: 2 }], metadata: { nextPageToken: 't1' } } })
+        .mockResolvedValueOnce({ data: { elements: [{ id: 3 }], metadata: { nextPageToken: 't2' } } });
+
+      const collected = await client.finderAll('/adAccounts', 'search', {}, { pageSize: 2, maxElements: 3 });
+
+      expect(mockRestliClient.finder).toHaveBeenCalledTimes(2);
+      expect(mockRestliClient.finder).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ queryParams: { pageSize: 1, pageToken: 't1' } })
+      );
+      expect(collected).toEqual({
+        elements: [{ id: 1 }, { id: 2 }, { id: 3 }],
+        nextPageToken: 't2',
+        truncated: true,
+      });
+    });
+
+    it('reports the elements received after each page', async () => {
+      mockRestliClient.finder
+        .mockResolvedValueOnce({ data: { elements: [{ id: 1 }, { id: 2 }], paging: { start: 0, count: 2, total: 3 } } })
+        .mockResolvedValueOnce({ data: { elements: [{ id: 3 }], paging: { start: 2, count: 2, total: 3 } } });
+      const onPage = vi.fn();
+
+      await client.finderAll('/adAccounts', 'search', {}, { pageSize: 2, onPage });
+
+      expect(onPage.mock.calls).toEqual([
+        [2, 3],
+        [3, 3],
+      ]);
+    });
+  });
+
   describe('get', () => {
     it('calls RestliClient.get with resource path and ID', async () => {
       const mockResponse = { data: { id: '123', name: 'Test' } };
@@ -86,11 +285,48 @@ describe('LinkedInClient', () => {
         resourcePath: '/adAccounts/123',
         accessToken: 'test-token',
         versionString: '202601',
+        additionalConfig: { signal: expect.any(AbortSignal) },
       });
       expect(result).toEqual({ id: '123', name: 'Test' });
     });
   });
 
+  describe('batchGet', () => {
+    it('calls RestliClient.batchGet and splits results from errors', async () => {
+      mockRestliClient.batchGet.mockResolvedValue({
+        data: {
+          results: { '1': { id: 1, name: 'One' } },
+          errors: { '2': { status: 404, message: 'Not found' } },
+          statuses: { '1': 200, '2': 404 },
+        },
+      });
+
+      const result = await client.batchGet('/adAccounts/9/adCampaigns', ['1', '2']);
+
+      expect(mockRestliClient.batchGet).toHaveBeenCalledWith({
+        resourcePath: '/adAccounts/9/adCampaigns',
+        ids: ['1', '2'],
+        accessToken: 'test-token',
+        versionString: '202601',
+        additionalConfig: { signal: expect.any(AbortSignal) },
+      });
+      expect(result).toEqual({
+        results: { '1': { id: 1, name: 'One' } },
+        errors: { '2': { status: 404, message: 'Not found' } },
+        statuses: { '1': 200, '2': 404 },
+      });
+    });
+
+    it('defaults missing maps to empty objects', async () => {
+      mockRestliClient.batchGet.mockResolvedValue({ data: { results: { '1': { id: 1 } } } });
+
+      const result = await client.batchGet('/adAccounts/9/adCampaigns', ['1']);
+
+      expect(result.errors).toEqual({});
+      expect(result.statuses).toEqual({});
+    });
+  });
+
   describe('getAll', () => {
     it('calls RestliClient.getAll with resource path', async () => {
       const mockResponse = { data: { elements: [] } };
@@ -102,6 +338,7 @@ describe('LinkedInClient', () => {
         resourcePath: '/adAccounts',
         accessToken: 'test-token',
         versionString: '202601',
+        additionalConfig: { signal: expect.any(AbortSignal) },
       });
       expect(result).toEqual({ elements: [] });
     });
@@ -120,9 +357,18 @@ describe('LinkedInClient', () => {
         entity,
         accessToken: 'test-token',
         versionString: '202601',
+        additionalConfig: { signal: expect.any(AbortSignal) },
       });
       expect(result).toEqual({ id: '456', name: 'New Campaign' });
     });
+
+    it('takes the ID from the X-RestLi-Id header when the body is empty', async () => {
+      mockRestliClient.create.mockResolvedValue({ data: '', createdEntityId: '789' });
+
+      const result = await client.create('/campaigns', { name: 'New Campaign' });
+
+      expect(result).toEqual({ id: '789' });
+    });
   });
 
   describe('update', () => {
@@ -137,6 +383,7 @@ describe('LinkedInClient', () => {
         entity,
         accessToken: 'test-token',
         versionString: '202601',
+        additionalConfig: { signal: expect.any(AbortSignal) },
       });
     });
   });
@@ -153,10 +400,42 @@ describe('LinkedInClient', () => {
         patchSetObject: patchSet,
         accessToken: 'test-token',
         versionString: '202601',
+        additionalConfig: { signal: expect.any(AbortSignal) },
       });
     });
   });
 
+  describe('batchPartialUpdate', () => {
+    it('calls RestliClient.batchPartialUpdate with one patch set per ID', async () => {
+      const patchSets = [{ status: 'PAUSED' }, { status: 'ACTIVE' }];
+      mockRestliClient.batchPartialUpdate.mockResolvedValue({
+        data: { results: { '1': { status: 204 }, '2': { status: 204 } } },
+      });
+
+      const result = await client.batchPartialUpdate('/adAccounts/9/adCampaigns', ['1', '2'], patchSets);
+
+      expect(mockRestliClient.batchPartialUpdate).toHaveBeenCalledWith({
+        resourcePath: '/adAccounts/9/adCampaigns',
+        ids: ['1', '2'],
+        patchSetObjects: patchSets,
+        accessToken: 'test-token',
+        versionString: '202601',
+        additionalConfig: { signal: expect.any(AbortSignal) },
+      });
+      expect(result).toEqual({
+        results: { '1': { status: 204 }, '2': { status: 204 } },
+        errors: {},
+      });
+    });
+
+    it('rejects mismatched IDs and patch sets without calling the API', async () => {
+      await expect(
+        client.batchPartialUpdate('/adAccounts/9/adCampaigns', ['1', '2'], [{ status: 'PAUSED' }])
+      ).rejects.toThrow(ValidationError);
+      expect(mockRestliClient.batchPartialUpdate).not.toHaveBeenCalled();
+    });
+  });
+
   describe('delete', () => {
     it('calls RestliClient.delete with resource path and ID', async () => {
       mockRestliClient.delete.mockResolvedValue(undefined);
@@ -167,6 +446,7 @@ describe('LinkedInClient', () => {
         resourcePath: '/campaigns/123',
         accessToken: 'test-token',
         versionString: '202601',
+        additionalConfig: { signal: expect.any(AbortSignal) },
       });
     });
   });
@@ -261,6 +541,148 @@ describe('LinkedInClient', () => {
       expect(mockRestliClient.get).toHaveBeenCalledTimes(1);
     });
 
+    it('refreshes the access token once on authentication errors when configured', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ access_token: 'renewed-token', expires_in: 5184000, scope: 'rw_ads' }))
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      const refreshing = new LinkedInClient({
+        ...mockConfig,
+        clientId: 'client-id',
+        clientSecret: 'client-secret',
+        refreshToken: 'refresh-token',
+      });
+      const restli = vi.mocked(RestliClient).mock.results[1].value;
+
+      restli.get
+        .mockRejectedValueOnce({ response: { status: 401, data: { message: 'Expired token' } } })
+        .mockResolvedValueOnce({ data: { id: '123' } });
+
+      try {
+        expect(await refreshing.get('/test', '123')).toEqual({ id: '123' });
+      } finally {
+        vi.unstubAllGlobals();
+      }
+
+      expect(String((fetchMock.mock.calls[0][1] as RequestInit).body)).toContain('grant_type=refresh_token');
+      expect(restli.get.mock.calls[1][0]).toMatchObject({ accessToken: 'renewed-token' });
+      expect(refreshing.getTokenStatus()).toMatchObject({ refreshable: true, expiresAt: expect.any(String) });
+    });
+
+    it('refuses calls over the daily limit without retrying', async () => {
+      const limited = new LinkedInClient(mockConfig, {
+        rateLimits: RateLimitPolicySchema.parse({ endpoints: { '/adAccounts/{id}/adCampaigns': { dailyLimit: 1 } } }),
+      });
+      const restli = vi.mocked(RestliClient).mock.results[1].value;
+      restli.get.mockResolvedValue({ data: { id: '1' } });
+
+      await limited.get('/adAccounts/501/adCampaigns', '1');
+      await expect(limited.get('/adAccounts/502/adCampaigns', '2')).rejects.toBeInstanceOf(QuotaExceededError);
+
+      expect(restli.get).toHaveBeenCalledTimes(1);
+      expect(limited.getQuotaUsage().endpoints).toEqual([
+        expect.objectContaining({ endpoint: '/adAccounts/{id}/adCampaigns', calls: 1, dailyLimit: 1, remaining: 0 }),
+      ]);
+    });
+
+    it('counts rate limited calls per endpoint', async () => {
+      mockRestliClient.get
+        .mockRejectedValueOnce({ response: { status: 429, data: { message: 'Rate limited' }, headers: { 'retry-after': '1' } } })
+        .mockResolvedValueOnce({ data: { id: '123' } });
+
+      const resultPromise = client.get('/test', '123');
+      await vi.advanceTimersByTimeAsync(1000);
+      await resultPromise;
+
+      expect(client.getQuotaUsage().endpoints).toEqual([
+        expect.objectContaining({ endpoint: '/test', calls: 2, rateLimited: 1 }),
+      ]);
+    });
+
+    it('retries transient server errors of idempotent requests', async () => {
+      const unavailable = { response: { status: 503, data: { message: 'Service Unavailable' } } };
+      mockRestliClient.get
+        .mockRejectedValueOnce(unavailable)
+        .mockRejectedValueOnce({ code: 'ECONNRESET', message: 'socket hang up' })
+        .mockResolvedValueOnce({ data: { id: '123' } });
+
+      const resultPromise = client.get('/test', '123');
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(await resultPromise).toEqual({ id: '123' });
+      expect(mockRestliClient.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('retries creates after a 429', async () => {
+      mockRestliClient.create
+        .mockRejectedValueOnce({ response: { status: 429, data: { message: 'Rate limited' } } })
+        .mockResolvedValueOnce({ data: {}, createdEntityId: '456' });
+
+      const resultPromise = client.create('/adCampaigns', { name: 'New' });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(await resultPromise).toEqual({ id: '456' });
+      expect(mockRestliClient.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry creates after transient errors', async () => {
+      mockRestliClient.create.mockRejectedValue({ response: { status: 502, data: { message: 'Bad Gateway' } } });
+
+      await expect(client.create('/adCampaigns', { name: 'New' })).rejects.toMatchObject({ statusCode: 502 });
+      expect(mockRestliClient.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('fails instead of waiting out a Retry-After beyond the total wait budget', async () => {
+      mockRestliClient.get.mockRejectedValue({
+        response: { status: 429, data: { message: 'Rate limited' }, headers: { 'retry-after': '3600' } },
+      });
+
+      const error = await client.get('/test', '123').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfter).toBe(3600);
+      expect(mockRestliClient.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('aborts requests that exceed the request timeout', async () => {
+      const timed = new LinkedInClient(mockConfig, {
+        retryPolicy: RetryPolicySchema.parse({ maxRetries: 0, requestTimeoutMs: 5000 }),
+      });
+      const restli = vi.mocked(RestliClient).mock.results[1].value;
+      restli.get.mockImplementation(
+        ({ additionalConfig }: { additionalConfig: { signal: AbortSignal } }) =>
+          new Promise((_resolve, reject) => {
+            additionalConfig.signal.addEventListener('abort', () => reject(new Error('canceled')));
+          })
+      );
+
+      const resultPromise = timed.get('/test', '123').catch((e: unknown) => e);
+      await vi.advanceTimersByTimeAsync(5000);
+      const error = await resultPromise;
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect((error as NetworkError).code).toBe('ETIMEDOUT');
+    });
+
+    it('fails fast once the circuit breaker opens', async () => {
+      const breaking = new LinkedInClient(mockConfig, {
+        retryPolicy: RetryPolicySchema.parse({ maxRetries: 0, circuitBreaker: { failureThreshold: 2, resetAfterMs: 10_000 } }),
+      });
+      const restli = vi.mocked(RestliClient).mock.results[1].value;
+      restli.get.mockRejectedValue({ response: { status: 500, data: { message: 'Internal Server Error' } } });
+
+      await expect(breaking.get('/test', '1')).rejects.toMatchObject({ statusCode: 500 });
+      await expect(breaking.get('/test', '2')).rejects.toMatchObject({ statusCode: 500 });
+      await expect(breaking.get('/test', '3')).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(restli.get).toHaveBeenCalledTimes(2);
+
+      restli.get.mockResolvedValue({ data: { id: '4' } });
+      vi.advanceTimersByTime(10_000);
+
+      expect(await breaking.get('/test', '4')).toEqual({ id: '4' });
+      expect(await breaking.get('/test', '5')).toEqual({ id: '4' });
+    });
+
     it('does not retry on other API errors', async () => {
       const apiError = {
         response: {
@@ -275,4 +697,140 @@ describe('LinkedInClient', () => {
       expect(mockRestliClient.get).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe('cancellation', () => {
+    it('returns the client itself without a signal', () => {
+      expect(client.withSignal(undefined)).toBe(client);
+    });
+
+    it('stops waiting for a retry once the signal aborts', async () => {
+      mockRestliClient.get.mockRejectedValue({
+        response: { status: 429, data: { message: 'Rate limited' }, headers: { 'retry-after': '30' } },
+      });
+      const controller = new AbortController();
+
+      const resultPromise = client.withSignal(controller.signal).get('/test', '123').catch((e: unknown) => e);
+      await vi.advanceTimersByTimeAsync(1000);
+      controller.abort(new CancelledError('The client cancelled the request'));
+      const error = await resultPromise;
+
+      expect(error).toBeInstanceOf(CancelledError);
+      expect((error as CancelledError).message).toBe('The client cancelled the request');
+      expect(mockRestliClient.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('aborts the request in flight without counting it as a timeout', async () => {
+      mockRestliClient.get.mockImplementation(
+        ({ additionalConfig }: { additionalConfig: { signal: AbortSignal } }) =>
+          new Promise((_resolve, reject) => {
+            additionalConfig.signal.addEventListener('abort', () => reject(new Error('canceled')));
+          })
+      );
+      const controller = new AbortController();
+
+      const resultPromise = client.withSignal(controller.signal).get('/test', '123').catch((e: unknown) => e);
+      await vi.advanceTimersByTimeAsync(10);
+      controller.abort();
+
+      expect(await resultPromise).toBeInstanceOf(CancelledError);
+      expect(mockRestliClient.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not send requests once cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.withSignal(controller.signal).get('/test', '123')).rejects.toBeInstanceOf(CancelledError);
+      expect(mockRestliClient.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('request logging', () => {
+    function loggingClient(): { client: LinkedInClient; restli: typeof mockRestliClient; lines: Record<string, unknown>[] } {
+      const lines: Record<string, unknown>[] = [];
+      const logger = new Logger('debug', ['test-token'], (line) => lines.push(JSON.parse(line) as Record<string, unknown>));
+      const logged = new LinkedInClient(mockConfig, { logger });
+      return { client: logged, restli: vi.mocked(RestliClient).mock.results[1].value, lines };
+    }
+
+    it('logs one line per request with status, retries and request ID', async () => {
+      const { client: logged, restli, lines } = loggingClient();
+      restli.finder
+        .mockRejectedValueOnce({ response: { status: 503, data: { message: 'Service Unavailable' } } })
+        .mockResolvedValueOnce({ data: { elements: [] }, status: 200, headers: { 'x-li-uuid': 'li-uuid-1' } });
+
+      const resultPromise = logged.finder('/adAccounts', 'search', { q: 'test' });
+      await vi.advanceTimersByTimeAsync(1000);
+      await resultPromise;
+
+      expect(lines).toEqual([
+        expect.objectContaining({
+          level: 'debug',
+          msg: 'LinkedIn request',
+          method: 'FINDER',
+          path: '/adAccounts',
+          finder: 'search',
+          status: 200,
+          retries: 1,
+          requestId: 'li-uuid-1',
+          durationMs: expect.any(Number),
+        }),
+      ]);
+    });
+
+    it('logs failed requests as warnings with the error', async () => {
+      const { client: logged, restli, lines } = loggingClient();
+      restli.get.mockRejectedValue({
+        response: { status: 404, data: { message: 'Not found' }, headers: { 'x-li-uuid': 'li-uuid-2' } },
+      });
+
+      await expect(logged.get('/adCampaigns', '9')).rejects.toThrow(LinkedInApiError);
+
+      expect(lines).toEqual([
+        expect.objectContaining({
+          level: 'warn',
+          msg: 'LinkedIn request failed',
+          method: 'GET',
+          path: '/adCampaigns/9',
+          status: 404,
+          retries: 0,
+          requestId: 'li-uuid-2',
+          error: 'Not found',
+        }),
+      ]);
+    });
+
+    it('never writes the access token', async () => {
+      const { client: logged, restli, lines } = loggingClient();
+      restli.get.mockRejectedValue({ response: { status: 400, data: { message: 'Bad token test-token' } } });
+
+      await expect(logged.get('/test', '1')).rejects.toThrow();
+
+      expect(JSON.stringify(lines)).not.toContain('test-token');
+    });
+  });
+
+  describe('tracing', () => {
+    it('records a client span per request with endpoint, account and status', async () => {
+      const spans = new InMemorySpanExporter();
+      const tracer = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(spans)] }).getTracer('test');
+      const traced = new LinkedInClient(mockConfig, { telemetry: new Telemetry(tracer) });
+      const restli = vi.mocked(RestliClient).mock.results[1].value;
+      restli.get.mockRejectedValue({
+        response: { status: 404, data: { message: 'Not found' }, headers: { 'x-li-uuid': 'li-uuid-3' } },
+      });
+
+      await expect(traced.get('/adAccounts/123/adCampaigns', '9')).rejects.toThrow(LinkedInApiError);
+
+      const [span] = spans.getFinishedSpans();
+      expect(span.name).toBe('LinkedIn GET /adAccounts/{id}/adCampaigns');
+      expect(span.attributes).toMatchObject({
+        'linkedin.account_id': '123',
+        'linkedin.endpoint': '/adAccounts/{id}/adCampaigns',
+        'http.response.status_code': 404,
+        'linkedin.request_id': 'li-uuid-3',
+        'error.type': 'LinkedInApiError',
+      });
+    });
+  });
 });
@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { loadConfig, validateAccessToken } from '../../src/config.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadConfig, applyProfile, validateAccessToken } from '../../src/config.js';
 
 /**
  * Tests for our configuration loading and validation logic.
@@ -29,6 +32,55 @@ describe('loadConfig', () => {
     expect(config.accessToken).toBe('AQV123456789abcdef');
     expect(config.apiVersion).toBe('202601');
     expect(config.debug).toBe(false);
+    expect(config.dryRun).toBe(false);
+  });
+
+  it('parses read-only mode and tool patterns', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_READ_ONLY = 'true';
+    process.env.LINKEDIN_TOOLS_ALLOW = 'list_*, get_*,';
+    process.env.LINKEDIN_TOOLS_DENY = 'get_organization';
+
+    const config = loadConfig();
+
+    expect(config.readOnly).toBe(true);
+    expect(config.toolsAllow).toEqual(['list_*', 'get_*']);
+    expect(config.toolsDeny).toEqual(['get_organization']);
+  });
+
+  it('enables dry-run mode from LINKEDIN_DRY_RUN', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_DRY_RUN = 'true';
+
+    expect(loadConfig().dryRun).toBe(true);
+  });
+
+  it('reads the spend policy file path from LINKEDIN_SPEND_POLICY_FILE', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_SPEND_POLICY_FILE = './spend-policy.yaml';
+
+    expect(loadConfig().spendPolicyFile).toBe('./spend-policy.yaml');
+  });
+
+  it('reads the audit log path from LINKEDIN_AUDIT_LOG_FILE', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_AUDIT_LOG_FILE = '/var/log/linkedin-mcp/audit.jsonl';
+
+    expect(loadConfig().auditLogFile).toBe('/var/log/linkedin-mcp/audit.jsonl');
+  });
+
+  it('reads the rate limits file path from LINKEDIN_RATE_LIMITS_FILE', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_RATE_LIMITS_FILE = './rate-limits.yaml';
+
+    expect(loadConfig().rateLimitsFile).toBe('./rate-limits.yaml');
+  });
+
+  it('reads the retry policy file path from LINKEDIN_RETRY_POLICY_FILE', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_RETRY_POLICY_FILE = './retry-policy.yaml';
+
+    expect(loadConfig().retryPolicyFile).toBe('./retry-policy.yaml');
   });
 
   it('uses default API version when not specified', () => {
@@ -47,6 +99,59 @@ describe('loadConfig', () => {
     const config = loadConfig();
 
     expect(config.debug).toBe(true);
+    expect(config.logLevel).toBe('debug');
+  });
+
+  it('reads the log level from LINKEDIN_LOG_LEVEL, defaulting to warn', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    delete process.env.DEBUG;
+    delete process.env.LINKEDIN_LOG_LEVEL;
+
+    expect(loadConfig().logLevel).toBe('warn');
+
+    process.env.LINKEDIN_LOG_LEVEL = 'info';
+    process.env.DEBUG = 'true';
+    expect(loadConfig().logLevel).toBe('info');
+
+    process.env.LINKEDIN_LOG_LEVEL = 'verbose';
+    expect(() => loadConfig()).toThrow('logLevel');
+  });
+
+  it('reads the OpenTelemetry exporter and requires a file for the file exporter', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_OTEL_EXPORTER = 'file';
+    delete process.env.LINKEDIN_OTEL_FILE;
+
+    expect(() => loadConfig()).toThrow('LINKEDIN_OTEL_EXPORTER=file requires LINKEDIN_OTEL_FILE');
+
+    process.env.LINKEDIN_OTEL_FILE = './telemetry.jsonl';
+    expect(loadConfig()).toMatchObject({ otelExporter: 'file', otelFile: './telemetry.jsonl' });
+  });
+
+  it('uses the stdio transport by default', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+
+    expect(loadConfig()).toMatchObject({ transport: 'stdio', httpHost: '127.0.0.1', httpPort: 8080, httpEndpoint: '/mcp' });
+  });
+
+  it('reads the HTTP transport settings and requires an API key for them', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_MCP_TRANSPORT = 'httpStream';
+    process.env.LINKEDIN_MCP_HOST = '0.0.0.0';
+    process.env.LINKEDIN_MCP_PORT = '3000';
+
+    expect(() => loadConfig()).toThrow('The HTTP transport requires LINKEDIN_MCP_API_KEY or LINKEDIN_MCP_API_KEYS_FILE');
+
+    process.env.LINKEDIN_MCP_API_KEY = 'team-key-0123456789';
+    expect(loadConfig()).toMatchObject({
+      transport: 'httpStream',
+      httpHost: '0.0.0.0',
+      httpPort: 3000,
+      apiKey: 'team-key-0123456789',
+    });
+
+    process.env.LINKEDIN_MCP_PORT = 'http';
+    expect(() => loadConfig()).toThrow('httpPort');
   });
 
   it('throws error when access token is missing', () => {
@@ -74,6 +179,184 @@ describe('loadConfig', () => {
 
     expect(() => loadConfig()).toThrow('API version must be in YYYYMM format');
   });
+
+  it('reads an alternate API base URL', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_API_BASE_URL = 'http://127.0.0.1:4010/rest';
+
+    expect(loadConfig().apiBaseUrl).toBe('http://127.0.0.1:4010/rest');
+  });
+
+  it('throws error for an invalid API base URL', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_API_BASE_URL = 'not a url';
+
+    expect(() => loadConfig()).toThrow('LINKEDIN_API_BASE_URL must be a valid URL');
+  });
+
+  it('reads cassette record and replay directories', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_REPLAY_DIR = './cassettes';
+
+    expect(loadConfig().replayDir).toBe('./cassettes');
+  });
+
+  it('throws error when both record and replay directories are set', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_RECORD_DIR = './cassettes';
+    process.env.LINKEDIN_REPLAY_DIR = './cassettes';
+
+    expect(() => loadConfig()).toThrow('LINKEDIN_RECORD_DIR and LINKEDIN_REPLAY_DIR cannot both be set');
+  });
+
+  it('reads refresh credentials and the token store', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_CLIENT_ID = 'client-id';
+    process.env.LINKEDIN_CLIENT_SECRET = 'client-secret';
+    process.env.LINKEDIN_REFRESH_TOKEN = 'AQXrefresh';
+    process.env.LINKEDIN_TOKEN_STORE_FILE = './linkedin-token.json';
+
+    expect(loadConfig()).toMatchObject({
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      refreshToken: 'AQXrefresh',
+      tokenStoreFile: './linkedin-token.json',
+    });
+  });
+
+  it('reads the community app credentials', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_COMMUNITY_CLIENT_ID = 'community-id';
+    process.env.LINKEDIN_COMMUNITY_CLIENT_SECRET = 'community-secret';
+    process.env.LINKEDIN_COMMUNITY_REFRESH_TOKEN = 'AQXcommunity';
+
+    expect(loadConfig().profiles.default).toMatchObject({
+      communityClientId: 'community-id',
+      communityClientSecret: 'community-secret',
+      communityRefreshToken: 'AQXcommunity',
+    });
+
+    delete process.env.LINKEDIN_COMMUNITY_CLIENT_SECRET;
+    expect(() => loadConfig()).toThrow(
+      'LINKEDIN_COMMUNITY_REFRESH_TOKEN requires LINKEDIN_COMMUNITY_CLIENT_ID and LINKEDIN_COMMUNITY_CLIENT_SECRET'
+    );
+  });
+
+  it('reads token expiry timestamps written by npm run auth', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_ACCESS_TOKEN_EXPIRES_AT = '2026-05-01T00:00:00.000Z';
+    process.env.LINKEDIN_COMMUNITY_TOKEN_EXPIRES_AT = '2026-06-01T00:00:00.000Z';
+
+    expect(loadConfig().profiles.default).toMatchObject({
+      accessTokenExpiresAt: '2026-05-01T00:00:00.000Z',
+      communityTokenExpiresAt: '2026-06-01T00:00:00.000Z',
+    });
+
+    process.env.LINKEDIN_ACCESS_TOKEN_EXPIRES_AT = '2026-05-01 (60 days)';
+    expect(() => loadConfig()).toThrow('LINKEDIN_ACCESS_TOKEN_EXPIRES_AT must be an ISO timestamp');
+  });
+
+  it('throws error when a refresh token has no client credentials', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_REFRESH_TOKEN = 'AQXrefresh';
+    delete process.env.LINKEDIN_CLIENT_ID;
+    delete process.env.LINKEDIN_CLIENT_SECRET;
+
+    expect(() => loadConfig()).toThrow('LINKEDIN_REFRESH_TOKEN requires LINKEDIN_CLIENT_ID and LINKEDIN_CLIENT_SECRET');
+  });
+});
+
+describe('loadConfig profiles', () => {
+  const originalEnv = process.env;
+  let dir: string;
+
+  /** Write a profiles file and point LINKEDIN_PROFILES_FILE at it */
+  function useProfilesFile(name: string, content: string): void {
+    const file = join(dir, name);
+    writeFileSync(file, content);
+    process.env.LINKEDIN_PROFILES_FILE = file;
+  }
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.LINKEDIN_ACCESS_TOKEN;
+    delete process.env.LINKEDIN_COMMUNITY_TOKEN;
+    delete process.env.LINKEDIN_PROFILE;
+    dir = mkdtempSync(join(tmpdir(), 'config-profiles-'));
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('builds a default profile from the token variables', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_COMMUNITY_TOKEN = 'AQVcommunity';
+
+    const config = loadConfig();
+
+    expect(config.defaultProfile).toBe('default');
+    expect(config.profiles).toEqual({
+      default: expect.objectContaining({ accessToken: 'AQV123456789abcdef', communityToken: 'AQVcommunity' }),
+    });
+  });
+
+  it('loads named profiles from YAML and applies the default one', () => {
+    useProfilesFile(
+      'profiles.yaml',
+      [
+        'defaultProfile: brand-b',
+        'profiles:',
+        '  brand-a:',
+        '    accessToken: brand-a-ads',
+        '    communityToken: brand-a-community',
+        '  brand-b:',
+        '    accessToken: brand-b-ads',
+      ].join('\n')
+    );
+
+    const config = loadConfig();
+
+    expect(Object.keys(config.profiles)).toEqual(['brand-a', 'brand-b']);
+    expect(config).toMatchObject({ defaultProfile: 'brand-b', accessToken: 'brand-b-ads', communityToken: undefined });
+  });
+
+  it('lets LINKEDIN_PROFILE choose the default and keeps the environment profile', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_PROFILE = 'brand-a';
+    useProfilesFile('profiles.json', JSON.stringify({ profiles: { 'brand-a': { accessToken: 'brand-a-ads' } } }));
+
+    const config = loadConfig();
+
+    expect(Object.keys(config.profiles)).toEqual(['default', 'brand-a']);
+    expect(config.accessToken).toBe('brand-a-ads');
+  });
+
+  it('rejects profiles files with invalid or conflicting profiles', () => {
+    useProfilesFile('profiles.json', JSON.stringify({ profiles: { 'brand-a': { accessToken: 'a', refreshToken: 'r' } } }));
+    expect(() => loadConfig()).toThrow('refreshToken requires clientId and clientSecret');
+
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    useProfilesFile('conflict.json', JSON.stringify({ profiles: { default: { accessToken: 'other' } } }));
+    expect(() => loadConfig()).toThrow('Profile default is defined by both LINKEDIN_ACCESS_TOKEN');
+  });
+
+  it('requires the default profile to exist', () => {
+    process.env.LINKEDIN_PROFILE = 'missing';
+    useProfilesFile('profiles.json', JSON.stringify({ profiles: { 'brand-a': { accessToken: 'a' } } }));
+
+    expect(() => loadConfig()).toThrow('Profile missing is not configured (available: brand-a)');
+  });
+
+  it('replaces every token setting when applying a profile', () => {
+    process.env.LINKEDIN_ACCESS_TOKEN = 'AQV123456789abcdef';
+    process.env.LINKEDIN_COMMUNITY_TOKEN = 'AQVcommunity';
+
+    const config = applyProfile(loadConfig(), { accessToken: 'brand-b-ads' });
+
+    expect(config).toMatchObject({ accessToken: 'brand-b-ads', communityToken: undefined, apiVersion: '202601' });
+  });
 });
 
 describe('validateAccessToken', () => {
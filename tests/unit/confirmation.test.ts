@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ValidationError } from '../../src/errors.js';
+import { ConfirmationStore, CONFIRMATION_TTL_MS } from '../../src/utils/confirmation.js';
+
+/**
+ * Tests for the two-step confirmation tokens used by irreversible tools.
+ */
+
+describe('ConfirmationStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('issues unique single-use tokens', () => {
+    const store = new ConfirmationStore();
+    const first = store.issue('delete_post', 'urn:li:share:1');
+    const second = store.issue('delete_post', 'urn:li:share:1');
+
+    expect(first.token).not.toBe(second.token);
+
+    store.consume(first.token, 'delete_post', 'urn:li:share:1');
+    expect(() => store.consume(first.token, 'delete_post', 'urn:li:share:1')).toThrow(ValidationError);
+  });
+
+  it('binds tokens to the tool and target without burning them on a mismatch', () => {
+    const store = new ConfirmationStore();
+    const { token } = store.issue('delete_post', 'urn:li:share:1');
+
+    expect(() => store.consume(token, 'delete_post', 'urn:li:share:2')).toThrow('issued for delete_post on urn:li:share:1');
+    expect(() => store.consume(token, 'delete_creative', 'urn:li:share:1')).toThrow(ValidationError);
+    expect(() => store.consume(token, 'delete_post', 'urn:li:share:1')).not.toThrow();
+  });
+
+  it('binds tokens to the API key and profile they were issued to', () => {
+    const store = new ConfirmationStore();
+    const { token } = store.issue('delete_post', 'urn:li:share:1', { apiKeyName: 'alice', profile: 'brand-a' });
+
+    expect(() => store.consume(token, 'delete_post', 'urn:li:share:1', { apiKeyName: 'bob', profile: 'brand-a' })).toThrow(
+      'Unknown or already used confirmation token'
+    );
+    expect(() => store.consume(token, 'delete_post', 'urn:li:share:1', { apiKeyName: 'alice', profile: 'brand-b' })).toThrow(
+      ValidationError
+    );
+    expect(() => store.consume(token, 'delete_post', 'urn:li:share:1')).toThrow(ValidationError);
+    expect(() => store.consume(token, 'delete_post', 'urn:li:share:1', { apiKeyName: 'alice', profile: 'brand-a' })).not.toThrow();
+  });
+
+  it('keeps a token valid when the redeemed operation fails', async () => {
+    const store = new ConfirmationStore();
+    const { token } = store.issue('delete_post', 'urn:li:share:1');
+
+    await expect(
+      store.redeem(token, 'delete_post', 'urn:li:share:1', {}, () => Promise.reject(new Error('LinkedIn is down')))
+    ).rejects.toThrow('LinkedIn is down');
+    await expect(store.redeem(token, 'delete_post', 'urn:li:share:1', {}, () => Promise.resolve('deleted'))).resolves.toBe(
+      'deleted'
+    );
+    expect(() => store.consume(token, 'delete_post', 'urn:li:share:1')).toThrow('Unknown or already used confirmation token');
+  });
+
+  it('does not let a token be redeemed twice while its operation runs', async () => {
+    const store = new ConfirmationStore();
+    const { token } = store.issue('delete_post', 'urn:li:share:1');
+    let finish: () => void = () => undefined;
+    const running = store.redeem(token, 'delete_post', 'urn:li:share:1', {}, () => new Promise<void>((resolve) => (finish = resolve)));
+
+    await expect(store.redeem(token, 'delete_post', 'urn:li:share:1', {}, () => Promise.resolve())).rejects.toThrow(
+      ValidationError
+    );
+
+    finish();
+    await running;
+  });
+
+  it('expires tokens after the TTL', () => {
+    vi.useFakeTimers();
+    const store = new ConfirmationStore();
+    const { token, expiresAt } = store.issue('delete_creative', '/adAccounts/1/creatives/2');
+
+    expect(Date.parse(expiresAt) - Date.now()).toBe(CONFIRMATION_TTL_MS);
+
+    vi.advanceTimersByTime(CONFIRMATION_TTL_MS);
+
+    expect(() => store.consume(token, 'delete_creative', '/adAccounts/1/creatives/2')).toThrow(
+      'Confirmation token expired'
+    );
+  });
+});
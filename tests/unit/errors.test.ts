@@ -2,8 +2,10 @@ import { describe, it, expect } from 'vitest';
 import {
   LinkedInApiError,
   AuthenticationError,
+  BadRequestError,
   PermissionError,
   RateLimitError,
+  NetworkError,
   ValidationError,
   transformError,
 } from '../../src/errors.js';
@@ -87,6 +89,27 @@ describe('RateLimitError', () => {
   });
 });
 
+describe('BadRequestError', () => {
+  it('lists every rejected field in the user message', () => {
+    const error = new BadRequestError('Invalid campaign', 422, [
+      { field: 'dailyBudget', path: 'dailyBudget.amount', message: 'Must be at least 10', code: 'FIELD_VALUE_TOO_LOW' },
+      { field: 'endDate', path: 'runSchedule.end', message: 'End must be after start' },
+    ]);
+
+    expect(error.toUserMessage()).toBe(
+      'LinkedIn rejected these fields; correct them and try again:\n' +
+        '- dailyBudget: Must be at least 10 (FIELD_VALUE_TOO_LOW)\n' +
+        '- endDate: End must be after start'
+    );
+  });
+
+  it('falls back to the message without field details', () => {
+    const error = new BadRequestError('Request body is malformed', 400, []);
+
+    expect(error.toUserMessage()).toBe('LinkedIn rejected the request: Request body is malformed');
+  });
+});
+
 describe('ValidationError', () => {
   it('includes field information', () => {
     const error = new ValidationError('Invalid budget', 'dailyBudget');
@@ -140,6 +163,84 @@ describe('transformError', () => {
     expect((transformed as RateLimitError).retryAfter).toBe(30);
   });
 
+  it('reads Retry-After given as an HTTP date and ignores unreadable values', () => {
+    const retryAfter = (value: string): number | undefined =>
+      (transformError({ response: { status: 429, data: {}, headers: { 'retry-after': value } } }) as RateLimitError)
+        .retryAfter;
+
+    expect(retryAfter(new Date(Date.now() + 120_000).toUTCString())).toBeGreaterThanOrEqual(119);
+    expect(retryAfter('soon')).toBeUndefined();
+  });
+
+  it('transforms socket errors without a response to NetworkError', () => {
+    const socketError = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+    const transformed = transformError(socketError);
+
+    expect(transformed).toBeInstanceOf(NetworkError);
+    expect((transformed as NetworkError).code).toBe('ECONNRESET');
+    expect(transformed.message).toBe('Request to LinkedIn failed: socket hang up');
+  });
+
+  it('parses inputErrors of a 400 into field violations mapped to tool input fields', () => {
+    const axiosError = {
+      response: {
+        status: 400,
+        data: {
+          message: 'Multiple errors occurred during the input validation.',
+          errorDetails: {
+            inputErrors: [
+              {
+                description: 'Value is below the minimum of 10',
+                code: 'FIELD_VALUE_TOO_LOW',
+                input: { inputPath: { fieldPath: '/dailyBudget/amount' } },
+              },
+              { code: 'INVALID_VALUE', input: { inputPath: { fieldPath: 'locale/country' } } },
+            ],
+          },
+        },
+      },
+    };
+
+    const transformed = transformError(axiosError);
+
+    expect(transformed).toBeInstanceOf(BadRequestError);
+    expect((transformed as BadRequestError).statusCode).toBe(400);
+    expect((transformed as BadRequestError).violations).toEqual([
+      { field: 'dailyBudget', path: 'dailyBudget.amount', message: 'Value is below the minimum of 10', code: 'FIELD_VALUE_TOO_LOW' },
+      { field: 'locale.country', path: 'locale.country', message: 'INVALID_VALUE', code: 'INVALID_VALUE' },
+    ]);
+  });
+
+  it('parses ERROR :: lines of a 422 message', () => {
+    const axiosError = {
+      response: {
+        status: 422,
+        data: {
+          message:
+            'ERROR :: /runSchedule/end :: End date must be after the start date.\nERROR :: /campaignGroup :: Campaign group is archived.',
+        },
+      },
+    };
+
+    const transformed = transformError(axiosError) as BadRequestError;
+
+    expect(transformed).toBeInstanceOf(BadRequestError);
+    expect(transformed.violations).toEqual([
+      { field: 'endDate', path: 'runSchedule.end', message: 'End date must be after the start date.' },
+      { field: 'campaignGroupId', path: 'campaignGroup', message: 'Campaign group is archived.' },
+    ]);
+  });
+
+  it('keeps the LinkedIn error code of a bad request', () => {
+    const axiosError = { response: { status: 400, data: { message: 'Version missing', code: 'VERSION_MISSING' } } };
+
+    const transformed = transformError(axiosError) as BadRequestError;
+
+    expect(transformed.errorCode).toBe('VERSION_MISSING');
+    expect(transformed.violations).toEqual([]);
+  });
+
   it('transforms other status codes to LinkedInApiError', () => {
     const axiosError = {
       response: {
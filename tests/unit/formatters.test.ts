@@ -8,6 +8,7 @@ import {
   dateToEpochMs,
   epochMsToIso,
   buildMoneyAmount,
+  formatBatchError,
 } from '../../src/utils/formatters.js';
 
 /**
@@ -30,6 +31,10 @@ describe('extractIdFromUrn', () => {
   it('handles URNs with multiple colons', () => {
     expect(extractIdFromUrn('urn:li:some:nested:type:12345')).toBe('12345');
   });
+
+  it('stringifies bare numeric IDs', () => {
+    expect(extractIdFromUrn(507404993)).toBe('507404993');
+  });
 });
 
 describe('buildUrn', () => {
@@ -141,6 +146,29 @@ describe('formatMoneyAmount', () => {
   });
 });
 
+describe('formatBatchError', () => {
+  const batch = {
+    results: {},
+    errors: { '1': { status: 403, message: 'Forbidden' } },
+    statuses: { '2': 400 },
+  };
+
+  it('uses the error payload when present', () => {
+    expect(formatBatchError(batch, '1')).toEqual({ status: 403, message: 'Forbidden' });
+  });
+
+  it('falls back to the reported status', () => {
+    expect(formatBatchError(batch, '2')).toEqual({
+      status: 400,
+      message: 'No entity returned for ID 2',
+    });
+  });
+
+  it('treats IDs missing from the response as not found', () => {
+    expect(formatBatchError(batch, '3').status).toBe(404);
+  });
+});
+
 describe('buildMoneyAmount', () => {
   it('builds money amount with default USD currency', () => {
     const result = buildMoneyAmount(50);
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { Logger, redact } from '../../src/utils/logger.js';
+
+/**
+ * Tests for the structured stderr log and its credential redaction.
+ */
+
+function capture(level: ConstructorParameters<typeof Logger>[0], secrets: string[] = []): {
+  logger: Logger;
+  lines: Record<string, unknown>[];
+} {
+  const lines: Record<string, unknown>[] = [];
+  const logger = new Logger(level, secrets, (line) => lines.push(JSON.parse(line) as Record<string, unknown>));
+  return { logger, lines };
+}
+
+describe('Logger', () => {
+  it('writes one JSON line per entry with time, level, message and fields', () => {
+    const { logger, lines } = capture('info');
+
+    logger.info('Tool call', { tool: 'list_campaigns', durationMs: 12 });
+
+    expect(lines).toEqual([
+      { time: expect.any(String), level: 'info', msg: 'Tool call', tool: 'list_campaigns', durationMs: 12 },
+    ]);
+  });
+
+  it('drops entries below its level', () => {
+    const { logger, lines } = capture('warn');
+
+    logger.debug('request');
+    logger.info('call');
+    logger.warn('slow');
+    logger.error('failed');
+
+    expect(lines.map((line) => line.level)).toEqual(['warn', 'error']);
+    expect(capture('silent').logger.enabled('error')).toBe(false);
+  });
+
+  it('adds the fields of child loggers to every entry', () => {
+    const { logger, lines } = capture('debug');
+
+    logger.child({ profile: 'brand-a' }).child({ tool: 'get_campaign' }).debug('call', { durationMs: 3 });
+
+    expect(lines[0]).toMatchObject({ profile: 'brand-a', tool: 'get_campaign', durationMs: 3 });
+  });
+
+  it('redacts registered secrets wherever they appear', () => {
+    const { logger, lines } = capture('debug', ['AQVsecret-token-value', 'short']);
+
+    logger.warn('Token AQVsecret-token-value was rejected', { detail: 'got AQVsecret-token-value', note: 'short' });
+
+    expect(lines[0]).toMatchObject({
+      msg: 'Token [REDACTED] was rejected',
+      detail: 'got [REDACTED]',
+      note: 'short',
+    });
+  });
+});
+
+describe('redact', () => {
+  it('redacts credential fields and bearer tokens at any depth', () => {
+    expect(
+      redact({
+        headers: { Authorization: 'Bearer abc123', accept: 'application/json' },
+        refreshToken: 'AQX',
+        clientSecret: null,
+        message: 'sent Bearer abc123, rejected',
+        items: [{ access_token: 'abc' }],
+      })
+    ).toEqual({
+      headers: { Authorization: '[REDACTED]', accept: 'application/json' },
+      refreshToken: '[REDACTED]',
+      clientSecret: null,
+      message: 'sent Bearer [REDACTED], rejected',
+      items: [{ access_token: '[REDACTED]' }],
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createHash } from 'node:crypto';
+import { AuthenticationError, ConfigurationError } from '../../src/errors.js';
+import {
+  AccessTokenManager,
+  TokenStore,
+  buildAuthorizationUrl,
+  createPkcePair,
+  exchangeCodeForToken,
+  introspectToken,
+  refreshAccessToken,
+  resolveScopes,
+  toStoredToken,
+  LINKEDIN_TOKEN_URL,
+} from '../../src/oauth.js';
+
+/**
+ * Tests for OAuth authorization requests, token refresh and the token store.
+ */
+
+function tokenResponse(accessToken: string, extra: Record<string, unknown> = {}): Response {
+  return new Response(JSON.stringify({ access_token: accessToken, expires_in: 3600, scope: 'rw_ads', ...extra }));
+}
+
+describe('authorization requests', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('resolves scope presets and custom scope lists', () => {
+    expect(resolveScopes('community')).toEqual(['rw_organization_admin']);
+    expect(resolveScopes('ads-posting')).toEqual(expect.arrayContaining(['w_organization_social', 'r_organization_social']));
+    expect(resolveScopes('r_ads, rw_organization_admin,')).toEqual(['r_ads', 'rw_organization_admin']);
+    expect(resolveScopes('constructor')).toEqual(['constructor']);
+  });
+
+  it('builds the authorization URL with state and an S256 challenge', () => {
+    const { codeVerifier, codeChallenge } = createPkcePair();
+    const url = new URL(
+      buildAuthorizationUrl({
+        clientId: 'id',
+        redirectUri: 'http://localhost:8080/callback',
+        scopes: ['r_ads', 'rw_ads'],
+        state: 'abc',
+        codeChallenge,
+      })
+    );
+
+    expect(createHash('sha256').update(codeVerifier).digest('base64url')).toBe(codeChallenge);
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: 'code',
+      client_id: 'id',
+      redirect_uri: 'http://localhost:8080/callback',
+      scope: 'r_ads rw_ads',
+      state: 'abc',
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    });
+  });
+
+  it('sends the PKCE verifier with the authorization code', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(tokenResponse('new-token'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await exchangeCodeForToken('code', 'http://localhost:8080/callback', { clientId: 'id', clientSecret: 'secret' }, 'verifier');
+
+    expect(Object.fromEntries(fetchMock.mock.calls[0][1].body as URLSearchParams)).toMatchObject({
+      grant_type: 'authorization_code',
+      code: 'code',
+      code_verifier: 'verifier',
+    });
+  });
+});
+
+describe('refreshAccessToken', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts a refresh_token grant with the client credentials', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(tokenResponse('new-token'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await refreshAccessToken('refresh', { clientId: 'id', clientSecret: 'secret' });
+
+    expect(response.access_token).toBe('new-token');
+    expect(fetchMock.mock.calls[0][0]).toBe(LINKEDIN_TOKEN_URL);
+    expect(Object.fromEntries(fetchMock.mock.calls[0][1].body as URLSearchParams)).toEqual({
+      grant_type: 'refresh_token',
+      refresh_token: 'refresh',
+      client_id: 'id',
+      client_secret: 'secret',
+    });
+  });
+
+  it('throws an AuthenticationError when LinkedIn refuses', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('{"error":"invalid_grant"}', { status: 400 })));
+
+    await expect(refreshAccessToken('revoked', { clientId: 'id', clientSecret: 'secret' })).rejects.toThrow(
+      'Token request failed: 400 {"error":"invalid_grant"}'
+    );
+  });
+});
+
+describe('introspectToken', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts the token to the endpoint next to the token endpoint', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ active: true, scope: 'r_ads' })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const introspection = await introspectToken('token', {
+      clientId: 'id',
+      clientSecret: 'secret',
+      tokenUrl: 'http://127.0.0.1:9000/oauth/v2/accessToken',
+    });
+
+    expect(introspection).toEqual({ active: true, scope: 'r_ads' });
+    expect(fetchMock.mock.calls[0][0]).toBe('http://127.0.0.1:9000/oauth/v2/introspectToken');
+    expect(Object.fromEntries(fetchMock.mock.calls[0][1].body as URLSearchParams)).toEqual({
+      token: 'token',
+      client_id: 'id',
+      client_secret: 'secret',
+    });
+  });
+});
+
+describe('toStoredToken', () => {
+  const now = new Date('2026-03-01T00:00:00.000Z');
+
+  it('converts lifetimes into expiry timestamps', () => {
+    expect(
+      toStoredToken(
+        { access_token: 'a', expires_in: 60, refresh_token: 'r', refresh_token_expires_in: 120, scope: 'rw_ads' },
+        undefined,
+        now
+      )
+    ).toEqual({
+      accessToken: 'a',
+      expiresAt: '2026-03-01T00:01:00.000Z',
+      refreshToken: 'r',
+      refreshTokenExpiresAt: '2026-03-01T00:02:00.000Z',
+      scope: 'rw_ads',
+      updatedAt: '2026-03-01T00:00:00.000Z',
+    });
+  });
+
+  it('keeps the previous refresh token when none is returned', () => {
+    const previous = { accessToken: 'old', refreshToken: 'r', refreshTokenExpiresAt: '2027-01-01T00:00:00.000Z', updatedAt: '' };
+
+    expect(toStoredToken({ access_token: 'a', expires_in: 60, scope: '' }, previous, now)).toMatchObject({
+      refreshToken: 'r',
+      refreshTokenExpiresAt: '2027-01-01T00:00:00.000Z',
+    });
+  });
+});
+
+describe('AccessTokenManager', () => {
+  let dir: string;
+
+  const config = {
+    accessToken: 'env-token',
+    refreshToken: 'refresh',
+    clientId: 'id',
+    clientSecret: 'secret',
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'oauth-'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('shares one refresh between concurrent callers and persists the result', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(tokenResponse('new-token'));
+    vi.stubGlobal('fetch', fetchMock);
+    const tokenStoreFile = join(dir, 'nested', 'token.json');
+    const tokens = new AccessTokenManager({ ...config, tokenStoreFile });
+
+    await Promise.all([tokens.refresh('env-token'), tokens.refresh('env-token')]);
+    await tokens.refresh('env-token');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(tokens.accessToken).toBe('new-token');
+    expect(new TokenStore(tokenStoreFile).load()).toMatchObject({ accessToken: 'new-token', refreshToken: 'refresh' });
+    expect(statSync(tokenStoreFile).mode & 0o777).toBe(0o600);
+  });
+
+  it('prefers the stored token over the configured one', () => {
+    const tokenStoreFile = join(dir, 'token.json');
+    new TokenStore(tokenStoreFile).save({
+      accessToken: 'stored-token',
+      expiresAt: '2026-05-01T00:00:00.000Z',
+      updatedAt: '2026-03-01T00:00:00.000Z',
+    });
+
+    const tokens = new AccessTokenManager({ ...config, tokenStoreFile });
+
+    expect(tokens.accessToken).toBe('stored-token');
+    expect(tokens.status()).toEqual({
+      expiresAt: '2026-05-01T00:00:00.000Z',
+      refreshTokenExpiresAt: undefined,
+      refreshable: true,
+      refreshedAt: undefined,
+    });
+  });
+
+  it('reports the configured expiry of a token without a store', () => {
+    const tokens = new AccessTokenManager({ accessToken: 'env-token', accessTokenExpiresAt: '2026-05-01T00:00:00.000Z' });
+
+    expect(tokens.status()).toMatchObject({ expiresAt: '2026-05-01T00:00:00.000Z', refreshable: false });
+  });
+
+  it('is not refreshable without client credentials', () => {
+    expect(new AccessTokenManager({ accessToken: 'env-token', refreshToken: 'refresh' }).canRefresh).toBe(false);
+  });
+
+  it('reports a failed refresh as an AuthenticationError', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('revoked', { status: 400 })));
+    const tokens = new AccessTokenManager(config);
+
+    const error = await tokens.refresh('env-token').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect((error as Error).message).toContain('refreshing it failed');
+    expect(tokens.accessToken).toBe('env-token');
+  });
+
+  it('rejects an unreadable token store', () => {
+    const tokenStoreFile = join(dir, 'token.json');
+    writeFileSync(tokenStoreFile, '{"accessToken":');
+
+    expect(() => new AccessTokenManager({ ...config, tokenStoreFile })).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import type { Prompt } from 'fastmcp';
+import { createPrompts } from '../../src/prompts.js';
+
+/**
+ * Tests for the workflow prompt templates.
+ */
+
+const NOW = new Date('2026-03-11T15:00:00Z');
+
+function findPrompt(name: string): Prompt {
+  const prompt = createPrompts(() => true, () => NOW).find((entry) => entry.name === name);
+  if (prompt === undefined) {
+    throw new Error(`No prompt ${name}`);
+  }
+  return prompt;
+}
+
+describe('createPrompts', () => {
+  it('reviews the last 7 days against the 7 days before by default', async () => {
+    const text = await findPrompt('weekly_performance_review').load({ accountId: '123' });
+
+    expect(text).toContain('from 2026-03-04 to 2026-03-10');
+    expect(text).toContain('`get_analytics` with accountId 123, startDate 2026-03-04, endDate 2026-03-10');
+    expect(text).toContain('startDate 2026-02-25 and endDate 2026-03-03');
+    expect(text).not.toContain('Pass profile');
+  });
+
+  it('uses the given date range and profile', async () => {
+    const text = await findPrompt('weekly_performance_review').load({
+      accountId: '123',
+      startDate: '2026-01-01',
+      endDate: '2026-01-31',
+      profile: 'brand-a',
+    });
+
+    expect(text).toContain('from 2026-01-01 to 2026-01-31');
+    expect(text).toContain('startDate 2025-12-01 and endDate 2025-12-31');
+    expect(text).toContain('Pass profile "brand-a" to every tool call.');
+  });
+
+  it('splits the fatigue audit into two halves', async () => {
+    const text = await findPrompt('audit_creative_fatigue').load({ accountId: '123', campaignId: '456' });
+
+    expect(text).toContain('campaign 456 in LinkedIn ad account 123 for ad fatigue from 2026-02-09 to 2026-03-10');
+    expect(text).toContain('startDate 2026-02-09 and endDate 2026-02-23');
+    expect(text).toContain('startDate 2026-02-24 and endDate 2026-03-10');
+  });
+
+  it('launches lead generation campaigns by default, with a dry run first', async () => {
+    const prompt = findPrompt('launch_campaign');
+    const text = await prompt.load({ accountId: '123', dailyBudget: '50' });
+
+    expect(prompt.arguments?.find((argument) => argument.name === 'objective')?.enum).toContain('WEBSITE_VISITS');
+    expect(text).toContain('Launch a new LEAD_GENERATION campaign');
+    expect(text).toContain('a daily budget of 50');
+    expect(text).toContain('status DRAFT and dryRun true');
+  });
+
+  it('rejects invalid arguments', () => {
+    expect(() => findPrompt('launch_campaign').load({ accountId: '123', objective: 'SALES' })).toThrow(
+      'objective must be one of'
+    );
+    expect(() => findPrompt('weekly_performance_review').load({ accountId: '123', startDate: '2026-13-45' })).toThrow(
+      'startDate must be in YYYY-MM-DD format'
+    );
+    expect(() =>
+      findPrompt('weekly_performance_review').load({ accountId: '123', startDate: '2026-02-01', endDate: '2026-01-01' })
+    ).toThrow('startDate must not be after endDate');
+    expect(() => findPrompt('audit_creative_fatigue').load({})).toThrow('accountId is required');
+  });
+
+  it('leaves out prompts that need a disabled tool', () => {
+    const names = createPrompts((tool) => tool !== 'create_campaign').map((prompt) => prompt.name);
+
+    expect(names).toEqual(['weekly_performance_review', 'audit_creative_fatigue']);
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CancelledError, QuotaExceededError } from '../../src/errors.js';
+import { RateLimitPolicySchema, type RateLimitPolicy } from '../../src/types.js';
+import { RateLimiter, endpointKey, loadRateLimitPolicy } from '../../src/utils/rate-limiter.js';
+
+/**
+ * Tests for client-side rate limiting: queueing, fairness, token buckets and daily limits.
+ */
+
+function policy(raw: unknown): RateLimitPolicy {
+  return RateLimitPolicySchema.parse(raw);
+}
+
+/** An operation that stays in flight until `finish` is called */
+function pending(): { operation: () => Promise<string>; finish: () => void; started: () => boolean } {
+  let resolve: (value: string) => void = () => {};
+  let started = false;
+  return {
+    operation: () => {
+      started = true;
+      return new Promise<string>((r) => {
+        resolve = r;
+      });
+    },
+    finish: () => resolve('done'),
+    started: () => started,
+  };
+}
+
+describe('endpointKey', () => {
+  it('replaces IDs and URNs with {id}', () => {
+    expect(endpointKey('/adAccounts/501/adCampaigns')).toBe('/adAccounts/{id}/adCampaigns');
+    expect(endpointKey('/posts/urn%3Ali%3Ashare%3A1')).toBe('/posts/{id}');
+    expect(endpointKey('/adAnalytics')).toBe('/adAnalytics');
+  });
+});
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('queues requests beyond the endpoint concurrency limit', async () => {
+    const limiter = new RateLimiter(policy({ defaults: { maxConcurrent: 1 } }));
+    const first = pending();
+    const second = pending();
+
+    const firstResult = limiter.schedule('/adAccounts', first.operation);
+    const secondResult = limiter.schedule('/adAccounts', second.operation);
+    await vi.waitFor(() => expect(first.started()).toBe(true));
+
+    expect(second.started()).toBe(false);
+    expect(limiter.usage().endpoints[0]).toMatchObject({ endpoint: '/adAccounts', inFlight: 1, queued: 1 });
+
+    first.finish();
+    await firstResult;
+    await vi.waitFor(() => expect(second.started()).toBe(true));
+    second.finish();
+    await expect(secondResult).resolves.toBe('done');
+    expect(limiter.usage().endpoints[0]).toMatchObject({ calls: 2, inFlight: 0, queued: 0 });
+  });
+
+  it('lets endpoints take turns for the global concurrency limit', async () => {
+    const limiter = new RateLimiter(policy({ maxConcurrent: 1, defaults: {} }));
+    const order: string[] = [];
+    const blocker = pending();
+    const run = (endpoint: string): Promise<void> =>
+      limiter.schedule(endpoint, () => {
+        order.push(endpoint);
+        return Promise.resolve();
+      });
+
+    const blocked = limiter.schedule('/adAnalytics', blocker.operation);
+    const queued = [run('/adAnalytics'), run('/adAnalytics'), run('/adAnalytics'), run('/adAccounts')];
+    await vi.waitFor(() => expect(blocker.started()).toBe(true));
+    blocker.finish();
+    await Promise.all([blocked, ...queued]);
+
+    expect(order).toEqual(['/adAnalytics', '/adAccounts', '/adAnalytics', '/adAnalytics']);
+  });
+
+  it('spaces requests by the token bucket', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(policy({ defaults: { requestsPerMinute: 60, burst: 1 } }));
+    const started: number[] = [];
+    const run = (): Promise<void> =>
+      limiter.schedule('/adAnalytics', () => {
+        started.push(Date.now());
+        return Promise.resolve();
+      });
+
+    const start = Date.now();
+    const results = Promise.all([run(), run(), run()]);
+    await vi.advanceTimersByTimeAsync(2_000);
+    await results;
+
+    expect(started.map((time) => time - start)).toEqual([0, 1_000, 2_000]);
+  });
+
+  it('refuses calls over the daily limit until the next UTC day', async () => {
+    let now = Date.parse('2026-03-01T23:00:00.000Z');
+    const limiter = new RateLimiter(policy({ endpoints: { '/adAnalytics': { dailyLimit: 1 } } }), () => now);
+    const operation = vi.fn().mockResolvedValue('ok');
+
+    expect(limiter.usage().endpoints).toEqual([
+      expect.objectContaining({ endpoint: '/adAnalytics', calls: 0, dailyLimit: 1, remaining: 1 }),
+    ]);
+
+    await limiter.schedule('/adAnalytics', operation);
+    const error = await limiter.schedule('/adAnalytics', operation).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect((error as QuotaExceededError).resetsAt).toBe('2026-03-02T00:00:00.000Z');
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(limiter.usage()).toMatchObject({
+      date: '2026-03-01',
+      endpoints: [{ endpoint: '/adAnalytics', calls: 1, remaining: 0 }],
+    });
+
+    now = Date.parse('2026-03-02T00:00:01.000Z');
+    await expect(limiter.schedule('/adAnalytics', operation)).resolves.toBe('ok');
+    expect(limiter.usage()).toMatchObject({ date: '2026-03-02', endpoints: [{ calls: 1 }] });
+  });
+
+  it('counts 429 answers and releases the slot of failed calls', async () => {
+    const limiter = new RateLimiter(policy({ defaults: { maxConcurrent: 1 } }));
+
+    await expect(limiter.schedule('/adAccounts', () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    limiter.recordRateLimited('/adAccounts');
+
+    await expect(limiter.schedule('/adAccounts', () => Promise.resolve('ok'))).resolves.toBe('ok');
+    expect(limiter.usage().endpoints[0]).toMatchObject({ calls: 2, rateLimited: 1, inFlight: 0 });
+  });
+
+  it('drops cancelled requests from the queue', async () => {
+    const limiter = new RateLimiter(policy({ defaults: { maxConcurrent: 1 } }));
+    const first = pending();
+    const cancelled = vi.fn();
+    const controller = new AbortController();
+
+    const firstResult = limiter.schedule('/adAccounts', first.operation);
+    const secondResult = limiter.schedule('/adAccounts', cancelled, controller.signal);
+    const thirdResult = limiter.schedule('/adAccounts', () => Promise.resolve('third'));
+    controller.abort();
+
+    await expect(secondResult).rejects.toBeInstanceOf(CancelledError);
+    expect(limiter.usage().endpoints[0]).toMatchObject({ inFlight: 1, queued: 1 });
+
+    first.finish();
+    await firstResult;
+    await expect(thirdResult).resolves.toBe('third');
+    expect(cancelled).not.toHaveBeenCalled();
+    expect(limiter.usage().endpoints[0]).toMatchObject({ calls: 2, queued: 0 });
+  });
+});
+
+describe('loadRateLimitPolicy', () => {
+  it('merges endpoint limits over the defaults', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'rate-limits-'));
+    const file = join(dir, 'limits.yaml');
+    writeFileSync(file, 'endpoints:\n  /adAnalytics:\n    requestsPerMinute: 30\n    dailyLimit: 1000\n');
+
+    try {
+      expect(loadRateLimitPolicy(file)).toEqual({
+        maxConcurrent: 8,
+        defaults: { maxConcurrent: 4 },
+        endpoints: { '/adAnalytics': { requestsPerMinute: 30, dailyLimit: 1000 } },
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects unknown limits', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'rate-limits-'));
+    const file = join(dir, 'limits.json');
+    writeFileSync(file, JSON.stringify({ defaults: { perHour: 5 } }));
+
+    try {
+      expect(() => loadRateLimitPolicy(file)).toThrow('Invalid rate limits');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createResources, createResourceTemplates, type ResourceClients } from '../../src/resources.js';
+import type { LinkedInClient } from '../../src/client.js';
+
+/**
+ * Tests for the MCP resources backed by the tool handlers.
+ */
+
+function mockClient(): LinkedInClient {
+  return {
+    finder: vi.fn(),
+    finderAll: vi.fn(),
+    get: vi.fn(),
+  } as unknown as LinkedInClient;
+}
+
+describe('resources', () => {
+  let clients: ResourceClients;
+
+  beforeEach(() => {
+    clients = { profile: 'brand-a', ads: mockClient(), community: null };
+  });
+
+  function template(uriTemplate: string): ReturnType<typeof createResourceTemplates>[number] {
+    const found = createResourceTemplates(clients).find((entry) => entry.uriTemplate === uriTemplate);
+    if (found === undefined) {
+      throw new Error(`No template ${uriTemplate}`);
+    }
+    return found;
+  }
+
+  it('reads a campaign with the ads client and the campaign formatter', async () => {
+    vi.mocked(clients.ads.get).mockResolvedValue({
+      id: 456,
+      name: 'Evergreen',
+      status: 'ACTIVE',
+      account: 'urn:li:sponsoredAccount:123',
+    });
+
+    const result = await template('linkedin://accounts/{accountId}/campaigns/{campaignId}').load({
+      accountId: '123',
+      campaignId: '456',
+    });
+
+    expect(clients.ads.get).toHaveBeenCalledWith('/adAccounts/123/adCampaigns', '456');
+    expect(JSON.parse((result as { text: string }).text)).toMatchObject({ id: '456', name: 'Evergreen' });
+  });
+
+  it('lists every ad account for linkedin://accounts', async () => {
+    vi.mocked(clients.ads.finderAll).mockResolvedValue({
+      elements: [{ id: 'urn:li:sponsoredAccount:111', name: 'Account One' }],
+      truncated: false,
+    });
+    const [accounts] = createResources(clients);
+
+    const result = await accounts.load();
+
+    expect(accounts.uri).toBe('linkedin://accounts');
+    expect(JSON.parse((result as { text: string }).text)).toMatchObject({ count: 1 });
+  });
+
+  it('orders templates so that nested paths are not read as account IDs', () => {
+    const uriTemplates = createResourceTemplates(clients).map((entry) => entry.uriTemplate);
+
+    expect(uriTemplates.indexOf('linkedin://accounts/{accountId}/campaigns/{campaignId}')).toBeLessThan(
+      uriTemplates.indexOf('linkedin://accounts/{accountId}/campaigns')
+    );
+    expect(uriTemplates.indexOf('linkedin://accounts/{accountId}/campaigns')).toBeLessThan(
+      uriTemplates.indexOf('linkedin://accounts/{accountId}')
+    );
+  });
+
+  it('explains the setup organizations need without a community client', async () => {
+    await expect(
+      template('linkedin://organizations/{organizationId}').load({ organizationId: '42' })
+    ).rejects.toThrow('add a communityToken to profile brand-a');
+  });
+
+  it('leaves out resources whose tool is disabled', () => {
+    const isToolAllowed = (tool: string): boolean => tool !== 'get_organization' && tool !== 'list_ad_accounts';
+
+    expect(createResources(clients, isToolAllowed)).toEqual([]);
+    expect(createResourceTemplates(clients, isToolAllowed).map((entry) => entry.uriTemplate)).not.toContain(
+      'linkedin://organizations/{organizationId}'
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  CancelledError,
+  CircuitOpenError,
+  LinkedInApiError,
+  NetworkError,
+  QuotaExceededError,
+} from '../../src/errors.js';
+import {
+  CircuitBreaker,
+  DEFAULT_RETRY_POLICY,
+  isTransientError,
+  loadRetryPolicy,
+  retryDelay,
+  sleep,
+  withTimeout,
+} from '../../src/utils/retry.js';
+
+/**
+ * Tests for the retry policy: error classification, jittered backoff, cancellation and the circuit breaker.
+ */
+
+describe('isTransientError', () => {
+  it('treats network errors and the configured 5xx statuses as transient', () => {
+    expect(isTransientError(new NetworkError('socket hang up', 'ECONNRESET'), DEFAULT_RETRY_POLICY)).toBe(true);
+    expect(isTransientError(new LinkedInApiError('Unavailable', 503), DEFAULT_RETRY_POLICY)).toBe(true);
+    expect(isTransientError(new LinkedInApiError('Not implemented', 501), DEFAULT_RETRY_POLICY)).toBe(false);
+    expect(isTransientError(new LinkedInApiError('Bad request', 400), DEFAULT_RETRY_POLICY)).toBe(false);
+  });
+
+  it('does not retry errors raised locally', () => {
+    expect(isTransientError(new CircuitOpenError('open', '2026-03-01T00:00:00.000Z'), DEFAULT_RETRY_POLICY)).toBe(false);
+    expect(
+      isTransientError(new QuotaExceededError('used up', '/adAnalytics', '2026-03-02T00:00:00.000Z'), DEFAULT_RETRY_POLICY)
+    ).toBe(false);
+  });
+});
+
+describe('retryDelay', () => {
+  it('picks a random wait up to the doubling ceiling', () => {
+    expect(retryDelay(DEFAULT_RETRY_POLICY, 0, () => 0.5)).toBe(500);
+    expect(retryDelay(DEFAULT_RETRY_POLICY, 2, () => 0.5)).toBe(2000);
+    expect(retryDelay(DEFAULT_RETRY_POLICY, 0, () => 0)).toBe(0);
+  });
+
+  it('caps the ceiling at maxDelayMs', () => {
+    expect(retryDelay(DEFAULT_RETRY_POLICY, 10, () => 0.99)).toBe(29_700);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects with the reason of the aborted signal', async () => {
+    vi.useFakeTimers();
+    try {
+      const controller = new AbortController();
+      const waiting = sleep(60_000, controller.signal).catch((e: unknown) => e);
+
+      controller.abort(new CancelledError('The client disconnected'));
+
+      expect(await waiting).toEqual(new CancelledError('The client disconnected'));
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects right away when the signal already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(sleep(60_000, controller.signal)).rejects.toThrow('The request was cancelled');
+  });
+});
+
+describe('withTimeout', () => {
+  const hanging = (signal: AbortSignal): Promise<never> =>
+    new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(new Error('canceled'))));
+
+  it('fails with ETIMEDOUT after the timeout', async () => {
+    await expect(withTimeout(hanging, 1)).rejects.toMatchObject({ name: 'NetworkError', code: 'ETIMEDOUT' });
+  });
+
+  it('fails with a CancelledError when the cancel signal aborts', async () => {
+    const controller = new AbortController();
+    const result = withTimeout(hanging, 60_000, controller.signal);
+
+    controller.abort();
+
+    await expect(result).rejects.toBeInstanceOf(CancelledError);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const unavailable = (): Promise<never> => Promise.reject(new LinkedInApiError('Unavailable', 503));
+  const isFailure = (error: unknown): boolean => error instanceof LinkedInApiError && error.statusCode >= 500;
+
+  it('opens after consecutive failures and lets one trial through after the reset period', async () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetAfterMs: 1000 }, () => now);
+
+    await expect(breaker.run(unavailable, isFailure)).rejects.toThrow('Unavailable');
+    await expect(breaker.run(unavailable, isFailure)).rejects.toThrow('Unavailable');
+    expect(breaker.state).toBe('open');
+
+    const operation = vi.fn().mockResolvedValue('ok');
+    await expect(breaker.run(operation, isFailure)).rejects.toMatchObject({
+      name: 'CircuitOpenError',
+      retryAt: '1970-01-01T00:00:01.000Z',
+    });
+    expect(operation).not.toHaveBeenCalled();
+
+    now = 1000;
+    expect(breaker.state).toBe('half-open');
+
+    let finishTrial: (value: string) => void = () => {};
+    const trial = breaker.run(() => new Promise<string>((resolve) => (finishTrial = resolve)), isFailure);
+    await expect(breaker.run(operation, isFailure)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    finishTrial('ok');
+    await expect(trial).resolves.toBe('ok');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('reopens when the trial fails', async () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetAfterMs: 1000 }, () => now);
+
+    await expect(breaker.run(unavailable, isFailure)).rejects.toThrow('Unavailable');
+    now = 1500;
+    await expect(breaker.run(unavailable, isFailure)).rejects.toThrow('Unavailable');
+
+    expect(breaker.state).toBe('open');
+    now = 2500;
+    expect(breaker.state).toBe('half-open');
+  });
+
+  it('counts answers that are not failures as success', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetAfterMs: 1000 });
+
+    await expect(breaker.run(unavailable, isFailure)).rejects.toThrow('Unavailable');
+    await expect(
+      breaker.run(() => Promise.reject(new LinkedInApiError('Not found', 404)), isFailure)
+    ).rejects.toThrow('Not found');
+    await expect(breaker.run(unavailable, isFailure)).rejects.toThrow('Unavailable');
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('counts cancelled calls as neither failure nor success', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetAfterMs: 1000 });
+
+    await expect(breaker.run(unavailable, isFailure)).rejects.toThrow('Unavailable');
+    await expect(breaker.run(() => Promise.reject(new CancelledError()), isFailure)).rejects.toBeInstanceOf(
+      CancelledError
+    );
+    await expect(breaker.run(unavailable, isFailure)).rejects.toThrow('Unavailable');
+
+    expect(breaker.state).toBe('open');
+  });
+});
+
+describe('loadRetryPolicy', () => {
+  it('fills in defaults for omitted settings', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'retry-policy-'));
+    const file = join(dir, 'retry.yaml');
+    writeFileSync(file, 'maxRetries: 5\ncircuitBreaker:\n  failureThreshold: 10\n');
+
+    try {
+      expect(loadRetryPolicy(file)).toEqual({
+        ...DEFAULT_RETRY_POLICY,
+        maxRetries: 5,
+        circuitBreaker: { failureThreshold: 10, resetAfterMs: 30_000 },
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects statuses outside 5xx', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'retry-policy-'));
+    const file = join(dir, 'retry.json');
+    writeFileSync(file, JSON.stringify({ retryOnStatus: [404] }));
+
+    try {
+      expect(() => loadRetryPolicy(file)).toThrow('Invalid retry policy');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
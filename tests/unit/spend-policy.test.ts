@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ConfigurationError, ValidationError } from '../../src/errors.js';
+import type { SpendPolicy } from '../../src/types.js';
+import {
+  loadSpendPolicy,
+  resolveAccountPolicy,
+  enforceSpendPolicy,
+} from '../../src/utils/spend-policy.js';
+
+/**
+ * Tests for the LINKEDIN_SPEND_POLICY_FILE guardrails.
+ */
+
+const policy: SpendPolicy = {
+  defaults: { maxDailyBudget: 500, maxBudgetIncreasePercent: 50 },
+  accounts: {
+    '456': { maxDailyBudget: 2000, maxTotalBudget: 10000, allowedObjectiveTypes: ['WEBSITE_VISITS'] },
+  },
+};
+
+describe('loadSpendPolicy', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'spend-policy-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads JSON policies and fills in defaults', () => {
+    const file = join(dir, 'policy.json');
+    writeFileSync(file, JSON.stringify({ accounts: { '456': { maxDailyBudget: 100 } } }));
+
+    expect(loadSpendPolicy(file)).toEqual({ defaults: {}, accounts: { '456': { maxDailyBudget: 100 } } });
+  });
+
+  it('loads YAML policies', () => {
+    const file = join(dir, 'policy.yaml');
+    writeFileSync(
+      file,
+      ['defaults:', '  maxDailyBudget: 250', 'accounts:', '  "456":', '    allowedObjectiveTypes: [LEAD_GENERATION]'].join('\n')
+    );
+
+    expect(loadSpendPolicy(file)).toEqual({
+      defaults: { maxDailyBudget: 250 },
+      accounts: { '456': { allowedObjectiveTypes: ['LEAD_GENERATION'] } },
+    });
+  });
+
+  it('rejects unknown rules and unreadable files', () => {
+    const file = join(dir, 'policy.json');
+    writeFileSync(file, JSON.stringify({ defaults: { maxDailyBudgett: 100 } }));
+
+    expect(() => loadSpendPolicy(file)).toThrow(ConfigurationError);
+    expect(() => loadSpendPolicy(join(dir, 'missing.json'))).toThrow('Cannot read LINKEDIN_SPEND_POLICY_FILE');
+  });
+});
+
+describe('resolveAccountPolicy', () => {
+  it('overrides defaults rule by rule', () => {
+    expect(resolveAccountPolicy(policy, '456')).toEqual({
+      maxDailyBudget: 2000,
+      maxTotalBudget: 10000,
+      maxBudgetIncreasePercent: 50,
+      allowedObjectiveTypes: ['WEBSITE_VISITS'],
+    });
+    expect(resolveAccountPolicy(policy, '789')).toEqual(policy.defaults);
+  });
+});
+
+describe('enforceSpendPolicy', () => {
+  it('allows everything without a policy', async () => {
+    await expect(
+      enforceSpendPolicy(undefined, { accountId: '456', budgetField: 'dailyBudget', budget: 50000 })
+    ).resolves.toBeUndefined();
+  });
+
+  it('blocks budgets above the cap with a structured ValidationError', async () => {
+    const error = await enforceSpendPolicy(policy, {
+      accountId: '789',
+      budgetField: 'dailyBudget',
+      budget: 50000,
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).field).toBe('dailyBudget');
+    expect((error as ValidationError).details).toEqual({
+      rule: 'maxDailyBudget',
+      accountId: '789',
+      limit: 500,
+      requested: 50000,
+    });
+    expect((error as ValidationError).message).toContain('dailyBudget 50000 exceeds maxDailyBudget 500');
+  });
+
+  it('caps campaign group total budgets separately', async () => {
+    await expect(
+      enforceSpendPolicy(policy, { accountId: '456', budgetField: 'totalBudget', budget: 20000 })
+    ).rejects.toThrow('totalBudget 20000 exceeds maxTotalBudget 10000');
+    await expect(
+      enforceSpendPolicy(policy, { accountId: '789', budgetField: 'totalBudget', budget: 20000 })
+    ).resolves.toBeUndefined();
+  });
+
+  it('blocks objective types outside the allowlist', async () => {
+    await expect(
+      enforceSpendPolicy(policy, { accountId: '456', budgetField: 'dailyBudget', objectiveType: 'VIDEO_VIEWS' })
+    ).rejects.toMatchObject({ field: 'objectiveType', details: { rule: 'allowedObjectiveTypes' } });
+  });
+
+  it('limits the increase over the current budget', async () => {
+    const loadCurrent = vi.fn().mockResolvedValue(100);
+
+    await expect(
+      enforceSpendPolicy(policy, { accountId: '789', budgetField: 'dailyBudget', budget: 150 }, loadCurrent)
+    ).resolves.toBeUndefined();
+    await expect(
+      enforceSpendPolicy(policy, { accountId: '789', budgetField: 'dailyBudget', budget: 151 }, loadCurrent)
+    ).rejects.toMatchObject({
+      details: { rule: 'maxBudgetIncreasePercent', current: 100, increasePercent: 51 },
+    });
+  });
+
+  it('only loads the current budget when an increase limit applies', async () => {
+    const loadCurrent = vi.fn().mockResolvedValue(undefined);
+
+    await enforceSpendPolicy(
+      { defaults: { maxDailyBudget: 500 }, accounts: {} },
+      { accountId: '456', budgetField: 'dailyBudget', budget: 400 },
+      loadCurrent
+    );
+    await enforceSpendPolicy(policy, { accountId: '456', budgetField: 'dailyBudget' }, loadCurrent);
+    expect(loadCurrent).not.toHaveBeenCalled();
+
+    await enforceSpendPolicy(policy, { accountId: '456', budgetField: 'dailyBudget', budget: 400 }, loadCurrent);
+    expect(loadCurrent).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SpanStatusCode, context, propagation, trace } from '@opentelemetry/api';
+import { MeterProvider, MetricReader, type MetricData } from '@opentelemetry/sdk-metrics';
+import { InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { Telemetry, accountIdFromPath } from '../../src/utils/telemetry.js';
+import { FileMetricExporter, FileSpanExporter } from '../../src/utils/telemetry-export.js';
+
+/**
+ * Tests for the spans and metrics of tool calls and LinkedIn requests.
+ */
+
+class CollectingReader extends MetricReader {
+  async metrics(): Promise<MetricData[]> {
+    const { resourceMetrics } = await this.collect();
+    return resourceMetrics.scopeMetrics.flatMap((scope) => scope.metrics);
+  }
+
+  protected onShutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  protected onForceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+describe('Telemetry', () => {
+  const spans = new InMemorySpanExporter();
+  const tracerProvider = new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(spans)] });
+  let reader: CollectingReader;
+  let telemetry: Telemetry;
+
+  beforeAll(() => {
+    // Registers the async context manager that parents request spans to tool spans
+    tracerProvider.register();
+  });
+
+  afterAll(() => {
+    trace.disable();
+    context.disable();
+    propagation.disable();
+  });
+
+  beforeEach(() => {
+    spans.reset();
+    reader = new CollectingReader();
+    telemetry = new Telemetry(
+      tracerProvider.getTracer('test'),
+      new MeterProvider({ readers: [reader] }).getMeter('test')
+    );
+  });
+
+  it('nests request spans in the tool span that made them', async () => {
+    await telemetry.toolSpan('get_campaign', { 'linkedin.account_id': '123' }, async (toolSpan) => {
+      await telemetry.requestSpan('LinkedIn GET /adAccounts/{id}/adCampaigns', {}, (span) => {
+        telemetry.recordRequest(span, {
+          method: 'GET',
+          endpoint: '/adAccounts/{id}/adCampaigns',
+          status: 200,
+          retries: 0,
+          requestId: 'li-uuid-1',
+          durationMs: 40,
+        });
+        return Promise.resolve();
+      });
+      telemetry.recordToolCall(toolSpan, 'get_campaign', 50);
+    });
+
+    const [request, tool] = spans.getFinishedSpans();
+    expect(tool.name).toBe('tool get_campaign');
+    expect(tool.attributes).toMatchObject({ 'mcp.tool.name': 'get_campaign', 'linkedin.account_id': '123' });
+    expect(request.parentSpanContext?.spanId).toBe(tool.spanContext().spanId);
+    expect(request.attributes).toMatchObject({
+      'linkedin.method': 'GET',
+      'linkedin.endpoint': '/adAccounts/{id}/adCampaigns',
+      'http.response.status_code': 200,
+      'linkedin.retries': 0,
+      'linkedin.request_id': 'li-uuid-1',
+    });
+    expect(request.status.code).toBe(SpanStatusCode.UNSET);
+  });
+
+  it('marks failures on spans and counts errors and retries', async () => {
+    await telemetry.requestSpan('LinkedIn FINDER /adAccounts', {}, (span) => {
+      telemetry.recordRequest(span, {
+        method: 'FINDER',
+        endpoint: '/adAccounts',
+        status: 503,
+        retries: 2,
+        durationMs: 3000,
+        errorType: 'LINKEDIN_SERVER_ERROR',
+      });
+      return Promise.resolve();
+    });
+    await telemetry.toolSpan('list_ad_accounts', {}, (span) => {
+      telemetry.recordToolCall(span, 'list_ad_accounts', 3100, 'LINKEDIN_SERVER_ERROR');
+      return Promise.resolve();
+    });
+
+    const [request, tool] = spans.getFinishedSpans();
+    expect(request.status).toEqual({ code: SpanStatusCode.ERROR, message: 'LINKEDIN_SERVER_ERROR' });
+    expect(tool.attributes['error.type']).toBe('LINKEDIN_SERVER_ERROR');
+
+    const metrics = Object.fromEntries((await reader.metrics()).map((metric) => [metric.descriptor.name, metric]));
+    expect(metrics['linkedin.request.retries'].dataPoints[0].value).toBe(2);
+    expect(metrics['linkedin.request.errors'].dataPoints[0]).toMatchObject({
+      value: 1,
+      attributes: { 'linkedin.endpoint': '/adAccounts', 'http.response.status_code': 503, 'error.type': 'LINKEDIN_SERVER_ERROR' },
+    });
+    expect(metrics['linkedin.request.duration'].dataPoints[0].value).toMatchObject({ count: 1, sum: 3000 });
+    expect(metrics['mcp.tool.errors'].dataPoints[0].value).toBe(1);
+    expect(metrics['mcp.tool.duration'].dataPoints[0].value).toMatchObject({ count: 1, sum: 3100 });
+  });
+});
+
+describe('file exporters', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'telemetry-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function readLines(file: string): Record<string, unknown>[] {
+    return readFileSync(file, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as Record<string, unknown>);
+  }
+
+  it('writes spans and metric data points as JSON lines', async () => {
+    const file = join(dir, 'otel', 'telemetry.jsonl');
+    const provider = new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(new FileSpanExporter(file))] });
+    const reader = new CollectingReader();
+    const meter = new MeterProvider({ readers: [reader] }).getMeter('test');
+
+    const span = provider.getTracer('test').startSpan('tool get_campaign', { attributes: { 'mcp.tool.name': 'get_campaign' } });
+    span.end();
+    meter.createCounter('mcp.tool.errors').add(2, { 'mcp.tool.name': 'get_campaign' });
+
+    const { resourceMetrics } = await reader.collect();
+    await new Promise<void>((resolve) => {
+      new FileMetricExporter(file).export(resourceMetrics, () => resolve());
+    });
+
+    expect(readLines(file)).toEqual([
+      expect.objectContaining({
+        type: 'span',
+        name: 'tool get_campaign',
+        kind: 'INTERNAL',
+        status: 'UNSET',
+        traceId: expect.stringMatching(/^[0-9a-f]{32}$/),
+        attributes: { 'mcp.tool.name': 'get_campaign' },
+      }),
+      expect.objectContaining({
+        type: 'metric',
+        name: 'mcp.tool.errors',
+        attributes: { 'mcp.tool.name': 'get_campaign' },
+        value: 2,
+      }),
+    ]);
+  });
+});
+
+describe('accountIdFromPath', () => {
+  it('reads the ad account of account-scoped resource paths', () => {
+    expect(accountIdFromPath('/adAccounts/123/adCampaigns')).toBe('123');
+    expect(accountIdFromPath('/adAccounts/123')).toBe('123');
+    expect(accountIdFromPath('/adAccounts')).toBeUndefined();
+    expect(accountIdFromPath('/posts')).toBeUndefined();
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { getToolAccess, isMutatingTool, matchesToolPattern } from '../../src/utils/tool-access.js';
+import { accountTools } from '../../src/tools/accounts.js';
+import { analyticsTools } from '../../src/tools/analytics.js';
+import { campaignGroupTools } from '../../src/tools/campaign-groups.js';
+import { campaignTools } from '../../src/tools/campaigns.js';
+import { changeHistoryTools } from '../../src/tools/change-history.js';
+import { connectionTools } from '../../src/tools/connection.js';
+import { creativeTools } from '../../src/tools/creatives.js';
+import { organizationAnalyticsTools } from '../../src/tools/organization-analytics.js';
+import { postTools } from '../../src/tools/posts.js';
+import { targetingTools } from '../../src/tools/targeting.js';
+
+/**
+ * Tests for the LINKEDIN_READ_ONLY / LINKEDIN_TOOLS_ALLOW / LINKEDIN_TOOLS_DENY policy.
+ */
+
+const openPolicy = { readOnly: false, toolsAllow: [], toolsDeny: [] };
+
+describe('isMutatingTool', () => {
+  it('classifies create/update/delete tools as mutating', () => {
+    expect(isMutatingTool('create_campaign')).toBe(true);
+    expect(isMutatingTool('update_post')).toBe(true);
+    expect(isMutatingTool('delete_creative')).toBe(true);
+    expect(isMutatingTool('undo_change')).toBe(true);
+  });
+
+  it('treats read tools as non-mutating', () => {
+    expect(isMutatingTool('list_campaigns')).toBe(false);
+    expect(isMutatingTool('get_campaigns_by_ids')).toBe(false);
+  });
+});
+
+describe('tool annotations', () => {
+  const tools = Object.entries({
+    ...accountTools,
+    ...analyticsTools,
+    ...campaignGroupTools,
+    ...campaignTools,
+    ...changeHistoryTools,
+    ...connectionTools,
+    ...creativeTools,
+    ...organizationAnalyticsTools,
+    ...postTools,
+    ...targetingTools,
+  });
+
+  it('marks exactly the non-mutating tools as read-only', () => {
+    for (const [name, tool] of tools) {
+      expect(tool.annotations.readOnlyHint, name).toBe(!isMutatingTool(name));
+    }
+  });
+
+  it('marks updates and deletions as destructive, and creations as neither destructive nor idempotent', () => {
+    for (const [name, tool] of tools) {
+      if (/^(update|delete|undo)_/.test(name)) {
+        expect(tool.annotations, name).toMatchObject({ destructiveHint: true, idempotentHint: true });
+      }
+      if (name.startsWith('create_')) {
+        expect(tool.annotations, name).toMatchObject({ destructiveHint: false, idempotentHint: false });
+      }
+    }
+  });
+});
+
+describe('matchesToolPattern', () => {
+  it('matches exact names and wildcards', () => {
+    expect(matchesToolPattern('list_campaigns', 'list_campaigns')).toBe(true);
+    expect(matchesToolPattern('list_campaigns', 'list_*')).toBe(true);
+    expect(matchesToolPattern('get_post', '*_post*')).toBe(true);
+    expect(matchesToolPattern('list_campaigns', 'list_')).toBe(false);
+  });
+
+  it('treats regex characters literally', () => {
+    expect(matchesToolPattern('list_campaigns', 'list.campaigns')).toBe(false);
+  });
+});
+
+describe('getToolAccess', () => {
+  it('allows everything by default', () => {
+    expect(getToolAccess('delete_campaign', openPolicy)).toEqual({ allowed: true });
+  });
+
+  it('blocks mutating tools in read-only mode', () => {
+    const policy = { ...openPolicy, readOnly: true };
+
+    expect(getToolAccess('update_campaign', policy).allowed).toBe(false);
+    expect(getToolAccess('get_analytics', policy).allowed).toBe(true);
+  });
+
+  it('only enables allowlisted tools when an allowlist is set', () => {
+    const policy = { ...openPolicy, toolsAllow: ['list_*', 'get_analytics'] };
+
+    expect(getToolAccess('list_creatives', policy).allowed).toBe(true);
+    expect(getToolAccess('get_analytics', policy).allowed).toBe(true);
+    expect(getToolAccess('get_campaign', policy)).toEqual({
+      allowed: false,
+      reason: 'it is not listed in LINKEDIN_TOOLS_ALLOW',
+    });
+  });
+
+  it('lets the denylist win over the allowlist', () => {
+    const policy = { ...openPolicy, toolsAllow: ['*'], toolsDeny: ['*_post'] };
+
+    expect(getToolAccess('delete_post', policy)).toEqual({
+      allowed: false,
+      reason: 'it matches LINKEDIN_TOOLS_DENY pattern "*_post"',
+    });
+    expect(getToolAccess('list_posts', policy).allowed).toBe(true);
+  });
+});
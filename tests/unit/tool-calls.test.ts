@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { CancelledError } from '../../src/errors.js';
+import { currentToolCall, trackToolCalls, type ToolCallScope } from '../../src/utils/tool-calls.js';
+
+/**
+ * Tests for the transport wrapper that gives tool calls abort signals and progress tokens.
+ */
+
+/** Transport that records sent messages and lets the test deliver incoming ones */
+function fakeTransport(): Transport & { sent: { message: JSONRPCMessage; relatedRequestId?: unknown }[] } {
+  const sent: { message: JSONRPCMessage; relatedRequestId?: unknown }[] = [];
+  return {
+    sent,
+    start: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    send: vi.fn((message: JSONRPCMessage, options?: { relatedRequestId?: unknown }) => {
+      sent.push({ message, relatedRequestId: options?.relatedRequestId });
+      return Promise.resolve();
+    }),
+  };
+}
+
+/** Connect a handler that records the tool call scope of every message it receives */
+function connect(): {
+  inner: ReturnType<typeof fakeTransport>;
+  outer: Transport;
+  scopes: Map<unknown, ToolCallScope | undefined>;
+} {
+  const inner = fakeTransport();
+  const outer = trackToolCalls(inner);
+  const scopes = new Map<unknown, ToolCallScope | undefined>();
+  outer.onmessage = (message): void => {
+    scopes.set('id' in message ? message.id : message.method, currentToolCall());
+  };
+  return { inner, outer, scopes };
+}
+
+const toolCall = (id: number, progressToken?: string): JSONRPCMessage => ({
+  jsonrpc: '2.0',
+  id,
+  method: 'tools/call',
+  params: { name: 'list_campaigns', arguments: {}, ...(progressToken !== undefined ? { _meta: { progressToken } } : {}) },
+});
+
+describe('trackToolCalls', () => {
+  it('runs tool calls in a scope with their signal and progress token', () => {
+    const { inner, scopes } = connect();
+
+    inner.onmessage?.(toolCall(1, 'p1'));
+    inner.onmessage?.({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    expect(scopes.get(1)).toMatchObject({ progressToken: 'p1' });
+    expect(scopes.get(1)?.signal.aborted).toBe(false);
+    expect(scopes.get(2)).toBeUndefined();
+  });
+
+  it('aborts the call named by notifications/cancelled and passes the notification on', () => {
+    const { inner, scopes } = connect();
+    inner.onmessage?.(toolCall(1));
+    inner.onmessage?.(toolCall(2));
+
+    inner.onmessage?.({
+      jsonrpc: '2.0',
+      method: 'notifications/cancelled',
+      params: { requestId: 1, reason: 'User pressed stop' },
+    });
+
+    expect(scopes.get(1)?.signal.reason).toEqual(new CancelledError('User pressed stop'));
+    expect(scopes.get(2)?.signal.aborted).toBe(false);
+    expect(scopes.has('notifications/cancelled')).toBe(true);
+  });
+
+  it('cancels every call in flight when the client disconnects', () => {
+    const { inner, outer, scopes } = connect();
+    const onclose = vi.fn();
+    outer.onclose = onclose;
+    inner.onmessage?.(toolCall(1));
+
+    inner.onclose?.();
+
+    expect(scopes.get(1)?.signal.reason).toEqual(new CancelledError('The client disconnected'));
+    expect(onclose).toHaveBeenCalledOnce();
+  });
+
+  it('forgets calls once they are answered', async () => {
+    const { inner, outer, scopes } = connect();
+    inner.onmessage?.(toolCall(1));
+
+    await outer.send({ jsonrpc: '2.0', id: 1, result: { content: [] } });
+    inner.onmessage?.({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1 } });
+
+    expect(scopes.get(1)?.signal.aborted).toBe(false);
+  });
+
+  it('sends progress notifications as part of their tool call', async () => {
+    const { inner, outer } = connect();
+    inner.onmessage?.(toolCall(7, 'p7'));
+
+    await outer.send({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 'p7', progress: 1 } });
+    await outer.send({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 'other', progress: 1 } });
+
+    expect(inner.sent.map((entry) => entry.relatedRequestId)).toEqual([7, undefined]);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  BadRequestError,
+  CancelledError,
+  CircuitOpenError,
+  LinkedInApiError,
+  NetworkError,
+  QuotaExceededError,
+  ValidationError,
+} from '../../src/errors.js';
+import { toErrorEnvelope, toolErrorResult } from '../../src/utils/tool-errors.js';
+
+/**
+ * Tests for the error envelope tool calls return instead of throwing.
+ */
+
+describe('toErrorEnvelope', () => {
+  it('reports Zod input errors with the fields at fault', () => {
+    const schema = z.object({ accountId: z.string(), dailyBudget: z.object({ amount: z.string() }) });
+    const result = schema.safeParse({ dailyBudget: {} });
+    expect(result.success).toBe(false);
+
+    const envelope = toErrorEnvelope(!result.success ? result.error : undefined);
+
+    expect(envelope).toMatchObject({
+      code: 'INVALID_INPUT',
+      field: 'accountId',
+      violations: [
+        { field: 'accountId', message: 'Required' },
+        { field: 'dailyBudget.amount', message: 'Required' },
+      ],
+      retryable: false,
+    });
+    expect(envelope.message).toBe('Invalid input: accountId: Required; dailyBudget.amount: Required');
+  });
+
+  it('reports LinkedIn errors with their code, user message and request ID', () => {
+    const error = new LinkedInApiError('Campaign 9 not found', 404);
+    error.requestId = 'li-uuid-1';
+
+    expect(toErrorEnvelope(error)).toEqual({
+      code: 'NOT_FOUND',
+      message: 'Campaign 9 not found',
+      userMessage: 'Resource not found. Campaign 9 not found',
+      field: undefined,
+      violations: undefined,
+      retryable: false,
+      requestId: 'li-uuid-1',
+    });
+  });
+
+  it('transforms raw axios errors first', () => {
+    const envelope = toErrorEnvelope({
+      response: { status: 503, data: { message: 'Service Unavailable' }, headers: { 'x-li-uuid': 'li-uuid-2' } },
+    });
+
+    expect(envelope).toMatchObject({ code: 'LINKEDIN_SERVER_ERROR', retryable: true, requestId: 'li-uuid-2' });
+  });
+
+  it('takes the field from LinkedIn validation errors', () => {
+    const error = new BadRequestError('Invalid campaign', 400, [
+      { field: 'dailyBudget', path: 'dailyBudget.amount', message: 'Too low' },
+    ]);
+
+    expect(toErrorEnvelope(error)).toMatchObject({
+      code: 'BAD_REQUEST',
+      field: 'dailyBudget',
+      violations: undefined,
+      userMessage: expect.stringContaining('- dailyBudget: Too low'),
+    });
+  });
+
+  it('marks throttling and outages as retryable but not used up quotas', () => {
+    expect(toErrorEnvelope(new CircuitOpenError('open', '2026-03-01T00:00:00.000Z')).retryable).toBe(true);
+    expect(toErrorEnvelope(new NetworkError('reset', 'ECONNRESET'))).toMatchObject({
+      code: 'NETWORK_ERROR',
+      retryable: true,
+    });
+    expect(
+      toErrorEnvelope(new QuotaExceededError('Daily limit reached', '/adAnalytics', '2026-03-02T00:00:00.000Z'))
+    ).toMatchObject({ code: 'QUOTA_EXCEEDED', userMessage: 'Daily limit reached', retryable: false });
+  });
+
+  it('reports our own validation errors and unexpected errors', () => {
+    expect(toErrorEnvelope(new ValidationError('Unknown profile x', 'profile'))).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      field: 'profile',
+    });
+    expect(toErrorEnvelope(new Error('boom'))).toMatchObject({ code: 'INTERNAL_ERROR', message: 'boom' });
+  });
+
+  it('reports cancelled calls as not retryable', () => {
+    expect(toErrorEnvelope(new CancelledError('The client disconnected'))).toEqual({
+      code: 'CANCELLED',
+      message: 'The client disconnected',
+      userMessage: 'The tool call was cancelled before it finished.',
+      retryable: false,
+    });
+  });
+});
+
+describe('toolErrorResult', () => {
+  it('wraps the envelope in an MCP error result', () => {
+    const result = toolErrorResult(new ValidationError('Bad input', 'name'));
+    const content = result.content[0] as { type: string; text: string };
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(content.text)).toEqual({
+      error: expect.objectContaining({ code: 'VALIDATION_ERROR', message: 'Bad input', field: 'name' }),
+    });
+  });
+});
@@ -12,6 +12,7 @@ describe('Account Tools', () => {
   beforeEach(() => {
     mockClient = {
       finder: vi.fn(),
+      finderAll: vi.fn(),
       get: vi.fn(),
       getAll: vi.fn(),
       create: vi.fn(),
@@ -67,6 +68,50 @@ describe('Account Tools', () => {
       expect(parsed.count).toBe(0);
       expect(parsed.accounts).toEqual([]);
     });
+
+    it('collects every page with fetchAll', async () => {
+      vi.mocked(mockClient.finderAll).mockResolvedValue({
+        elements: [
+          {
+            id: 'urn:li:sponsoredAccount:111',
+            name: 'Account One',
+            status: 'ACTIVE',
+            currency: 'USD',
+            type: 'BUSINESS',
+          },
+        ],
+        truncated: false,
+      });
+
+      const result = await listAdAccounts({ fetchAll: true, pageSize: 25 }, mockClient);
+      const parsed = JSON.parse(result);
+
+      expect(mockClient.finderAll).toHaveBeenCalledWith(
+        '/adAccounts',
+        'search',
+        {},
+        expect.objectContaining({ pageSize: 25 })
+      );
+      expect(parsed.count).toBe(1);
+      expect(parsed.truncated).toBe(false);
+      expect(parsed.nextPageToken).toBeNull();
+    });
+
+    it('reports progress per page with fetchAll, capped at the result limit', async () => {
+      vi.mocked(mockClient.finderAll).mockImplementation((_path, _finder, _params, options) => {
+        options?.onPage?.(100, 5_000);
+        options?.onPage?.(200);
+        return Promise.resolve({ elements: [], truncated: false });
+      });
+      const reportProgress = vi.fn();
+
+      await listAdAccounts({ fetchAll: true }, mockClient, { dryRun: false, reportProgress });
+
+      expect(reportProgress.mock.calls).toEqual([
+        [100, 2_000],
+        [200, undefined],
+      ]);
+    });
   });
 
   describe('getAdAccount', () => {
@@ -120,6 +165,7 @@ describe('Account Tools', () => {
         expect(tool).toHaveProperty('description');
         expect(tool).toHaveProperty('parameters');
         expect(tool).toHaveProperty('handler');
+        expect(tool).toHaveProperty('annotations.title');
       }
     });
   });
@@ -236,6 +236,7 @@ describe('Analytics Tools', () => {
         expect(tool).toHaveProperty('description');
         expect(tool).toHaveProperty('parameters');
         expect(tool).toHaveProperty('handler');
+        expect(tool).toHaveProperty('annotations.title');
       }
     });
   });
@@ -100,6 +100,22 @@ describe('Campaign Group Tools', () => {
       expect(parsed.campaignGroup.id).toBe('999');
     });
 
+    it('returns the create request without calling LinkedIn in dry-run mode', async () => {
+      const result = await createCampaignGroup(
+        { accountId: '456', name: 'New Group', dryRun: true },
+        mockClient
+      );
+      const parsed = JSON.parse(result);
+
+      expect(mockClient.create).not.toHaveBeenCalled();
+      expect(parsed.request.resourcePath).toBe('/adAccounts/456/adCampaignGroups');
+      expect(parsed.request.body).toEqual({
+        account: 'urn:li:sponsoredAccount:456',
+        name: 'New Group',
+        status: 'ACTIVE',
+      });
+    });
+
     it('includes total budget when provided', async () => {
       vi.mocked(mockClient.create).mockResolvedValue({
         id: 'urn:li:sponsoredCampaignGroup:999',
@@ -201,6 +217,17 @@ describe('Campaign Group Tools', () => {
         }
       );
     });
+
+    it('enforces the total budget cap from the spend policy', async () => {
+      await expect(
+        updateCampaignGroup(
+          { accountId: '456', groupId: '123', totalBudget: 50000 },
+          mockClient,
+          { dryRun: false, spendPolicy: { defaults: {}, accounts: { '456': { maxTotalBudget: 10000 } } } }
+        )
+      ).rejects.toMatchObject({ field: 'totalBudget', details: { rule: 'maxTotalBudget', limit: 10000 } });
+      expect(mockClient.partialUpdate).not.toHaveBeenCalled();
+    });
   });
 
   describe('tool definitions', () => {
@@ -213,6 +240,7 @@ describe('Campaign Group Tools', () => {
         expect(tool).toHaveProperty('description');
         expect(tool).toHaveProperty('parameters');
         expect(tool).toHaveProperty('handler');
+        expect(tool).toHaveProperty('annotations.title');
       }
     });
   });
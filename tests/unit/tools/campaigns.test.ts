@@ -2,12 +2,14 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
   listCampaigns,
   getCampaign,
+  getCampaignsByIds,
   createCampaign,
   updateCampaign,
   deleteCampaign,
   campaignTools,
 } from '../../../src/tools/campaigns.js';
 import type { LinkedInClient } from '../../../src/client.js';
+import { FETCH_ALL_MAX_RESULTS } from '../../../src/types.js';
 
 /**
  * Tests for campaign tool handlers.
@@ -22,7 +24,9 @@ describe('Campaign Tools', () => {
   beforeEach(() => {
     mockClient = {
       finder: vi.fn(),
+      finderAll: vi.fn(),
       get: vi.fn(),
+      batchGet: vi.fn(),
       getAll: vi.fn(),
       create: vi.fn(),
       update: vi.fn(),
@@ -90,6 +94,84 @@ describe('Campaign Tools', () => {
       );
     });
 
+    it('passes pageSize and pageToken and returns nextPageToken', async () => {
+      vi.mocked(mockClient.finder).mockResolvedValue({
+        elements: [],
+        metadata: { nextPageToken: 'next-cursor' },
+      });
+
+      const result = await listCampaigns(
+        { accountId: '456', pageSize: 50, pageToken: 'cursor' },
+        mockClient
+      );
+      const parsed = JSON.parse(result);
+
+      expect(mockClient.finder).toHaveBeenCalledWith(
+        '/adAccounts/456/adCampaigns',
+        'search',
+        { pageSize: 50, pageToken: 'cursor' }
+      );
+      expect(parsed.nextPageToken).toBe('next-cursor');
+    });
+
+    it('returns and accepts a resume token for offset-paged results', async () => {
+      vi.mocked(mockClient.finder).mockResolvedValue({
+        elements: [{ id: 1 }, { id: 2 }],
+        paging: { start: 0, count: 2, total: 5 },
+      });
+
+      const { nextPageToken } = JSON.parse(await listCampaigns({ accountId: '456' }, mockClient));
+      await listCampaigns({ accountId: '456', pageToken: nextPageToken, pageSize: 2 }, mockClient);
+
+      expect(nextPageToken).toBe('start:2');
+      expect(mockClient.finder).toHaveBeenLastCalledWith('/adAccounts/456/adCampaigns', 'search', { start: 2, count: 2 });
+    });
+
+    it('returns a null nextPageToken on the last page', async () => {
+      vi.mocked(mockClient.finder).mockResolvedValue({ elements: [] });
+
+      const result = await listCampaigns({ accountId: '456' }, mockClient);
+
+      expect(JSON.parse(result).nextPageToken).toBeNull();
+    });
+
+    it('collects every page with fetchAll', async () => {
+      vi.mocked(mockClient.finderAll).mockResolvedValue({
+        elements: [
+          {
+            id: 'urn:li:sponsoredCampaign:1',
+            name: 'Archived',
+            status: 'ARCHIVED',
+            objectiveType: 'WEBSITE_VISITS',
+            costType: 'CPC',
+          },
+        ],
+        nextPageToken: 'resume-here',
+        truncated: true,
+      });
+
+      const result = await listCampaigns(
+        { accountId: '456', status: 'ARCHIVED', fetchAll: true },
+        mockClient
+      );
+      const parsed = JSON.parse(result);
+
+      expect(mockClient.finder).not.toHaveBeenCalled();
+      expect(mockClient.finderAll).toHaveBeenCalledWith(
+        '/adAccounts/456/adCampaigns',
+        'search',
+        { 'search.status.values[0]': 'ARCHIVED' },
+        { pageSize: 100, pageToken: undefined, maxElements: FETCH_ALL_MAX_RESULTS }
+      );
+      expect(parsed.count).toBe(1);
+      expect(parsed.truncated).toBe(true);
+      expect(parsed.nextPageToken).toBe('resume-here');
+    });
+
+    it('rejects a pageSize above the LinkedIn maximum', async () => {
+      await expect(listCampaigns({ accountId: '456', pageSize: 5000 }, mockClient)).rejects.toThrow();
+    });
+
     it('rejects invalid input', async () => {
       await expect(listCampaigns({}, mockClient)).rejects.toThrow();
     });
@@ -119,6 +201,48 @@ describe('Campaign Tools', () => {
     });
   });
 
+  describe('getCampaignsByIds', () => {
+    it('returns a result per ID with per-ID errors', async () => {
+      vi.mocked(mockClient.batchGet).mockResolvedValue({
+        results: {
+          '123': { id: 'urn:li:sponsoredCampaign:123', name: 'Found', status: 'ACTIVE' },
+        },
+        errors: { '456': { status: 403, message: 'Not allowed' } },
+        statuses: {},
+      });
+
+      const result = await getCampaignsByIds(
+        { accountId: '9', campaignIds: ['123', '456', '789', '123'] },
+        mockClient
+      );
+      const parsed = JSON.parse(result);
+
+      expect(mockClient.batchGet).toHaveBeenCalledWith('/adAccounts/9/adCampaigns', [
+        '123',
+        '456',
+        '789',
+      ]);
+      expect(parsed.found).toBe(1);
+      expect(parsed.failed).toBe(2);
+      expect(parsed.results[0].id).toBe('123');
+      expect(parsed.results[0].campaign.name).toBe('Found');
+      expect(parsed.results[1]).toEqual({
+        id: '456',
+        error: { status: 403, message: 'Not allowed' },
+      });
+      expect(parsed.results[2]).toEqual({
+        id: '789',
+        error: { status: 404, message: 'No entity returned for ID 789' },
+      });
+    });
+
+    it('rejects an empty ID list', async () => {
+      await expect(
+        getCampaignsByIds({ accountId: '9', campaignIds: [] }, mockClient)
+      ).rejects.toThrow();
+    });
+  });
+
   describe('createCampaign', () => {
     it('creates a campaign with required fields', async () => {
       const mockResponse = {
@@ -344,12 +468,131 @@ describe('Campaign Tools', () => {
       expect(parsed.message).toBe('Campaign archived successfully');
       expect(parsed.campaignId).toBe('123');
     });
+
+    it('describes the archive request in dry-run mode', async () => {
+      const result = await deleteCampaign(
+        { accountId: '456', campaignId: '123', dryRun: true },
+        mockClient
+      );
+      const parsed = JSON.parse(result);
+
+      expect(mockClient.partialUpdate).not.toHaveBeenCalled();
+      expect(parsed.request).toEqual({
+        method: 'POST',
+        restliMethod: 'PARTIAL_UPDATE',
+        resourcePath: '/adAccounts/456/adCampaigns/123',
+        body: { patch: { $set: { status: 'ARCHIVED' } } },
+      });
+    });
+  });
+
+  describe('dry run', () => {
+    const createInput = {
+      accountId: '456',
+      name: 'Dry Campaign',
+      objectiveType: 'WEBSITE_VISITS',
+      costType: 'CPC',
+      dailyBudget: 50,
+    };
+
+    it('returns the exact create request without calling LinkedIn', async () => {
+      const result = await createCampaign({ ...createInput, dryRun: true }, mockClient);
+      const parsed = JSON.parse(result);
+
+      expect(mockClient.create).not.toHaveBeenCalled();
+      expect(parsed.dryRun).toBe(true);
+      expect(parsed.request).toEqual({
+        method: 'POST',
+        restliMethod: 'CREATE',
+        resourcePath: '/adAccounts/456/adCampaigns',
+        body: {
+          account: 'urn:li:sponsoredAccount:456',
+          name: 'Dry Campaign',
+          objectiveType: 'WEBSITE_VISITS',
+          costType: 'CPC',
+          dailyBudget: { amount: '50', currencyCode: 'USD' },
+          status: 'DRAFT',
+          type: 'SPONSORED_UPDATES',
+        },
+      });
+    });
+
+    it('follows the server-wide default from the tool context', async () => {
+      const result = await updateCampaign(
+        { accountId: '456', campaignId: '123', status: 'PAUSED' },
+        mockClient,
+        { dryRun: true }
+      );
+
+      expect(mockClient.partialUpdate).not.toHaveBeenCalled();
+      expect(mockClient.get).not.toHaveBeenCalled();
+      expect(JSON.parse(result).request.body).toEqual({ patch: { $set: { status: 'PAUSED' } } });
+    });
+
+    it('lets dryRun: false override the server-wide default', async () => {
+      vi.mocked(mockClient.create).mockResolvedValue({ id: 'urn:li:sponsoredCampaign:1' });
+
+      await createCampaign({ ...createInput, dryRun: false }, mockClient, { dryRun: true });
+
+      expect(mockClient.create).toHaveBeenCalled();
+    });
+
+    it('still validates input', async () => {
+      await expect(
+        createCampaign({ ...createInput, dailyBudget: -5, dryRun: true }, mockClient)
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('spend policy', () => {
+    const context = {
+      dryRun: false,
+      spendPolicy: {
+        defaults: { maxDailyBudget: 500, maxBudgetIncreasePercent: 100 },
+        accounts: {},
+      },
+    };
+
+    it('blocks a create above the daily budget cap before calling LinkedIn', async () => {
+      await expect(
+        createCampaign(
+          { accountId: '456', name: 'Huge', objectiveType: 'WEBSITE_VISITS', costType: 'CPC', dailyBudget: 50000 },
+          mockClient,
+          context
+        )
+      ).rejects.toMatchObject({ name: 'ValidationError', field: 'dailyBudget', details: { rule: 'maxDailyBudget' } });
+      expect(mockClient.create).not.toHaveBeenCalled();
+    });
+
+    it('checks budget increases against the current campaign budget', async () => {
+      vi.mocked(mockClient.get).mockResolvedValue({
+        id: 'urn:li:sponsoredCampaign:123',
+        dailyBudget: { amount: '100', currencyCode: 'USD' },
+      });
+
+      await expect(
+        updateCampaign({ accountId: '456', campaignId: '123', dailyBudget: 300 }, mockClient, context)
+      ).rejects.toThrow('above maxBudgetIncreasePercent 100%');
+      expect(mockClient.get).toHaveBeenCalledWith('/adAccounts/456/adCampaigns', '123');
+      expect(mockClient.partialUpdate).not.toHaveBeenCalled();
+    });
+
+    it('also applies to dry runs', async () => {
+      await expect(
+        createCampaign(
+          { accountId: '456', name: 'Huge', objectiveType: 'WEBSITE_VISITS', costType: 'CPC', dailyBudget: 501, dryRun: true },
+          mockClient,
+          context
+        )
+      ).rejects.toThrow('Spend policy blocked this change');
+    });
   });
 
   describe('tool definitions', () => {
     it('exports correct tool structure', () => {
       expect(campaignTools).toHaveProperty('list_campaigns');
       expect(campaignTools).toHaveProperty('get_campaign');
+      expect(campaignTools).toHaveProperty('get_campaigns_by_ids');
       expect(campaignTools).toHaveProperty('create_campaign');
       expect(campaignTools).toHaveProperty('update_campaign');
       expect(campaignTools).toHaveProperty('delete_campaign');
@@ -359,6 +602,7 @@ describe('Campaign Tools', () => {
         expect(tool).toHaveProperty('description');
         expect(tool).toHaveProperty('parameters');
         expect(tool).toHaveProperty('handler');
+        expect(tool).toHaveProperty('annotations.title');
         expect(typeof tool.handler).toBe('function');
       }
     });
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getChangeHistory, undoChange, changeHistoryTools } from '../../../src/tools/change-history.js';
+import type { LinkedInClient } from '../../../src/client.js';
+import { ConfigurationError, ValidationError } from '../../../src/errors.js';
+import { AuditLog, type AuditRecord } from '../../../src/utils/audit-log.js';
+
+/**
+ * Tests for the get_change_history and undo_change tool handlers.
+ */
+
+describe('Change History Tools', () => {
+  const mockClient = {} as LinkedInClient;
+  let dir: string;
+  let auditLog: AuditLog;
+
+  const entry = (id: string, timestamp: string, campaignId: string): AuditRecord => ({
+    id,
+    timestamp,
+    tool: 'update_campaign',
+    input: { campaignId },
+    resourceUrn: `urn:li:sponsoredCampaign:${campaignId}`,
+    accountId: '456',
+    campaignId,
+    before: { dailyBudget: { amount: '100', currencyCode: 'USD' } },
+    after: { dailyBudget: { amount: '200', currencyCode: 'USD' } },
+    outcome: 'success',
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'change-history-'));
+    auditLog = new AuditLog(join(dir, 'audit.jsonl'));
+    auditLog.append(entry('a', '2026-03-01T09:00:00.000Z', '1'));
+    auditLog.append(entry('b', '2026-03-02T09:00:00.000Z', '2'));
+    auditLog.append(entry('c', '2026-03-03T09:00:00.000Z', '1'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns changes to a campaign newest first', async () => {
+    const parsed = JSON.parse(
+      await getChangeHistory({ campaignId: '1' }, mockClient, { dryRun: false, auditLog })
+    );
+
+    expect(parsed.changes.map((change: AuditRecord) => change.id)).toEqual(['c', 'a']);
+    expect(parsed.changes[0].before.dailyBudget.amount).toBe('100');
+    expect(parsed.truncated).toBe(false);
+  });
+
+  it('filters by time window and limits the result', async () => {
+    const parsed = JSON.parse(
+      await getChangeHistory(
+        { accountId: '456', since: '2026-03-02', until: '2026-03-03T12:00:00Z', limit: 1 },
+        mockClient,
+        { dryRun: false, auditLog }
+      )
+    );
+
+    expect(parsed.changes.map((change: AuditRecord) => change.id)).toEqual(['c']);
+    expect(parsed.totalMatches).toBe(2);
+    expect(parsed.truncated).toBe(true);
+  });
+
+  it('rejects malformed timestamps', async () => {
+    await expect(
+      getChangeHistory({ since: 'last tuesday' }, mockClient, { dryRun: false, auditLog })
+    ).rejects.toThrow();
+  });
+
+  it('explains how to enable auditing when it is off', async () => {
+    await expect(getChangeHistory({}, mockClient, { dryRun: false })).rejects.toThrow(ConfigurationError);
+  });
+
+  it('exports the tool definitions', () => {
+    expect(changeHistoryTools.get_change_history.handler).toBe(getChangeHistory);
+    expect(changeHistoryTools.undo_change.handler).toBe(undoChange);
+  });
+});
+
+describe('undoChange', () => {
+  let mockClient: LinkedInClient;
+  let dir: string;
+  let auditLog: AuditLog;
+
+  const budgetChange: AuditRecord = {
+    id: 'budget-change',
+    timestamp: '2026-03-01T09:00:00.000Z',
+    tool: 'update_campaign',
+    input: { accountId: '456', campaignId: '123', dailyBudget: 200, name: 'Renamed' },
+    resourceUrn: 'urn:li:sponsoredCampaign:123',
+    accountId: '456',
+    campaignId: '123',
+    before: {
+      id: 123,
+      name: 'Original',
+      status: 'ACTIVE',
+      dailyBudget: { amount: '100', currencyCode: 'USD' },
+      runSchedule: { start: 1 },
+    },
+    after: {
+      id: 123,
+      name: 'Renamed',
+      status: 'ACTIVE',
+      dailyBudget: { amount: '200', currencyCode: 'USD' },
+      runSchedule: { start: 1 },
+    },
+    outcome: 'success',
+  };
+
+  beforeEach(() => {
+    mockClient = {
+      get: vi.fn(),
+      partialUpdate: vi.fn(),
+    } as unknown as LinkedInClient;
+    dir = mkdtempSync(join(tmpdir(), 'undo-change-'));
+    auditLog = new AuditLog(join(dir, 'audit.jsonl'));
+    auditLog.append(budgetChange);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('restores only the fields the change modified', async () => {
+    vi.mocked(mockClient.get)
+      .mockResolvedValueOnce({ ...(budgetChange.after as object), lastModified: 99 })
+      .mockResolvedValue(budgetChange.before);
+
+    const parsed = JSON.parse(
+      await undoChange({ changeId: 'budget-change' }, mockClient, { dryRun: false, auditLog })
+    );
+
+    expect(mockClient.partialUpdate).toHaveBeenCalledWith('/adAccounts/456/adCampaigns', '123', {
+      name: 'Original',
+      dailyBudget: { amount: '100', currencyCode: 'USD' },
+    });
+    expect(parsed.message).toBe('Change budget-change undone');
+    expect(parsed.entity.name).toBe('Original');
+
+    const [undo] = await auditLog.query({ tool: 'undo_change' });
+    expect(undo).toMatchObject({ resourceUrn: 'urn:li:sponsoredCampaign:123', outcome: 'success' });
+  });
+
+  it('refuses when the entity was modified since', async () => {
+    vi.mocked(mockClient.get).mockResolvedValue({
+      ...(budgetChange.after as object),
+      dailyBudget: { amount: '300', currencyCode: 'USD' },
+    });
+
+    const error = await undoChange({ changeId: 'budget-change' }, mockClient, { dryRun: false, auditLog }).catch(
+      (e: unknown) => e
+    );
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).message).toContain('has been modified since (dailyBudget)');
+    expect((error as ValidationError).details).toEqual({
+      conflicts: [
+        {
+          field: 'dailyBudget',
+          afterChange: { amount: '200', currencyCode: 'USD' },
+          current: { amount: '300', currencyCode: 'USD' },
+        },
+      ],
+    });
+    expect(mockClient.partialUpdate).not.toHaveBeenCalled();
+  });
+
+  it('returns the restoring patch in dry-run mode', async () => {
+    vi.mocked(mockClient.get).mockResolvedValue(budgetChange.after);
+
+    const parsed = JSON.parse(
+      await undoChange({ changeId: 'budget-change', dryRun: true }, mockClient, { dryRun: false, auditLog })
+    );
+
+    expect(parsed.request.body.patch.$set).toEqual({
+      name: 'Original',
+      dailyBudget: { amount: '100', currencyCode: 'USD' },
+    });
+    expect(mockClient.partialUpdate).not.toHaveBeenCalled();
+  });
+
+  it('applies the spend policy to restored budgets', async () => {
+    vi.mocked(mockClient.get).mockResolvedValue(budgetChange.after);
+
+    await expect(
+      undoChange({ changeId: 'budget-change' }, mockClient, {
+        dryRun: false,
+        auditLog,
+        spendPolicy: { defaults: { maxDailyBudget: 50 }, accounts: {} },
+      })
+    ).rejects.toThrow('exceeds maxDailyBudget 50');
+  });
+
+  it('refuses creates, failures, posts and unknown IDs', async () => {
+    auditLog.append({ ...budgetChange, id: 'create', tool: 'create_campaign', before: null });
+    auditLog.append({ ...budgetChange, id: 'failed', outcome: 'error', after: null, error: 'Denied' });
+    auditLog.append({ ...budgetChange, id: 'post', tool: 'update_post', resourceUrn: 'urn:li:share:1', accountId: null });
+
+    const context = { dryRun: false, auditLog };
+
+    await expect(undoChange({ changeId: 'create' }, mockClient, context)).rejects.toThrow('cannot be undone');
+    await expect(undoChange({ changeId: 'failed' }, mockClient, context)).rejects.toThrow('cannot be undone');
+    await expect(undoChange({ changeId: 'post' }, mockClient, context)).rejects.toThrow('cannot be undone');
+    await expect(undoChange({ changeId: 'missing' }, mockClient, context)).rejects.toThrow(
+      'No audit record with ID missing'
+    );
+    expect(mockClient.get).not.toHaveBeenCalled();
+  });
+
+  it('refuses changes made with another profile', async () => {
+    auditLog.append({ ...budgetChange, id: 'brand-a-change', profile: 'brand-a' });
+
+    await expect(
+      undoChange({ changeId: 'brand-a-change' }, mockClient, { dryRun: false, auditLog, profile: 'brand-b' })
+    ).rejects.toThrow('was made with profile brand-a');
+    expect(mockClient.get).not.toHaveBeenCalled();
+  });
+
+  it('refuses to unset fields that were empty before the change', async () => {
+    auditLog.append({
+      ...budgetChange,
+      id: 'end-date',
+      before: { status: 'ACTIVE', runSchedule: { start: 1 } },
+      after: { status: 'ACTIVE', runSchedule: { start: 1, end: 2 } },
+    });
+
+    await expect(
+      undoChange({ changeId: 'end-date' }, mockClient, { dryRun: false, auditLog })
+    ).rejects.toThrow('runSchedule.end had no value before it');
+  });
+});
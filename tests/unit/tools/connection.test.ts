@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { checkConnection, getApiQuotaUsage, connectionTools, TOOL_SCOPES } from '../../../src/tools/connection.js';
+import type { LinkedInClient } from '../../../src/client.js';
+import { AuthenticationError, LinkedInApiError } from '../../../src/errors.js';
+import { accountTools } from '../../../src/tools/accounts.js';
+import { campaignTools } from '../../../src/tools/campaigns.js';
+import { campaignGroupTools } from '../../../src/tools/campaign-groups.js';
+import { creativeTools } from '../../../src/tools/creatives.js';
+import { analyticsTools } from '../../../src/tools/analytics.js';
+import { targetingTools } from '../../../src/tools/targeting.js';
+import { postTools } from '../../../src/tools/posts.js';
+import { organizationAnalyticsTools } from '../../../src/tools/organization-analytics.js';
+import { changeHistoryTools } from '../../../src/tools/change-history.js';
+import { getToolAccess } from '../../../src/utils/tool-access.js';
+import { SCOPE_PRESETS } from '../../../src/oauth.js';
+
+/**
+ * Tests for the check_connection tool handler.
+ */
+
+function mockTokenClient(): LinkedInClient {
+  return {
+    finder: vi.fn(),
+    introspectToken: vi.fn().mockResolvedValue(undefined),
+    getTokenStatus: vi.fn().mockReturnValue({ refreshable: false }),
+    getApiVersion: vi.fn().mockReturnValue('202601'),
+  } as unknown as LinkedInClient;
+}
+
+describe('checkConnection', () => {
+  let adsClient: LinkedInClient;
+  let communityClient: LinkedInClient;
+
+  beforeEach(() => {
+    adsClient = mockTokenClient();
+    communityClient = mockTokenClient();
+  });
+
+  it('reports scopes, member and usable tools of both tokens', async () => {
+    vi.mocked(adsClient.finder).mockResolvedValue({
+      elements: [{ account: 'urn:li:sponsoredAccount:501', role: 'CAMPAIGN_MANAGER', user: 'urn:li:person:abc' }],
+    });
+    vi.mocked(adsClient.introspectToken).mockResolvedValue({
+      active: true,
+      status: 'active',
+      scope: 'r_ads,rw_ads,w_organization_social',
+      expires_at: 1_790_000_000,
+    });
+    vi.mocked(communityClient.finder).mockResolvedValue({
+      elements: [{ organization: 'urn:li:organization:9', role: 'ADMINISTRATOR', roleAssignee: 'urn:li:person:abc' }],
+    });
+    vi.mocked(communityClient.getTokenStatus).mockReturnValue({ refreshable: false, scope: 'rw_organization_admin' });
+
+    const parsed = JSON.parse(
+      await checkConnection({}, adsClient, { dryRun: false, profile: 'brand-a', communityClient })
+    );
+
+    expect(adsClient.finder).toHaveBeenCalledWith('/adAccountUsers', 'authenticatedUser');
+    expect(communityClient.finder).toHaveBeenCalledWith('/organizationAcls', 'roleAssignee');
+    expect(parsed.profile).toBe('brand-a');
+    expect(parsed.apiVersion).toEqual({ version: '202601', accepted: true });
+    expect(parsed.tokens.ads).toMatchObject({
+      valid: true,
+      status: 'active',
+      scopes: ['r_ads', 'rw_ads', 'w_organization_social'],
+      scopesSource: 'introspection',
+      expiresAt: new Date(1_790_000_000_000).toISOString(),
+      member: 'urn:li:person:abc',
+      roles: [{ entity: 'urn:li:sponsoredAccount:501', role: 'CAMPAIGN_MANAGER' }],
+    });
+    expect(parsed.tokens.community).toMatchObject({ scopes: ['rw_organization_admin'], scopesSource: 'token store' });
+    expect(parsed.tokens.community.introspection).toContain('LINKEDIN_COMMUNITY_CLIENT_ID');
+    expect(parsed.tools.usable).toEqual(expect.arrayContaining(['update_campaign', 'create_post', 'get_organization']));
+    expect(parsed.tools.unusable).toEqual(
+      expect.arrayContaining([
+        { tool: 'get_analytics', reason: 'the ads token lacks the r_ads_reporting scope' },
+        { tool: 'list_posts', reason: 'the ads token lacks the r_organization_social scope' },
+      ])
+    );
+    expect(parsed.tools.unverified).toEqual([]);
+  });
+
+  it('leaves tools unverified when the scopes are unknown', async () => {
+    vi.mocked(adsClient.finder).mockResolvedValue({ elements: [] });
+
+    const parsed = JSON.parse(await checkConnection({}, adsClient, { dryRun: false }));
+
+    expect(parsed.tokens.ads).toMatchObject({ valid: true, scopes: null, member: null });
+    expect(parsed.tokens.ads.introspection).toContain('LINKEDIN_CLIENT_ID');
+    expect(parsed.tokens.community).toEqual({ configured: false });
+    expect(parsed.tools.usable).toEqual(['get_change_history', 'check_connection', 'get_api_quota_usage']);
+    expect(parsed.tools.unverified).toContain('list_campaigns');
+    expect(parsed.tools.unusable).toContainEqual({
+      tool: 'get_share_statistics',
+      reason: 'no community token is configured',
+    });
+  });
+
+  it('reports an API version LinkedIn no longer accepts', async () => {
+    vi.mocked(adsClient.finder).mockRejectedValue(
+      new LinkedInApiError('Requested version 202301 is not active', 426, 'NONEXISTENT_VERSION')
+    );
+
+    const parsed = JSON.parse(await checkConnection({}, adsClient, { dryRun: false }));
+
+    expect(parsed.apiVersion).toEqual({
+      version: '202601',
+      accepted: false,
+      error: 'Requested version 202301 is not active',
+    });
+    expect(parsed.tokens.ads.valid).toBeNull();
+  });
+
+  it('reports a rejected token and the tools it blocks', async () => {
+    vi.mocked(adsClient.finder).mockRejectedValue(new AuthenticationError('Invalid access token'));
+    vi.mocked(adsClient.introspectToken).mockRejectedValue(new AuthenticationError('Token request failed: 401'));
+
+    const parsed = JSON.parse(await checkConnection({}, adsClient, { dryRun: false }));
+
+    expect(parsed.apiVersion.accepted).toBeNull();
+    expect(parsed.tokens.ads).toMatchObject({
+      valid: false,
+      error: 'Invalid access token',
+      introspection: 'failed: Token request failed: 401',
+    });
+    expect(parsed.tools.unusable).toContainEqual({
+      tool: 'list_ad_accounts',
+      reason: 'the ads token is invalid, expired or revoked',
+    });
+  });
+
+  it('reports tools disabled by the permission settings as unusable', async () => {
+    vi.mocked(adsClient.finder).mockResolvedValue({ elements: [] });
+    vi.mocked(adsClient.getTokenStatus).mockReturnValue({ refreshable: false, scope: 'r_ads,rw_ads' });
+    const permissions = { readOnly: true, toolsAllow: [], toolsDeny: ['get_change_history'] };
+
+    const parsed = JSON.parse(
+      await checkConnection({}, adsClient, { dryRun: false, toolAccess: (tool) => getToolAccess(tool, permissions) })
+    );
+
+    expect(parsed.tools.usable).toContain('list_campaigns');
+    expect(parsed.tools.usable).not.toContain('update_campaign');
+    expect(parsed.tools.unusable).toEqual(
+      expect.arrayContaining([
+        {
+          tool: 'update_campaign',
+          reason: 'the tool is disabled because the server is running with LINKEDIN_READ_ONLY=true',
+        },
+        {
+          tool: 'get_change_history',
+          reason: 'the tool is disabled because it matches LINKEDIN_TOOLS_DENY pattern "get_change_history"',
+        },
+      ])
+    );
+  });
+
+  it('only needs scopes that a preset of npm run auth requests', () => {
+    const requested = new Set(Object.values(SCOPE_PRESETS).flat());
+
+    for (const [tool, { anyOf }] of Object.entries(TOOL_SCOPES)) {
+      expect(anyOf.length === 0 || anyOf.some((scope) => requested.has(scope)), tool).toBe(true);
+    }
+  });
+
+  it('knows the scopes of every registered tool', () => {
+    const tools = {
+      ...accountTools,
+      ...campaignTools,
+      ...campaignGroupTools,
+      ...creativeTools,
+      ...analyticsTools,
+      ...targetingTools,
+      ...postTools,
+      ...changeHistoryTools,
+      ...connectionTools,
+      ...organizationAnalyticsTools,
+    };
+
+    expect(Object.keys(TOOL_SCOPES).sort()).toEqual(Object.keys(tools).sort());
+  });
+
+  it('exports the tool definitions', () => {
+    expect(connectionTools.check_connection.handler).toBe(checkConnection);
+    expect(connectionTools.get_api_quota_usage.handler).toBe(getApiQuotaUsage);
+  });
+});
+
+describe('getApiQuotaUsage', () => {
+  const usage = (endpoint: string, calls: number): unknown => ({
+    date: '2026-03-01',
+    resetsAt: '2026-03-02T00:00:00.000Z',
+    endpoints: [{ endpoint, calls, rateLimited: 0, inFlight: 0, queued: 0 }],
+  });
+
+  it('reports the usage of both clients of the profile', async () => {
+    const adsClient = { getQuotaUsage: vi.fn().mockReturnValue(usage('/adAnalytics', 12)) } as unknown as LinkedInClient;
+    const communityClient = {
+      getQuotaUsage: vi.fn().mockReturnValue(usage('/organizationalEntityShareStatistics', 3)),
+    } as unknown as LinkedInClient;
+
+    const parsed = JSON.parse(
+      await getApiQuotaUsage({}, adsClient, { dryRun: false, profile: 'brand-a', communityClient })
+    );
+
+    expect(parsed).toMatchObject({
+      profile: 'brand-a',
+      date: '2026-03-01',
+      resetsAt: '2026-03-02T00:00:00.000Z',
+      ads: [{ endpoint: '/adAnalytics', calls: 12 }],
+      community: [{ endpoint: '/organizationalEntityShareStatistics', calls: 3 }],
+    });
+  });
+
+  it('reports null for a profile without a community token', async () => {
+    const adsClient = { getQuotaUsage: vi.fn().mockReturnValue(usage('/adAccounts', 1)) } as unknown as LinkedInClient;
+
+    const parsed = JSON.parse(await getApiQuotaUsage({}, adsClient, { dryRun: false }));
+
+    expect(parsed.community).toBeNull();
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
   listCreatives,
   getCreative,
+  getCreativesByIds,
   createCreative,
   updateCreative,
   deleteCreative,
@@ -20,6 +21,7 @@ describe('Creative Tools', () => {
     mockClient = {
       finder: vi.fn(),
       get: vi.fn(),
+      batchGet: vi.fn(),
       getAll: vi.fn(),
       create: vi.fn(),
       update: vi.fn(),
@@ -110,6 +112,34 @@ describe('Creative Tools', () => {
     });
   });
 
+  describe('getCreativesByIds', () => {
+    it('returns found creatives and reports missing IDs', async () => {
+      vi.mocked(mockClient.batchGet).mockResolvedValue({
+        results: {
+          '123': {
+            id: 'urn:li:sponsoredCreative:123',
+            campaign: 'urn:li:sponsoredCampaign:456',
+            status: 'ACTIVE',
+          },
+        },
+        errors: {},
+        statuses: { '321': 404 },
+      });
+
+      const result = await getCreativesByIds(
+        { accountId: '789', creativeIds: ['123', '321'] },
+        mockClient
+      );
+      const parsed = JSON.parse(result);
+
+      expect(mockClient.batchGet).toHaveBeenCalledWith('/adAccounts/789/creatives', ['123', '321']);
+      expect(parsed.found).toBe(1);
+      expect(parsed.failed).toBe(1);
+      expect(parsed.results[0].creative.id).toBe('123');
+      expect(parsed.results[1].error.status).toBe(404);
+    });
+  });
+
   describe('createCreative', () => {
     it('creates a TEXT_AD creative', async () => {
       const mockResponse = {
@@ -258,8 +288,11 @@ describe('Creative Tools', () => {
   });
 
   describe('deleteCreative', () => {
-    it('deletes a creative', async () => {
-      vi.mocked(mockClient.delete).mockResolvedValue(undefined);
+    it('previews the creative and issues a token instead of deleting', async () => {
+      vi.mocked(mockClient.get).mockResolvedValue({
+        id: 'urn:li:sponsoredCreative:123',
+        intendedStatus: 'ACTIVE',
+      });
 
       const result = await deleteCreative(
         { accountId: '789', creativeId: '123' },
@@ -267,16 +300,63 @@ describe('Creative Tools', () => {
       );
       const parsed = JSON.parse(result);
 
+      expect(mockClient.delete).not.toHaveBeenCalled();
+      expect(mockClient.get).toHaveBeenCalledWith('/adAccounts/789/creatives', '123');
+      expect(parsed.confirmationRequired).toBe(true);
+      expect(parsed.preview.id).toBe('123');
+      expect(parsed.confirmationToken).toEqual(expect.any(String));
+    });
+
+    it('deletes a creative when called again with the token', async () => {
+      vi.mocked(mockClient.get).mockResolvedValue({ id: 'urn:li:sponsoredCreative:123' });
+      vi.mocked(mockClient.delete).mockResolvedValue(undefined);
+
+      const preview = JSON.parse(await deleteCreative({ accountId: '789', creativeId: '123' }, mockClient));
+      const result = await deleteCreative(
+        { accountId: '789', creativeId: '123', confirmationToken: preview.confirmationToken },
+        mockClient
+      );
+      const parsed = JSON.parse(result);
+
       expect(mockClient.delete).toHaveBeenCalledWith('/adAccounts/789/creatives', '123');
       expect(parsed.message).toBe('Creative deleted successfully');
       expect(parsed.creativeId).toBe('123');
     });
+
+    it('rejects a token issued for another creative', async () => {
+      vi.mocked(mockClient.get).mockResolvedValue({ id: 'urn:li:sponsoredCreative:123' });
+
+      const preview = JSON.parse(await deleteCreative({ accountId: '789', creativeId: '123' }, mockClient));
+
+      await expect(
+        deleteCreative(
+          { accountId: '789', creativeId: '456', confirmationToken: preview.confirmationToken },
+          mockClient
+        )
+      ).rejects.toThrow('Confirmation token was issued for delete_creative on /adAccounts/789/creatives/123');
+      expect(mockClient.delete).not.toHaveBeenCalled();
+    });
+
+    it('describes the delete request in dry-run mode', async () => {
+      const result = await deleteCreative(
+        { accountId: '789', creativeId: '123', dryRun: true },
+        mockClient
+      );
+
+      expect(mockClient.delete).not.toHaveBeenCalled();
+      expect(JSON.parse(result).request).toEqual({
+        method: 'DELETE',
+        restliMethod: 'DELETE',
+        resourcePath: '/adAccounts/789/creatives/123',
+      });
+    });
   });
 
   describe('tool definitions', () => {
     it('exports correct tool structure', () => {
       expect(creativeTools).toHaveProperty('list_creatives');
       expect(creativeTools).toHaveProperty('get_creative');
+      expect(creativeTools).toHaveProperty('get_creatives_by_ids');
       expect(creativeTools).toHaveProperty('create_creative');
       expect(creativeTools).toHaveProperty('update_creative');
       expect(creativeTools).toHaveProperty('delete_creative');
@@ -285,6 +365,7 @@ describe('Creative Tools', () => {
         expect(tool).toHaveProperty('description');
         expect(tool).toHaveProperty('parameters');
         expect(tool).toHaveProperty('handler');
+        expect(tool).toHaveProperty('annotations.title');
       }
     });
   });
@@ -233,13 +233,46 @@ describe('Post Tools', () => {
       expect(parsed.message).toBe('Post updated successfully');
       expect(parsed.success).toBe(true);
     });
+
+    it('describes the update request in dry-run mode', async () => {
+      const result = await updatePost(
+        { postUrn: 'urn:li:share:123', text: 'Updated text' },
+        mockClient,
+        { dryRun: true }
+      );
+
+      expect(mockClient.partialUpdate).not.toHaveBeenCalled();
+      expect(JSON.parse(result).request).toEqual({
+        method: 'POST',
+        restliMethod: 'PARTIAL_UPDATE',
+        resourcePath: `/posts/${encodeURIComponent('urn:li:share:123')}`,
+        body: { patch: { $set: { commentary: 'Updated text' } } },
+      });
+    });
   });
 
   describe('deletePost', () => {
-    it('deletes a post', async () => {
+    it('previews the post and requires a confirmation token', async () => {
+      vi.mocked(mockClient.get).mockResolvedValue({
+        id: 'urn:li:share:123',
+        commentary: 'Goodbye',
+        author: 'urn:li:organization:42',
+      });
+
+      const parsed = JSON.parse(await deletePost({ postUrn: 'urn:li:share:123' }, mockClient));
+
+      expect(mockClient.delete).not.toHaveBeenCalled();
+      expect(parsed.confirmationRequired).toBe(true);
+      expect(parsed.preview.text).toBe('Goodbye');
+      expect(parsed.message).toContain('call delete_post again');
+    });
+
+    it('deletes a post with a valid token, once', async () => {
+      vi.mocked(mockClient.get).mockResolvedValue({ id: 'urn:li:share:123', commentary: 'Goodbye' });
       vi.mocked(mockClient.delete).mockResolvedValue(undefined);
 
-      const result = await deletePost({ postUrn: 'urn:li:share:123' }, mockClient);
+      const { confirmationToken } = JSON.parse(await deletePost({ postUrn: 'urn:li:share:123' }, mockClient));
+      const result = await deletePost({ postUrn: 'urn:li:share:123', confirmationToken }, mockClient);
       const parsed = JSON.parse(result);
 
       expect(mockClient.delete).toHaveBeenCalledWith(
@@ -248,6 +281,47 @@ describe('Post Tools', () => {
       );
       expect(parsed.message).toBe('Post deleted successfully');
       expect(parsed.success).toBe(true);
+
+      await expect(
+        deletePost({ postUrn: 'urn:li:share:123', confirmationToken }, mockClient)
+      ).rejects.toThrow('Unknown or already used confirmation token');
+      expect(mockClient.delete).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the token valid when the delete fails', async () => {
+      vi.mocked(mockClient.get).mockResolvedValue({ id: 'urn:li:share:123', commentary: 'Goodbye' });
+      vi.mocked(mockClient.delete).mockRejectedValueOnce(new Error('Service unavailable')).mockResolvedValue(undefined);
+
+      const { confirmationToken } = JSON.parse(await deletePost({ postUrn: 'urn:li:share:123' }, mockClient));
+
+      await expect(
+        deletePost({ postUrn: 'urn:li:share:123', confirmationToken }, mockClient)
+      ).rejects.toThrow('Service unavailable');
+
+      const parsed = JSON.parse(await deletePost({ postUrn: 'urn:li:share:123', confirmationToken }, mockClient));
+      expect(parsed.success).toBe(true);
+      expect(mockClient.delete).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects a token issued to another API key without deleting', async () => {
+      vi.mocked(mockClient.get).mockResolvedValue({ id: 'urn:li:share:123', commentary: 'Goodbye' });
+      const context = { dryRun: false, profile: 'default' };
+
+      const { confirmationToken } = JSON.parse(
+        await deletePost({ postUrn: 'urn:li:share:123' }, mockClient, { ...context, apiKeyName: 'alice' })
+      );
+
+      await expect(
+        deletePost({ postUrn: 'urn:li:share:123', confirmationToken }, mockClient, { ...context, apiKeyName: 'bob' })
+      ).rejects.toThrow('Unknown or already used confirmation token');
+      expect(mockClient.delete).not.toHaveBeenCalled();
+    });
+
+    it('rejects a made-up token without deleting', async () => {
+      await expect(
+        deletePost({ postUrn: 'urn:li:share:123', confirmationToken: 'yes-please' }, mockClient)
+      ).rejects.toMatchObject({ name: 'ValidationError', field: 'confirmationToken' });
+      expect(mockClient.delete).not.toHaveBeenCalled();
     });
   });
 
@@ -263,6 +337,7 @@ describe('Post Tools', () => {
         expect(tool).toHaveProperty('description');
         expect(tool).toHaveProperty('parameters');
         expect(tool).toHaveProperty('handler');
+        expect(tool).toHaveProperty('annotations.title');
       }
     });
   });